@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Exclusion" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "participant1Id" TEXT NOT NULL,
+    "participant2Id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Exclusion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Exclusion_participant1Id_participant2Id_key" ON "Exclusion"("participant1Id", "participant2Id");
+
+-- CreateIndex
+CREATE INDEX "Exclusion_eventId_idx" ON "Exclusion"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "Exclusion" ADD CONSTRAINT "Exclusion_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Exclusion" ADD CONSTRAINT "Exclusion_participant1Id_fkey" FOREIGN KEY ("participant1Id") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Exclusion" ADD CONSTRAINT "Exclusion_participant2Id_fkey" FOREIGN KEY ("participant2Id") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
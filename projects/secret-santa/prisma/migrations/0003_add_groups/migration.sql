@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "groupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Group" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Group_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Participant_groupId_idx" ON "Participant"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Group_eventId_name_key" ON "Group"("eventId", "name");
+
+-- CreateIndex
+CREATE INDEX "Group_eventId_idx" ON "Group"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "Participant" ADD CONSTRAINT "Participant_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "Group"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Group" ADD CONSTRAINT "Group_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
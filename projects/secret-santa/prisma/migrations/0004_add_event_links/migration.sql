@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "historyDepth" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "EventLink" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "priorEventId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventLink_eventId_priorEventId_key" ON "EventLink"("eventId", "priorEventId");
+
+-- CreateIndex
+CREATE INDEX "EventLink_eventId_idx" ON "EventLink"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "EventLink" ADD CONSTRAINT "EventLink_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventLink" ADD CONSTRAINT "EventLink_priorEventId_fkey" FOREIGN KEY ("priorEventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "topology" TEXT NOT NULL DEFAULT 'SINGLE_CYCLE';
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "giftsPerParticipant" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "Assignment" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "giverId" TEXT NOT NULL,
+    "receiverId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Assignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Assignment_giverId_receiverId_key" ON "Assignment"("giverId", "receiverId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Assignment_giverId_round_key" ON "Assignment"("giverId", "round");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Assignment_receiverId_round_key" ON "Assignment"("receiverId", "round");
+
+-- CreateIndex
+CREATE INDEX "Assignment_eventId_idx" ON "Assignment"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_giverId_fkey" FOREIGN KEY ("giverId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_receiverId_fkey" FOREIGN KEY ("receiverId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move existing single assignments into round 0
+INSERT INTO "Assignment" ("id", "eventId", "giverId", "receiverId", "round")
+SELECT gen_random_uuid()::text, "eventId", "id", "assignedToId", 0
+FROM "Participant"
+WHERE "assignedToId" IS NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "Participant" DROP CONSTRAINT "Participant_assignedToId_fkey";
+
+-- DropIndex
+DROP INDEX "Participant_assignedToId_key";
+
+-- AlterTable
+ALTER TABLE "Participant" DROP COLUMN "assignedToId";
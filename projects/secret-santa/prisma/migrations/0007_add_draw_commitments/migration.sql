@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "DrawCommitment" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "commitment" TEXT NOT NULL,
+    "salt" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DrawCommitment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DrawCommitment_commitment_key" ON "DrawCommitment"("commitment");
+
+-- CreateIndex
+CREATE INDEX "DrawCommitment_eventId_idx" ON "DrawCommitment"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "DrawCommitment" ADD CONSTRAINT "DrawCommitment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
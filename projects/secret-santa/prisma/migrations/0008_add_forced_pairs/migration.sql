@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "ForcedPair" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "giverId" TEXT NOT NULL,
+    "receiverId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ForcedPair_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForcedPair_giverId_key" ON "ForcedPair"("giverId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ForcedPair_receiverId_key" ON "ForcedPair"("receiverId");
+
+-- CreateIndex
+CREATE INDEX "ForcedPair_eventId_idx" ON "ForcedPair"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "ForcedPair" ADD CONSTRAINT "ForcedPair_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForcedPair" ADD CONSTRAINT "ForcedPair_giverId_fkey" FOREIGN KEY ("giverId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForcedPair" ADD CONSTRAINT "ForcedPair_receiverId_fkey" FOREIGN KEY ("receiverId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
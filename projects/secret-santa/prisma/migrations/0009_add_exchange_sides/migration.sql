@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "exchangeMode" TEXT NOT NULL DEFAULT 'OPEN';
+
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "side" TEXT;
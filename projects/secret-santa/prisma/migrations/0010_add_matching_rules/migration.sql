@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "attributes" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "MatchingRule" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "attribute" TEXT NOT NULL,
+    "relation" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchingRule_eventId_attribute_key" ON "MatchingRule"("eventId", "attribute");
+
+-- CreateIndex
+CREATE INDEX "MatchingRule_eventId_idx" ON "MatchingRule"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "MatchingRule" ADD CONSTRAINT "MatchingRule_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "poolId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Pool" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "budget" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Pool_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Pool_eventId_name_key" ON "Pool"("eventId", "name");
+
+-- CreateIndex
+CREATE INDEX "Pool_eventId_idx" ON "Pool"("eventId");
+
+-- CreateIndex
+CREATE INDEX "Participant_poolId_idx" ON "Participant"("poolId");
+
+-- AddForeignKey
+ALTER TABLE "Pool" ADD CONSTRAINT "Pool_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Participant" ADD CONSTRAINT "Participant_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "AssignmentVersion" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "generatedBy" TEXT,
+    "lockedParticipantIds" TEXT[],
+    "assignments" JSONB NOT NULL,
+    "rolledBackAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssignmentVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AssignmentVersion_eventId_number_key" ON "AssignmentVersion"("eventId", "number");
+
+-- CreateIndex
+CREATE INDEX "AssignmentVersion_eventId_idx" ON "AssignmentVersion"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "AssignmentVersion" ADD CONSTRAINT "AssignmentVersion_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'DRAFT';
+
+-- Locked events have been drawn; those with invites out have been notified
+UPDATE "Event" SET "status" = CASE
+    WHEN EXISTS (
+        SELECT 1 FROM "Participant"
+        WHERE "Participant"."eventId" = "Event"."id" AND "Participant"."notificationStatus" <> 'NOT_SENT'
+    ) THEN 'NOTIFIED'
+    ELSE 'DRAWN'
+END
+WHERE "isLocked" = true;
+
+-- AlterTable
+ALTER TABLE "Event" DROP COLUMN "isLocked";
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "emailStatus" TEXT;
+ALTER TABLE "Participant" ADD COLUMN "smsStatus" TEXT;
+
+-- Every invite sent so far went out by email
+UPDATE "Participant" SET "emailStatus" = 'SENT' WHERE "notifiedAt" IS NOT NULL AND "email" IS NOT NULL;
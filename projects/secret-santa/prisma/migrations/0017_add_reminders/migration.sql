@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "ReminderSchedule" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "anchor" TEXT NOT NULL,
+    "days" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReminderSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Reminder" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT,
+    "participantId" TEXT NOT NULL,
+    "invitedAt" TIMESTAMP(3) NOT NULL,
+    "channel" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'SENDING',
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+
+    CONSTRAINT "Reminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReminderSchedule_eventId_anchor_days_key" ON "ReminderSchedule"("eventId", "anchor", "days");
+
+-- CreateIndex
+CREATE INDEX "ReminderSchedule_eventId_idx" ON "ReminderSchedule"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reminder_scheduleId_participantId_invitedAt_key" ON "Reminder"("scheduleId", "participantId", "invitedAt");
+
+-- CreateIndex
+CREATE INDEX "Reminder_participantId_idx" ON "Reminder"("participantId");
+
+-- AddForeignKey
+ALTER TABLE "ReminderSchedule" ADD CONSTRAINT "ReminderSchedule_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ReminderSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
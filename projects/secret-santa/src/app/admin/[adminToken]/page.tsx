@@ -2,7 +2,18 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { ExclusionsCard } from "@/components/ExclusionsCard";
+import { ForcedPairsCard } from "@/components/ForcedPairsCard";
+import { RulesCard, type RuleAnalysisView } from "@/components/RulesCard";
+import { PoolsCard } from "@/components/PoolsCard";
+import { DrawHistoryCard } from "@/components/DrawHistoryCard";
+import { EventPhaseCard } from "@/components/EventPhaseCard";
+import { IntegrityCard } from "@/components/IntegrityCard";
 import { GmailConnectionCard } from "@/components/GmailConnectionCard";
+import { EmailTransportCard } from "@/components/EmailTransportCard";
+import { EmailTemplatesCard } from "@/components/EmailTemplatesCard";
+import { RemindersCard } from "@/components/RemindersCard";
+import { LinkedEventsCard } from "@/components/LinkedEventsCard";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -30,30 +41,119 @@ import {
   Check,
   Mail,
   MessageCircle,
+  Smartphone,
   Loader2,
   Trash2,
 } from "lucide-react";
+import { canPerform, type EventStatus } from "@/lib/event-lifecycle";
+
+interface Group {
+  id: string;
+  name: string;
+}
+
+interface Pool {
+  id: string;
+  name: string;
+  budget: string | null;
+}
 
 interface Participant {
   id: string;
   name: string;
   email: string | null;
   phone: string | null;
+  group: Group | null;
+  pool: { id: string; name: string } | null;
+  side: string | null;
+  attributes: Record<string, string>;
   accessToken: string;
   hasAssignment: boolean;
   notificationStatus: "NOT_SENT" | "SENT" | "VIEWED";
   notifiedAt: string | null;
+  emailStatus: "SENT" | "FAILED" | null;
+  smsStatus: "SENT" | "FAILED" | null;
   viewedAt: string | null;
+  reminders: Reminder[];
+}
+
+interface Reminder {
+  id: string;
+  channel: "EMAIL" | "SMS";
+  status: "SENDING" | "SENT" | "FAILED";
+  error: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+type Topology = "SINGLE_CYCLE" | "ANY_DERANGEMENT" | "NO_MUTUAL_PAIRS";
+
+const TOPOLOGY_LABELS: Record<Topology, string> = {
+  SINGLE_CYCLE: "One big loop",
+  ANY_DERANGEMENT: "Any arrangement",
+  NO_MUTUAL_PAIRS: "No mutual pairs",
+};
+
+const TOPOLOGY_DESCRIPTIONS: Record<Topology, string> = {
+  SINGLE_CYCLE: "Everyone forms a single gift-giving chain (A → B → C → ... → A)",
+  ANY_DERANGEMENT: "Every arrangement is equally likely, including small loops and two people drawing each other",
+  NO_MUTUAL_PAIRS: "Any arrangement except two people drawing each other",
+};
+
+/**
+ * Shows attributes as "office: Pittsburgh, department: Sales" for inline editing
+ */
+function formatAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(", ");
+}
+
+/**
+ * Reads "name: value" pairs separated by commas, or null if a pair has no colon
+ */
+function parseAttributeText(text: string): Record<string, string> | null {
+  const attributes: Record<string, string> = {};
+  for (const pair of text.split(",")) {
+    if (!pair.trim()) continue;
+    const separator = pair.indexOf(":");
+    if (separator === -1) return null;
+    attributes[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return attributes;
 }
 
+type ExchangeMode = "OPEN" | "CROSS_SIDES";
+
+const EXCHANGE_MODE_LABELS: Record<ExchangeMode, string> = {
+  OPEN: "Everyone together",
+  CROSS_SIDES: "Two sides swap",
+};
+
+const EXCHANGE_MODE_DESCRIPTIONS: Record<ExchangeMode, string> = {
+  OPEN: "Anyone can draw anyone (apart from exclusions and households)",
+  CROSS_SIDES: "Tag everyone with one of two equal-sized sides (e.g. Engineering and Sales) - everyone buys for someone on the other side",
+};
+
 interface Event {
   id: string;
   name: string;
   budget: string | null;
   eventDate: string | null;
   rules: string | null;
+  status: EventStatus;
   isLocked: boolean;
+  nextStatuses: EventStatus[];
+  historyDepth: number;
+  topology: Topology;
+  giftsPerParticipant: number;
+  exchangeMode: ExchangeMode;
   participants: Participant[];
+  groups: Group[];
+  pools: Pool[];
+  drawCommitment: { commitment: string; createdAt: string } | null;
+  emailTransport: { kind: "GMAIL" | "SMTP" | "OUTBOX"; isDefault: boolean; problem: string | null };
+  smsProblem: string | null;
 }
 
 interface RegenerationStatus {
@@ -66,6 +166,30 @@ interface RegenerationStatus {
   canRegenerate: boolean;
   isFullRegeneration: boolean;
   reason?: string;
+  feasible: boolean;
+  feasibilityProblems: string[];
+  alternativeCount: number | null;
+  ruleAnalysis: RuleAnalysisView[];
+}
+
+// Dry run of the draw - aggregate counts only, never pairings
+interface DrawPreview {
+  feasible: boolean;
+  reason?: string;
+  feasibilityProblems?: string[];
+  regeneratedCount?: number;
+  lockedCount?: number;
+  isPartialRegeneration?: boolean;
+  cycleCount?: number;
+  changedAssignmentCount?: number;
+  bindingConstraints?: {
+    exclusions: number;
+    groups: number;
+    forcedPairs: number;
+    rules: number;
+    total: number;
+  };
+  repeatAvoidance?: { message: string | null };
 }
 
 export default function AdminPage() {
@@ -82,11 +206,19 @@ export default function AdminPage() {
 
   // Gmail connection status
   const [gmailConnected, setGmailConnected] = useState(false);
+  // Gmail status updates live; the other transports are checked when the event loads
+  const canSendEmail =
+    event?.emailTransport.kind === "GMAIL" ? gmailConnected : event?.emailTransport.problem === null;
+  // Participants with a phone but no email get a text message when SMS is set up
+  const canSendSms = event?.smsProblem === null;
 
   // Form state for adding participants
   const [newName, setNewName] = useState("");
   const [newPhone, setNewPhone] = useState("");
   const [newEmail, setNewEmail] = useState("");
+  const [newGroup, setNewGroup] = useState("");
+  const [newSide, setNewSide] = useState("");
+  const [newPool, setNewPool] = useState("");
 
   // Bulk import state
   const [bulkData, setBulkData] = useState("");
@@ -107,6 +239,11 @@ export default function AdminPage() {
   const [deleteConfirmText, setDeleteConfirmText] = useState("");
   const [deleteLoading, setDeleteLoading] = useState(false);
 
+  // Undo draw modal state
+  const [unlockModalOpen, setUnlockModalOpen] = useState(false);
+  const [unlockNotify, setUnlockNotify] = useState(true);
+  const [unlockLoading, setUnlockLoading] = useState(false);
+
   // Confirmation modal state (for remove participant, generate assignments, send emails)
   const [confirmModal, setConfirmModal] = useState<{
     open: boolean;
@@ -131,14 +268,35 @@ export default function AdminPage() {
   // Regeneration status state
   const [regenLoading, setRegenLoading] = useState(false);
 
+  // Constraint problems that would block generation (e.g. too many exclusions)
+  const [feasibilityProblems, setFeasibilityProblems] = useState<string[]>([]);
+  const [ruleAnalysis, setRuleAnalysis] = useState<RuleAnalysisView[]>([]);
+
   // Edit event details state
   const [isEditingEvent, setIsEditingEvent] = useState(false);
   const [editName, setEditName] = useState("");
   const [editDate, setEditDate] = useState("");
   const [editBudget, setEditBudget] = useState("");
   const [editRules, setEditRules] = useState("");
+  const [editTopology, setEditTopology] = useState<Topology>("SINGLE_CYCLE");
+  const [editGiftsPerParticipant, setEditGiftsPerParticipant] = useState("1");
+  const [editExchangeMode, setEditExchangeMode] = useState<ExchangeMode>("OPEN");
   const [editSaving, setEditSaving] = useState(false);
 
+  // Warn about impossible constraints before the admin clicks Generate
+  const fetchFeasibility = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/randomize`);
+      if (response.ok) {
+        const status: RegenerationStatus = await response.json();
+        setFeasibilityProblems(status.feasibilityProblems ?? []);
+        setRuleAnalysis(status.ruleAnalysis ?? []);
+      }
+    } catch {
+      // Silently fail - the check runs again when generating
+    }
+  }, [adminToken]);
+
   const fetchEvent = useCallback(async () => {
     try {
       const response = await fetch(`/api/admin/${adminToken}`);
@@ -147,12 +305,13 @@ export default function AdminPage() {
       }
       const data = await response.json();
       setEvent(data);
+      fetchFeasibility();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load event");
     } finally {
       setLoading(false);
     }
-  }, [adminToken]);
+  }, [adminToken, fetchFeasibility]);
 
   useEffect(() => {
     fetchEvent();
@@ -230,24 +389,37 @@ export default function AdminPage() {
 
     setActionLoading("add");
     try {
-      const response = await fetch(`/api/admin/${adminToken}/participants`, {
+      // After the draw a latecomer is spliced into the existing assignments instead
+      const url = event?.isLocked
+        ? `/api/admin/${adminToken}/participants/late`
+        : `/api/admin/${adminToken}/participants`;
+      const response = await fetch(url, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           name: newName.trim(),
           phone: newPhone.trim() || null,
           email: newEmail.trim() || null,
+          group: newGroup.trim() || null,
+          side: newSide.trim() || null,
+          poolId: newPool || null,
         }),
       });
 
+      const result = await response.json();
       if (!response.ok) {
-        const result = await response.json();
         throw new Error(result.error);
       }
 
       setNewName("");
       setNewPhone("");
       setNewEmail("");
+      setNewGroup("");
+      setNewSide("");
+      setNewPool("");
+      if (result.message) {
+        setSuccessMessage(result.message);
+      }
       fetchEvent();
     } catch (err) {
       alert(err instanceof Error ? err.message : "Failed to add participant");
@@ -284,6 +456,120 @@ export default function AdminPage() {
     }
   }
 
+  async function updateParticipantGroup(participant: Participant, groupName: string) {
+    const trimmedName = groupName.trim();
+    if (trimmedName === (participant.group?.name ?? "")) return;
+
+    setActionLoading(participant.id);
+    try {
+      const response = await fetch(
+        `/api/admin/${adminToken}/participants/${participant.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ group: trimmedName || null }),
+        }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
+
+      fetchEvent();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update household");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function updateParticipantSide(participant: Participant, side: string) {
+    const trimmedSide = side.trim();
+    if (trimmedSide === (participant.side ?? "")) return;
+
+    setActionLoading(participant.id);
+    try {
+      const response = await fetch(
+        `/api/admin/${adminToken}/participants/${participant.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ side: trimmedSide || null }),
+        }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
+
+      fetchEvent();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update side");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function updateParticipantPool(participant: Participant, poolId: string) {
+    setActionLoading(participant.id);
+    try {
+      const response = await fetch(
+        `/api/admin/${adminToken}/participants/${participant.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ poolId: poolId || null }),
+        }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
+
+      fetchEvent();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update pool");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function updateParticipantAttributes(participant: Participant, text: string) {
+    if (text.trim() === formatAttributes(participant.attributes)) return;
+
+    const attributes = parseAttributeText(text);
+    if (!attributes) {
+      alert('Write attributes as "name: value", separated by commas');
+      return;
+    }
+
+    setActionLoading(participant.id);
+    try {
+      const response = await fetch(
+        `/api/admin/${adminToken}/participants/${participant.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ attributes }),
+        }
+      );
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
+
+      fetchEvent();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update attributes");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
   function showConfirmModal(
     title: string,
     message: string | React.ReactNode,
@@ -357,6 +643,39 @@ export default function AdminPage() {
     );
   }
 
+  function confirmWithdrawParticipant(participantId: string, participantName: string) {
+    showConfirmModal(
+      "Withdraw Participant",
+      `Remove ${participantName} from the drawn exchange? Their giver is reconnected to their recipient where possible. Anyone whose recipient changes will need a fresh notification.`,
+      "Withdraw",
+      async () => {
+        setActionLoading(participantId);
+        try {
+          const response = await fetch(
+            `/api/admin/${adminToken}/participants/${participantId}/withdraw`,
+            { method: "POST" }
+          );
+
+          const result = await response.json();
+          if (!response.ok) {
+            throw new Error(result.error);
+          }
+
+          setSuccessMessage(result.message);
+          fetchEvent();
+        } catch (err) {
+          setSuccessMessage(null);
+          setTimeout(() => {
+            alert(err instanceof Error ? err.message : "Failed to withdraw participant");
+          }, 100);
+        } finally {
+          setActionLoading(null);
+        }
+      },
+      "destructive"
+    );
+  }
+
   async function confirmGenerateAssignments() {
     // First fetch the current regeneration status
     setRegenLoading(true);
@@ -374,6 +693,13 @@ export default function AdminPage() {
           (
             <div className="space-y-3">
               <p className="text-red-600 font-medium">{status.reason}</p>
+              {status.feasibilityProblems?.length > 0 && (
+                <ul className="text-sm text-red-700 list-disc list-inside">
+                  {status.feasibilityProblems.map(problem => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              )}
               {status.viewedCount > 0 && (
                 <div className="bg-red-50 p-3 rounded-md">
                   <p className="text-sm font-medium text-red-800 mb-2">
@@ -411,7 +737,7 @@ export default function AdminPage() {
               <p className="font-medium text-yellow-800 mb-2">⚠️ Important Warning</p>
               <ul className="text-sm text-yellow-700 space-y-2">
                 <li>• Once a participant <strong>views</strong> their assignment, they will be <strong>locked</strong> and cannot be reassigned.</li>
-                <li>• You can only regenerate assignments if at least <strong>3 participants</strong> haven&apos;t viewed theirs yet.</li>
+                <li>• You can only regenerate assignments while the participants who haven&apos;t viewed theirs can still be <strong>rearranged</strong> among themselves.</li>
                 <li>• If too many people view their assignments, you won&apos;t be able to make changes.</li>
               </ul>
             </div>
@@ -443,6 +769,12 @@ export default function AdminPage() {
                 {status.viewedCount} participant(s) have already viewed their assignments and will keep them.
                 Only the remaining {status.unviewedCount} participant(s) will be reassigned among themselves.
               </p>
+              {status.alternativeCount !== null && (
+                <p className="text-sm text-amber-700 mb-3">
+                  There {status.alternativeCount === 1 ? "is" : "are"} only {status.alternativeCount} other
+                  valid arrangement(s) for them, so the new assignments may be close to the current ones.
+                </p>
+              )}
 
               {status.viewedParticipants.length > 0 && (
                 <div className="mt-3">
@@ -488,15 +820,18 @@ export default function AdminPage() {
 
             if (!response.ok) {
               const result = await response.json();
+              if (result.feasibilityProblems?.length > 0) {
+                setFeasibilityProblems(result.feasibilityProblems);
+              }
               throw new Error(result.error);
             }
 
             const result = await response.json();
-            if (result.isPartialRegeneration) {
-              setSuccessMessage(result.message);
-            } else {
-              setSuccessMessage(`Assignments generated successfully for ${result.participantCount} participants!`);
-            }
+            const message = result.isPartialRegeneration
+              ? result.message
+              : `Assignments generated successfully for ${result.participantCount} participants!`;
+            const repeatNote = result.repeatAvoidance?.message;
+            setSuccessMessage(repeatNote ? `${message} ${repeatNote}` : message);
             fetchEvent();
           } catch (err) {
             setTimeout(() => {
@@ -516,10 +851,69 @@ export default function AdminPage() {
     }
   }
 
+  async function previewAssignments() {
+    setActionLoading("preview");
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/randomize?dryRun=true`, {
+        method: "POST",
+      });
+      const preview: DrawPreview & { error?: string } = await response.json();
+      if (!response.ok) {
+        throw new Error(preview.error || "Failed to preview assignments");
+      }
+
+      const binding = preview.bindingConstraints;
+      showConfirmModal(
+        "Preview Draw",
+        preview.feasible ? (
+          <div className="space-y-3 text-sm text-gray-700">
+            <p>A draw with the current settings would succeed. Nothing has been saved.</p>
+            <ul className="list-disc list-inside space-y-1">
+              <li>
+                {preview.isPartialRegeneration
+                  ? `${preview.regeneratedCount} participant(s) would be reassigned; ${preview.lockedCount} keep their assignment`
+                  : `${preview.regeneratedCount} participant(s) would be assigned`}
+              </li>
+              <li>{preview.changedAssignmentCount} assignment(s) would change</li>
+              <li>{preview.cycleCount} gift loop(s)</li>
+              {binding && (
+                <li>
+                  {binding.total} constraint(s) in effect: {binding.exclusions} exclusion(s),{" "}
+                  {binding.groups} household(s), {binding.forcedPairs} must-give-to pair(s),{" "}
+                  {binding.rules} rule(s)
+                </li>
+              )}
+            </ul>
+            {preview.repeatAvoidance?.message && <p>{preview.repeatAvoidance.message}</p>}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-red-600 font-medium">{preview.reason}</p>
+            {(preview.feasibilityProblems?.length ?? 0) > 0 && (
+              <ul className="text-sm text-red-700 list-disc list-inside">
+                {preview.feasibilityProblems!.map(problem => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ),
+        "OK",
+        async () => { }
+      );
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to preview assignments");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
   function confirmSendAllEmails() {
     showConfirmModal(
       "Send All Emails",
-      "This will send invitation emails to all participants who have an email address and haven't viewed their assignment yet.",
+      canSendSms
+        ? "This will send invitations to all participants who haven't viewed their assignment yet - by email, or by text message to those with only a phone number."
+        : "This will send invitation emails to all participants who have an email address and haven't viewed their assignment yet.",
       "Send Emails",
       async () => {
         setActionLoading("notify");
@@ -534,7 +928,8 @@ export default function AdminPage() {
           }
 
           const result = await response.json();
-          setSuccessMessage(`Sent ${result.sent} emails successfully.${result.failed > 0 ? ` ${result.failed} failed.` : ""}`);
+          const smsText = result.sentBySms > 0 ? ` and ${result.sentBySms} text messages` : "";
+          setSuccessMessage(`Sent ${result.sent - result.sentBySms} emails${smsText} successfully.${result.failed > 0 ? ` ${result.failed} failed.` : ""}`);
           fetchEvent();
         } catch (err) {
           setTimeout(() => {
@@ -547,7 +942,7 @@ export default function AdminPage() {
     );
   }
 
-  async function resendEmail(participantId: string) {
+  async function resendInvite(participantId: string) {
     setActionLoading(participantId);
     try {
       const response = await fetch(
@@ -555,15 +950,15 @@ export default function AdminPage() {
         { method: "POST" }
       );
 
+      const result = await response.json();
       if (!response.ok) {
-        const result = await response.json();
         throw new Error(result.error);
       }
 
-      alert("Email sent!");
+      alert(result.message);
       fetchEvent();
     } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to send email");
+      alert(err instanceof Error ? err.message : "Failed to send invite");
     } finally {
       setActionLoading(null);
     }
@@ -722,12 +1117,53 @@ ${url}`;
     }
   }
 
+  function openUnlockModal() {
+    setUnlockNotify(true);
+    setUnlockModalOpen(true);
+  }
+
+  async function unlockEvent() {
+    if (!event) return;
+
+    const invited = event.participants.filter(
+      p => p.notificationStatus === "SENT" && (p.email || p.phone)
+    );
+    // Email invites need a working email transport; SMS ones the server tells or lists
+    const canNotify = canSendEmail || !invited.some(p => p.email);
+
+    setUnlockLoading(true);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notify: invited.length > 0 && canNotify && unlockNotify }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to undo the draw");
+      }
+
+      setSuccessMessage(result.message);
+      setUnlockModalOpen(false);
+      fetchEvent();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to undo the draw");
+    } finally {
+      setUnlockLoading(false);
+    }
+  }
+
   function startEditingEvent() {
     if (!event) return;
     setEditName(event.name);
     setEditDate(event.eventDate || ""); // Already stored as YYYY-MM-DD string
     setEditBudget(event.budget || "");
     setEditRules(event.rules || "");
+    setEditTopology(event.topology);
+    setEditGiftsPerParticipant(String(event.giftsPerParticipant));
+    setEditExchangeMode(event.exchangeMode);
     setIsEditingEvent(true);
   }
 
@@ -755,6 +1191,9 @@ ${url}`;
           eventDate: editDate || null,
           budget: editBudget.trim() || null,
           rules: editRules.trim() || null,
+          topology: editTopology,
+          giftsPerParticipant: Number(editGiftsPerParticipant),
+          exchangeMode: editExchangeMode,
         }),
       });
 
@@ -773,6 +1212,53 @@ ${url}`;
     }
   }
 
+  function getChannelStatus(participant: Participant) {
+    const channels = [
+      { label: "Email", status: participant.emailStatus },
+      { label: "SMS", status: participant.smsStatus },
+    ].filter((c) => c.status !== null);
+    if (channels.length === 0) return null;
+
+    return (
+      <p className="text-xs text-gray-500 mt-1">
+        {channels.map((c, i) => (
+          <span key={c.label} className={c.status === "FAILED" ? "text-red-600" : undefined}>
+            {i > 0 && " · "}
+            {c.label} {c.status === "FAILED" ? "failed" : "sent"}
+          </span>
+        ))}
+      </p>
+    );
+  }
+
+  function getReminderHistory(participant: Participant) {
+    if (participant.reminders.length === 0) return null;
+
+    const sentCount = participant.reminders.filter((r) => r.status === "SENT").length;
+    const failedCount = participant.reminders.filter((r) => r.status === "FAILED").length;
+    const history = participant.reminders
+      .map((r) => {
+        const when = new Date(r.sentAt ?? r.createdAt).toLocaleString();
+        const channel = r.channel === "SMS" ? "SMS" : "Email";
+        return r.status === "FAILED"
+          ? `${when} - ${channel} failed: ${r.error ?? "unknown error"}`
+          : `${when} - ${channel} ${r.status === "SENT" ? "sent" : "sending"}`;
+      })
+      .join("\n");
+
+    return (
+      <p className="text-xs text-gray-500 mt-1" title={history}>
+        {sentCount > 0 ? `Reminded ${sentCount}×` : failedCount === 0 && "Reminder sending"}
+        {failedCount > 0 && (
+          <span className="text-red-600">
+            {sentCount > 0 && " · "}
+            {failedCount} reminder{failedCount === 1 ? "" : "s"} failed
+          </span>
+        )}
+      </p>
+    );
+  }
+
   function getStatusBadge(status: string) {
     switch (status) {
       case "VIEWED":
@@ -811,6 +1297,15 @@ ${url}`;
         <p className="text-gray-600">Admin Dashboard</p>
       </div>
 
+      {/* Lifecycle phase */}
+      <EventPhaseCard
+        adminToken={adminToken}
+        status={event.status}
+        nextStatuses={event.nextStatuses}
+        eventDate={event.eventDate}
+        onChange={fetchEvent}
+      />
+
       {/* Event Details */}
       <Card className="mb-6">
         <CardHeader className="flex flex-row items-center justify-between">
@@ -861,6 +1356,53 @@ ${url}`;
                   rows={5}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="editTopology">Draw Style</Label>
+                <select
+                  id="editTopology"
+                  value={editTopology}
+                  onChange={(e) => setEditTopology(e.target.value as Topology)}
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                >
+                  {(Object.keys(TOPOLOGY_LABELS) as Topology[]).map((topology) => (
+                    <option key={topology} value={topology}>
+                      {TOPOLOGY_LABELS[topology]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500">{TOPOLOGY_DESCRIPTIONS[editTopology]}</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="editExchangeMode">Exchange</Label>
+                <select
+                  id="editExchangeMode"
+                  value={editExchangeMode}
+                  onChange={(e) => setEditExchangeMode(e.target.value as ExchangeMode)}
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                >
+                  {(Object.keys(EXCHANGE_MODE_LABELS) as ExchangeMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {EXCHANGE_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500">{EXCHANGE_MODE_DESCRIPTIONS[editExchangeMode]}</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="editGiftsPerParticipant">Gifts Each</Label>
+                <Input
+                  id="editGiftsPerParticipant"
+                  type="number"
+                  min={1}
+                  max={5}
+                  value={editGiftsPerParticipant}
+                  onChange={(e) => setEditGiftsPerParticipant(e.target.value)}
+                  className="w-24"
+                />
+                <p className="text-xs text-gray-500">
+                  How many people each participant buys for - everyone also receives this many gifts
+                </p>
+              </div>
               <div className="flex gap-2 pt-2">
                 <Button onClick={saveEventDetails} disabled={editSaving}>
                   {editSaving ? "Saving..." : "Save Changes"}
@@ -876,6 +1418,13 @@ ${url}`;
                 <p><strong>Date:</strong> {new Date(event.eventDate + "T12:00:00").toLocaleDateString()}</p>
               )}
               {event.budget && <p><strong>Budget:</strong> {event.budget}</p>}
+              <p><strong>Draw Style:</strong> {TOPOLOGY_LABELS[event.topology]}</p>
+              {event.exchangeMode !== "OPEN" && (
+                <p><strong>Exchange:</strong> {EXCHANGE_MODE_LABELS[event.exchangeMode]}</p>
+              )}
+              {event.giftsPerParticipant > 1 && (
+                <p><strong>Gifts Each:</strong> {event.giftsPerParticipant}</p>
+              )}
               {event.rules && (
                 <div>
                   <strong>Rules:</strong>
@@ -890,6 +1439,27 @@ ${url}`;
                   <Badge variant="secondary">Pending Assignment</Badge>
                 )}
               </p>
+              {event.drawCommitment && (
+                <div>
+                  <strong>Draw Fingerprint:</strong>
+                  <p className="mt-1 font-mono text-xs break-all text-gray-600">
+                    {event.drawCommitment.commitment}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Recorded {new Date(event.drawCommitment.createdAt).toLocaleString()}. Participants see
+                    the same fingerprint, and after the event anyone can check the draw at{" "}
+                    <a
+                      href={`/api/verify/${event.drawCommitment.commitment}`}
+                      className="underline"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      the verification link
+                    </a>
+                    .
+                  </p>
+                </div>
+              )}
               {event.isLocked && (
                 <p className="text-sm text-gray-500 mt-2">
                   Event details cannot be edited after assignments are generated.
@@ -909,17 +1479,28 @@ ${url}`;
         </Card>
       )}
 
-      {/* Gmail Connection - Required for sending emails */}
-      <GmailConnectionCard
-        adminToken={adminToken}
-        onStatusChange={() => {
-          // Re-fetch Gmail status after connect/disconnect
-          fetch(`/api/admin/${adminToken}/gmail/status`)
-            .then((r) => r.json())
-            .then((data) => setGmailConnected(data.connected && !data.expired))
-            .catch(() => setGmailConnected(false));
-        }}
-      />
+      {/* How emails are sent - Gmail, SMTP or the local outbox */}
+      <EmailTransportCard adminToken={adminToken} onChange={fetchEvent} />
+
+      {/* Gmail Connection - Required for sending emails with Gmail */}
+      {event.emailTransport.kind === "GMAIL" && (
+        <GmailConnectionCard
+          adminToken={adminToken}
+          onStatusChange={() => {
+            // Re-fetch Gmail status after connect/disconnect
+            fetch(`/api/admin/${adminToken}/gmail/status`)
+              .then((r) => r.json())
+              .then((data) => setGmailConnected(data.connected && !data.expired))
+              .catch(() => setGmailConnected(false));
+          }}
+        />
+      )}
+
+      {/* Wording of the invite and admin-link emails */}
+      <EmailTemplatesCard adminToken={adminToken} />
+
+      {/* Automatic reminders for participants who haven't opened their link */}
+      <RemindersCard adminToken={adminToken} hasEventDate={!!event.eventDate} />
 
       {/* Admin Link Warning */}
       <Card className="mb-6 border-yellow-300 bg-yellow-50">
@@ -1000,86 +1581,131 @@ ${url}`;
 
       {/* Add Participants Section */}
       {!event.isLocked && (
-        <>
-          {/* Bulk Import */}
-          <Card className="mb-6">
-            <CardHeader>
-              <CardTitle>Bulk Import Participants</CardTitle>
-              <CardDescription>
-                Paste tab-separated data (Name, Phone, Email) - one person per line
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <form onSubmit={bulkImportParticipants} className="space-y-4">
-                <div>
-                  <Textarea
-                    value={bulkData}
-                    onChange={(e) => setBulkData(e.target.value)}
-                    placeholder={`Name\tPhone\tE-mail
-Katie Patterson\t412-585-0139\tkatie@example.com
-Patrick Patterson\t412-956-0423\tpatrick@example.com
-Bill Wolfe\t412-302-6347\t`}
-                    rows={6}
-                    className="font-mono text-sm"
-                  />
-                  <p className="text-xs text-gray-500 mt-2">
-                    Header row is optional. Phone and email columns are optional.
-                  </p>
-                </div>
-                <Button type="submit" disabled={bulkImportLoading || !bulkData.trim()}>
-                  {bulkImportLoading ? "Importing..." : "Import Participants"}
-                </Button>
-              </form>
-            </CardContent>
-          </Card>
-
-          {/* Add Single Participant */}
-          <Card className="mb-6">
-            <CardHeader>
-              <CardTitle>Add Participant</CardTitle>
-              <CardDescription>Add a single person to your gift exchange</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <form onSubmit={addParticipant} className="flex gap-4 flex-wrap">
+        /* Bulk Import */
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Bulk Import Participants</CardTitle>
+            <CardDescription>
+              Paste tab-separated data (Name, Phone, Email, Household, Side) - one person per line
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={bulkImportParticipants} className="space-y-4">
+              <div>
+                <Textarea
+                  value={bulkData}
+                  onChange={(e) => setBulkData(e.target.value)}
+                  placeholder={`Name\tPhone\tE-mail\tHousehold
+Katie Patterson\t412-585-0139\tkatie@example.com\tPattersons
+Patrick Patterson\t412-956-0423\tpatrick@example.com\tPattersons
+Bill Wolfe\t412-302-6347\t\t`}
+                  rows={6}
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  Header row is optional. Phone, email and household columns are optional.
+                  People in the same household never draw each other.
+                </p>
+              </div>
+              <Button type="submit" disabled={bulkImportLoading || !bulkData.trim()}>
+                {bulkImportLoading ? "Importing..." : "Import Participants"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add Single Participant - after the draw as a latecomer, except in a two-sides exchange */}
+      {!(event.isLocked && event.exchangeMode === "CROSS_SIDES") && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>{event.isLocked ? "Add Late Participant" : "Add Participant"}</CardTitle>
+            <CardDescription>
+              {event.isLocked
+                ? "Slots a latecomer into the existing draw. Nobody who already viewed is affected - one person who hasn't gets a new recipient and needs a fresh notification."
+                : "Add a single person to your gift exchange"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={addParticipant} className="flex gap-4 flex-wrap">
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="newName">Name *</Label>
+                <Input
+                  id="newName"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="John Doe"
+                  required
+                />
+              </div>
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="newPhone">Phone</Label>
+                <Input
+                  id="newPhone"
+                  type="tel"
+                  value={newPhone}
+                  onChange={(e) => setNewPhone(e.target.value)}
+                  placeholder="412-555-0123"
+                />
+              </div>
+              <div className="flex-1 min-w-[200px]">
+                <Label htmlFor="newEmail">Email</Label>
+                <Input
+                  id="newEmail"
+                  type="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  placeholder="john@example.com"
+                />
+              </div>
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="newGroup">Household</Label>
+                <Input
+                  id="newGroup"
+                  value={newGroup}
+                  onChange={(e) => setNewGroup(e.target.value)}
+                  placeholder="Does"
+                  list="household-options"
+                />
+              </div>
+              {event.pools.length > 0 && (
                 <div className="flex-1 min-w-[150px]">
-                  <Label htmlFor="newName">Name *</Label>
-                  <Input
-                    id="newName"
-                    value={newName}
-                    onChange={(e) => setNewName(e.target.value)}
-                    placeholder="John Doe"
-                    required
-                  />
+                  <Label htmlFor="newPool">Pool</Label>
+                  <select
+                    id="newPool"
+                    value={newPool}
+                    onChange={(e) => setNewPool(e.target.value)}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  >
+                    <option value="">Main draw</option>
+                    {event.pools.map((pool) => (
+                      <option key={pool.id} value={pool.id}>
+                        {pool.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
+              )}
+              {event.exchangeMode === "CROSS_SIDES" && (
                 <div className="flex-1 min-w-[150px]">
-                  <Label htmlFor="newPhone">Phone</Label>
-                  <Input
-                    id="newPhone"
-                    type="tel"
-                    value={newPhone}
-                    onChange={(e) => setNewPhone(e.target.value)}
-                    placeholder="412-555-0123"
-                  />
-                </div>
-                <div className="flex-1 min-w-[200px]">
-                  <Label htmlFor="newEmail">Email</Label>
+                  <Label htmlFor="newSide">Side</Label>
                   <Input
-                    id="newEmail"
-                    type="email"
-                    value={newEmail}
-                    onChange={(e) => setNewEmail(e.target.value)}
-                    placeholder="john@example.com"
+                    id="newSide"
+                    value={newSide}
+                    onChange={(e) => setNewSide(e.target.value)}
+                    placeholder="Engineering"
+                    list="side-options"
                   />
                 </div>
-                <div className="flex items-end">
-                  <Button type="submit" disabled={actionLoading === "add"}>
-                    {actionLoading === "add" ? "Adding..." : "Add"}
-                  </Button>
-                </div>
-              </form>
-            </CardContent>
-          </Card>
-        </>
+              )}
+              <div className="flex items-end">
+                <Button type="submit" disabled={actionLoading === "add"}>
+                  {actionLoading === "add" ? "Adding..." : "Add"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
       )}
 
       {/* Participants Table */}
@@ -1093,6 +1719,18 @@ Bill Wolfe\t412-302-6347\t`}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          <datalist id="household-options">
+            {event.groups.map((group) => (
+              <option key={group.id} value={group.name} />
+            ))}
+          </datalist>
+          <datalist id="side-options">
+            {[...new Set(event.participants.map((p) => p.side).filter((side) => side !== null))].map(
+              (side) => (
+                <option key={side} value={side} />
+              )
+            )}
+          </datalist>
           {event.participants.length === 0 ? (
             <p className="text-gray-500 text-center py-4">No participants yet</p>
           ) : (
@@ -1102,6 +1740,10 @@ Bill Wolfe\t412-302-6347\t`}
                   <TableHead>Name</TableHead>
                   <TableHead>Phone</TableHead>
                   <TableHead>Email</TableHead>
+                  <TableHead>Household</TableHead>
+                  {event.exchangeMode === "CROSS_SIDES" && <TableHead>Side</TableHead>}
+                  {event.pools.length > 0 && <TableHead>Pool</TableHead>}
+                  <TableHead>Attributes</TableHead>
                   <TableHead>Assigned</TableHead>
                   <TableHead>Notification</TableHead>
                   <TableHead>Actions</TableHead>
@@ -1113,6 +1755,86 @@ Bill Wolfe\t412-302-6347\t`}
                     <TableCell className="font-medium">{participant.name}</TableCell>
                     <TableCell>{participant.phone || "-"}</TableCell>
                     <TableCell>{participant.email || "-"}</TableCell>
+                    <TableCell>
+                      {event.isLocked ? (
+                        participant.group?.name || "-"
+                      ) : (
+                        <Input
+                          key={`${participant.id}-${participant.group?.id ?? "none"}`}
+                          defaultValue={participant.group?.name ?? ""}
+                          onBlur={(e) => updateParticipantGroup(participant, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") e.currentTarget.blur();
+                          }}
+                          disabled={actionLoading === participant.id}
+                          placeholder="-"
+                          list="household-options"
+                          className="h-8 w-32"
+                          aria-label={`Household for ${participant.name}`}
+                        />
+                      )}
+                    </TableCell>
+                    {event.exchangeMode === "CROSS_SIDES" && (
+                      <TableCell>
+                        {event.isLocked ? (
+                          participant.side || "-"
+                        ) : (
+                          <Input
+                            key={`${participant.id}-${participant.side ?? "none"}`}
+                            defaultValue={participant.side ?? ""}
+                            onBlur={(e) => updateParticipantSide(participant, e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") e.currentTarget.blur();
+                            }}
+                            disabled={actionLoading === participant.id}
+                            placeholder="-"
+                            list="side-options"
+                            className="h-8 w-32"
+                            aria-label={`Side for ${participant.name}`}
+                          />
+                        )}
+                      </TableCell>
+                    )}
+                    {event.pools.length > 0 && (
+                      <TableCell>
+                        {event.isLocked ? (
+                          participant.pool?.name || "Main draw"
+                        ) : (
+                          <select
+                            value={participant.pool?.id ?? ""}
+                            onChange={(e) => updateParticipantPool(participant, e.target.value)}
+                            disabled={actionLoading === participant.id}
+                            className="flex h-8 w-32 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                            aria-label={`Pool for ${participant.name}`}
+                          >
+                            <option value="">Main draw</option>
+                            {event.pools.map((pool) => (
+                              <option key={pool.id} value={pool.id}>
+                                {pool.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      {event.isLocked ? (
+                        formatAttributes(participant.attributes) || "-"
+                      ) : (
+                        <Input
+                          key={`${participant.id}-${formatAttributes(participant.attributes)}`}
+                          defaultValue={formatAttributes(participant.attributes)}
+                          onBlur={(e) => updateParticipantAttributes(participant, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") e.currentTarget.blur();
+                          }}
+                          disabled={actionLoading === participant.id}
+                          placeholder="office: Pittsburgh"
+                          className="h-8 w-48"
+                          aria-label={`Attributes for ${participant.name}`}
+                        />
+                      )}
+                    </TableCell>
                     <TableCell>
                       {participant.hasAssignment ? (
                         <Badge className="bg-green-500">Yes</Badge>
@@ -1120,7 +1842,11 @@ Bill Wolfe\t412-302-6347\t`}
                         <Badge variant="secondary">No</Badge>
                       )}
                     </TableCell>
-                    <TableCell>{getStatusBadge(participant.notificationStatus)}</TableCell>
+                    <TableCell>
+                      {getStatusBadge(participant.notificationStatus)}
+                      {getChannelStatus(participant)}
+                      {getReminderHistory(participant)}
+                    </TableCell>
                     <TableCell>
                       <div className="flex gap-1">
                         {/* Copy Link Button */}
@@ -1140,15 +1866,15 @@ Bill Wolfe\t412-302-6347\t`}
                         </Button>
 
                         {/* Send Email Button - only when locked and has email */}
-                        {event.isLocked && participant.email && (
+                        {canPerform(event.status, "NOTIFY") && participant.email && (
                           <Button
                             type="button"
                             variant="ghost"
                             size="icon"
-                            className={`h-8 w-8 ${!gmailConnected ? "opacity-50 cursor-not-allowed" : ""}`}
-                            onClick={() => gmailConnected && resendEmail(participant.id)}
-                            disabled={actionLoading === participant.id || !gmailConnected}
-                            title={gmailConnected ? "Send email" : "Connect Gmail to send emails"}
+                            className={`h-8 w-8 ${!canSendEmail ? "opacity-50 cursor-not-allowed" : ""}`}
+                            onClick={() => canSendEmail && resendInvite(participant.id)}
+                            disabled={actionLoading === participant.id || !canSendEmail}
+                            title={canSendEmail ? "Send email" : "Set up email sending to send emails"}
                           >
                             {actionLoading === participant.id ? (
                               <Loader2 className="h-4 w-4 animate-spin" />
@@ -1158,6 +1884,28 @@ Bill Wolfe\t412-302-6347\t`}
                           </Button>
                         )}
 
+                        {/* Send SMS Button - phone but no email, when SMS is set up */}
+                        {canPerform(event.status, "NOTIFY") &&
+                          !participant.email &&
+                          participant.phone &&
+                          canSendSms && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => resendInvite(participant.id)}
+                              disabled={actionLoading === participant.id}
+                              title="Send text message"
+                            >
+                              {actionLoading === participant.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Smartphone className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
+
                         {/* Copy iMessage Button - always show when locked */}
                         {event.isLocked && (
                           <Button
@@ -1176,16 +1924,20 @@ Bill Wolfe\t412-302-6347\t`}
                           </Button>
                         )}
 
-                        {/* Remove Button - only when not locked */}
-                        {!event.isLocked && (
+                        {/* Remove Button - withdraws and repairs the draw once locked */}
+                        {!(event.isLocked && event.exchangeMode === "CROSS_SIDES") && (
                           <Button
                             type="button"
                             variant="ghost"
                             size="icon"
                             className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
-                            onClick={() => confirmRemoveParticipant(participant.id, participant.name)}
+                            onClick={() =>
+                              event.isLocked
+                                ? confirmWithdrawParticipant(participant.id, participant.name)
+                                : confirmRemoveParticipant(participant.id, participant.name)
+                            }
                             disabled={actionLoading === participant.id}
-                            title="Remove participant"
+                            title={event.isLocked ? "Withdraw participant" : "Remove participant"}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -1200,11 +1952,75 @@ Bill Wolfe\t412-302-6347\t`}
         </CardContent>
       </Card>
 
+      {/* Pools drawn separately */}
+      <PoolsCard
+        adminToken={adminToken}
+        isLocked={event.isLocked}
+        onChange={fetchEvent}
+      />
+
+      {/* Exclusions */}
+      <ExclusionsCard
+        adminToken={adminToken}
+        participants={event.participants.map((p) => ({ id: p.id, name: p.name }))}
+        isLocked={event.isLocked}
+        onChange={fetchFeasibility}
+      />
+
+      {/* Must-give-to pairs */}
+      <ForcedPairsCard
+        adminToken={adminToken}
+        participants={event.participants.map((p) => ({ id: p.id, name: p.name }))}
+        isLocked={event.isLocked}
+        onChange={fetchFeasibility}
+      />
+
+      {/* Attribute matching rules */}
+      <RulesCard
+        adminToken={adminToken}
+        isLocked={event.isLocked}
+        attributeNames={[
+          ...new Set(event.participants.flatMap((p) => Object.keys(p.attributes))),
+        ]}
+        ruleAnalysis={ruleAnalysis}
+        onChange={fetchFeasibility}
+      />
+
+      {/* Linked prior events */}
+      <LinkedEventsCard
+        adminToken={adminToken}
+        isLocked={event.isLocked}
+        historyDepth={event.historyDepth}
+        onChange={fetchEvent}
+      />
+
+      {/* Timeline of draws, with rollback */}
+      <DrawHistoryCard
+        adminToken={adminToken}
+        drawCommitment={event.drawCommitment?.commitment ?? null}
+        onChange={fetchEvent}
+      />
+
+      {/* Re-validation of the saved assignments, with repair */}
+      {event.isLocked && <IntegrityCard adminToken={adminToken} onChange={fetchEvent} />}
+
       {/* Action Buttons */}
       <Card>
         <CardContent className="pt-6">
+          {feasibilityProblems.length > 0 && (
+            <div className="bg-red-50 border border-red-200 p-4 rounded-md mb-4">
+              <p className="font-medium text-red-800 mb-2">
+                Assignments can&apos;t be generated with the current exclusions, households and must-give-to pairs
+              </p>
+              <ul className="text-sm text-red-700 list-disc list-inside space-y-1">
+                {feasibilityProblems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="flex gap-4 flex-wrap">
-            {!event.isLocked ? (
+            {!canPerform(event.status, "DRAW") ? null : !event.isLocked ? (
               <Button
                 type="button"
                 onClick={confirmGenerateAssignments}
@@ -1215,13 +2031,6 @@ Bill Wolfe\t412-302-6347\t`}
               </Button>
             ) : (
               <>
-                <Button
-                  type="button"
-                  onClick={confirmSendAllEmails}
-                  disabled={actionLoading === "notify" || !gmailConnected}
-                >
-                  {actionLoading === "notify" ? "Sending..." : "Send All Emails"}
-                </Button>
                 <Button
                   type="button"
                   variant="outline"
@@ -1230,20 +2039,46 @@ Bill Wolfe\t412-302-6347\t`}
                 >
                   {regenLoading ? "Checking..." : actionLoading === "randomize" ? "Regenerating..." : "Regenerate Assignments"}
                 </Button>
+                {canPerform(event.status, "UNDO_DRAW") && event.participants.every(p => !p.viewedAt) && (
+                  <Button type="button" variant="outline" onClick={openUnlockModal}>
+                    Undo Draw
+                  </Button>
+                )}
               </>
             )}
+            {canPerform(event.status, "NOTIFY") && (
+              <Button
+                type="button"
+                onClick={confirmSendAllEmails}
+                disabled={actionLoading === "notify" || !(canSendEmail || canSendSms)}
+              >
+                {actionLoading === "notify" ? "Sending..." : "Send All Emails"}
+              </Button>
+            )}
+            {canPerform(event.status, "DRAW") && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={previewAssignments}
+                disabled={event.participants.length < 3 || actionLoading === "preview"}
+              >
+                {actionLoading === "preview" ? "Previewing..." : "Preview Draw"}
+              </Button>
+            )}
           </div>
           {!event.isLocked && event.participants.length < 3 && (
             <p className="text-sm text-gray-500 mt-2">
               Need at least 3 participants to generate assignments
             </p>
           )}
-          {event.isLocked && !gmailConnected && (
+          {canPerform(event.status, "NOTIFY") && !canSendEmail && (
             <p className="text-sm text-amber-600 mt-2">
-              Connect your Gmail account above to send invitation emails.
+              {event.emailTransport.kind === "GMAIL"
+                ? "Connect your Gmail account above to send invitation emails."
+                : event.emailTransport.problem}
             </p>
           )}
-          {event.isLocked && gmailConnected && (
+          {canPerform(event.status, "DRAW") && event.isLocked && canSendEmail && (
             <p className="text-sm text-gray-500 mt-2">
               You can regenerate assignments for participants who haven&apos;t viewed their assignment yet.
             </p>
@@ -1329,6 +2164,55 @@ Bill Wolfe\t412-302-6347\t`}
         </DialogContent>
       </Dialog>
 
+      {/* Undo Draw Modal */}
+      <Dialog open={unlockModalOpen} onOpenChange={(open) => !open && setUnlockModalOpen(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Undo Draw?</DialogTitle>
+            <DialogDescription>
+              Nobody has viewed their assignment yet, so the draw can be thrown away. The
+              assignments are cleared and you can edit the event and participants again.
+            </DialogDescription>
+          </DialogHeader>
+
+          {(() => {
+            const invited = event.participants.filter(
+              p => p.notificationStatus === "SENT" && (p.email || p.phone)
+            );
+            const invitedCount = invited.length;
+            if (invitedCount === 0) return null;
+            const canNotify = canSendEmail || !invited.some(p => p.email);
+            return (
+              <div className="bg-amber-50 border border-amber-200 p-4 rounded-md space-y-3">
+                <p className="text-sm text-amber-800">
+                  {invitedCount} participant(s) were already sent an invite. Their links will show
+                  no assignment until you draw again.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-amber-800">
+                  <input
+                    type="checkbox"
+                    checked={unlockNotify}
+                    onChange={(e) => setUnlockNotify(e.target.checked)}
+                    disabled={!canNotify}
+                  />
+                  Tell them that the draw is being redone (by email, or text message without one)
+                  {!canNotify && " (set up email sending first)"}
+                </label>
+              </div>
+            );
+          })()}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUnlockModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={unlockEvent} disabled={unlockLoading}>
+              {unlockLoading ? "Undoing..." : "Undo Draw"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Confirmation Modal (for actions like remove, generate, send) */}
       <Dialog open={confirmModal.open} onOpenChange={(open) => !open && closeConfirmModal()}>
         <DialogContent className="max-w-lg">
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import {
-  sendAdminLinkEmailViaGmail,
-  GmailNotConnectedError,
-  GmailTokenRevokedError,
-} from "@/lib/gmail-send";
+import { sendAdminLinkEmail } from "@/lib/email";
+import { loadEmailTemplate } from "@/lib/email-templates";
+import { createEmailTransport, emailTransportProblem } from "@/lib/email-transport";
+import { GmailNotConnectedError, GmailTokenRevokedError } from "@/lib/gmail-send";
 import { logError } from "@/lib/logger";
 
 interface RouteParams {
@@ -37,22 +36,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    // Check if Gmail is connected
-    if (!event.gmailCredential || event.gmailCredential.revokedAt) {
-      return NextResponse.json(
-        {
-          error:
-            "Gmail is not connected. Please connect your Gmail account to send emails.",
-        },
-        { status: 400 }
-      );
+    // Check that the event's email transport can send
+    const transportProblem = emailTransportProblem(event);
+    if (transportProblem) {
+      return NextResponse.json({ error: transportProblem }, { status: 400 });
     }
+    const transport = createEmailTransport(event);
 
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const adminLink = `${appUrl}/admin/${adminToken}`;
 
-    const result = await sendAdminLinkEmailViaGmail(
-      event.id,
+    const result = await sendAdminLinkEmail(
+      transport,
+      await loadEmailTemplate(prisma, event.id, "ADMIN_LINK"),
       email.trim(),
       event.name,
       adminLink
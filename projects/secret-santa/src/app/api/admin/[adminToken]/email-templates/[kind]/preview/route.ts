@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  formatEventDate,
+  isEmailTemplateKind,
+  loadEmailTemplate,
+  parseEmailTemplate,
+  renderEmailTemplate,
+  validateEmailTemplate,
+  type TemplateValues,
+} from "@/lib/email-templates";
+import { logError } from "@/lib/logger";
+import { participantBudget } from "@/lib/pools";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; kind: string }>;
+}
+
+// Stands in for a participant's link, which the preview must not expose
+const SAMPLE_ACCESS_TOKEN = "sample-participant";
+
+/**
+ * POST /api/admin/[adminToken]/email-templates/[kind]/preview
+ * Renders an email for a sample participant without sending it
+ * Body: { subject, heading, body } to preview unsaved changes, or empty for the saved template
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, kind } = await params;
+
+    if (!isEmailTemplateKind(kind)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      select: {
+        id: true,
+        name: true,
+        budget: true,
+        eventDate: true,
+        // The first participant lends the preview a real name
+        participants: {
+          select: { name: true, pool: { select: { budget: true } } },
+          orderBy: { createdAt: "asc" },
+          take: 1,
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    let template = await loadEmailTemplate(prisma, event.id, kind);
+    if (body !== null && Object.keys(body).length > 0) {
+      const draft = parseEmailTemplate(body);
+      if (!draft) {
+        return NextResponse.json(
+          { error: "Subject, heading and body are required" },
+          { status: 400 }
+        );
+      }
+      const invalid = validateEmailTemplate(kind, draft);
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+      template = draft;
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const values: TemplateValues =
+      kind === "INVITE"
+        ? {
+            name: event.participants[0]?.name ?? "Alex",
+            eventName: event.name,
+            revealLink: `${appUrl}/reveal/${SAMPLE_ACCESS_TOKEN}`,
+            eventDate: formatEventDate(event.eventDate) ?? "",
+            budget: participantBudget(event.participants[0]?.pool ?? null, event.budget) ?? "",
+          }
+        : {
+            eventName: event.name,
+            adminLink: `${appUrl}/admin/${adminToken}`,
+          };
+
+    return NextResponse.json(renderEmailTemplate(kind, template, values));
+  } catch (error) {
+    logError("Failed to preview email template", error, {
+      endpoint: "POST /api/admin/[adminToken]/email-templates/[kind]/preview",
+    });
+    return NextResponse.json(
+      { error: "Failed to preview email" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  isEmailTemplateKind,
+  parseEmailTemplate,
+  validateEmailTemplate,
+} from "@/lib/email-templates";
+import { logError, logInfo } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; kind: string }>;
+}
+
+/**
+ * PUT /api/admin/[adminToken]/email-templates/[kind]
+ * Saves the organizer's wording of an email - allowed in any phase, since invites go out
+ * after the draw
+ * Body: { subject, heading, body }
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, kind } = await params;
+
+    if (!isEmailTemplateKind(kind)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const template = parseEmailTemplate(await request.json());
+    if (!template) {
+      return NextResponse.json(
+        { error: "Subject, heading and body are required" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validateEmailTemplate(kind, template);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      select: { id: true },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const saved = await prisma.emailTemplate.upsert({
+      where: { eventId_kind: { eventId: event.id, kind } },
+      create: { eventId: event.id, kind, ...template },
+      update: template,
+      select: { subject: true, heading: true, body: true },
+    });
+
+    logInfo("Email template saved", { eventId: event.id, kind });
+
+    return NextResponse.json({ kind, ...saved, isDefault: false });
+  } catch (error) {
+    logError("Failed to save email template", error, {
+      endpoint: "PUT /api/admin/[adminToken]/email-templates/[kind]",
+    });
+    return NextResponse.json(
+      { error: "Failed to save email template" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/[adminToken]/email-templates/[kind]
+ * Goes back to the default wording
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, kind } = await params;
+
+    if (!isEmailTemplateKind(kind)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      select: { id: true },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    await prisma.emailTemplate.deleteMany({
+      where: { eventId: event.id, kind },
+    });
+
+    return NextResponse.json({ kind, ...DEFAULT_EMAIL_TEMPLATES[kind], isDefault: true });
+  } catch (error) {
+    logError("Failed to reset email template", error, {
+      endpoint: "DELETE /api/admin/[adminToken]/email-templates/[kind]",
+    });
+    return NextResponse.json(
+      { error: "Failed to reset email template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_KINDS,
+  TEMPLATE_PLACEHOLDERS,
+} from "@/lib/email-templates";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/email-templates
+ * The event's editable emails - the organizer's wording, or the default - with the
+ * placeholders each one accepts
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      select: {
+        emailTemplates: { select: { kind: true, subject: true, heading: true, body: true } },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const templates = EMAIL_TEMPLATE_KINDS.map((kind) => {
+      const stored = event.emailTemplates.find((t) => t.kind === kind);
+      const { subject, heading, body } = stored ?? DEFAULT_EMAIL_TEMPLATES[kind];
+      return {
+        kind,
+        subject,
+        heading,
+        body,
+        isDefault: !stored,
+        placeholders: TEMPLATE_PLACEHOLDERS[kind],
+      };
+    });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    logError("Failed to get email templates", error, {
+      endpoint: "GET /api/admin/[adminToken]/email-templates",
+    });
+    return NextResponse.json(
+      { error: "Failed to get email templates" },
+      { status: 500 }
+    );
+  }
+}
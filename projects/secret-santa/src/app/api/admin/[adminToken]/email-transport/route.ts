@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  defaultEmailTransportKind,
+  emailTransportProblem,
+  isEmailTransportKind,
+  resolveEmailTransportKind,
+} from "@/lib/email-transport";
+import { logError, logInfo } from "@/lib/logger";
+import { readSmtpConfig } from "@/lib/smtp";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+function describeTransport(event: {
+  emailTransport: string | null;
+  gmailCredential: { revokedAt: Date | null } | null;
+}) {
+  return {
+    kind: resolveEmailTransportKind(event),
+    isDefault: event.emailTransport === null,
+    defaultKind: defaultEmailTransportKind(),
+    smtpConfigured: readSmtpConfig() !== null,
+    problem: emailTransportProblem(event),
+  };
+}
+
+/**
+ * GET /api/admin/[adminToken]/email-transport
+ * How this event's emails are sent, and whether that works right now
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      select: {
+        emailTransport: true,
+        gmailCredential: { select: { revokedAt: true } },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(describeTransport(event));
+  } catch (error) {
+    logError("Failed to get email transport", error, {
+      endpoint: "GET /api/admin/[adminToken]/email-transport",
+    });
+    return NextResponse.json(
+      { error: "Failed to get email settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/[adminToken]/email-transport
+ * Chooses how this event's emails are sent - allowed in any phase, since invites go out
+ * after the draw
+ * Body: { kind: "GMAIL" | "SMTP" | "OUTBOX" | null } - null uses the deployment's default
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { kind } = body;
+
+    if (kind !== null && !isEmailTransportKind(kind)) {
+      return NextResponse.json(
+        { error: "Email transport must be GMAIL, SMTP, OUTBOX or null" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.event.findUnique({
+      where: { adminToken },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const event = await prisma.event.update({
+      where: { id: existing.id },
+      data: { emailTransport: kind },
+      select: {
+        emailTransport: true,
+        gmailCredential: { select: { revokedAt: true } },
+      },
+    });
+
+    logInfo("Email transport changed", { eventId: existing.id, kind });
+
+    return NextResponse.json(describeTransport(event));
+  } catch (error) {
+    logError("Failed to change email transport", error, {
+      endpoint: "PUT /api/admin/[adminToken]/email-transport",
+    });
+    return NextResponse.json(
+      { error: "Failed to change email settings" },
+      { status: 500 }
+    );
+  }
+}
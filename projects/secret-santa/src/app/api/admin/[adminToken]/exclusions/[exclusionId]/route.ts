@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; exclusionId: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, exclusionId } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change exclusions - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const exclusion = await prisma.exclusion.findFirst({
+      where: {
+        id: exclusionId,
+        eventId: event.id,
+      },
+    });
+
+    if (!exclusion) {
+      return NextResponse.json(
+        { error: "Exclusion not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.exclusion.delete({
+      where: { id: exclusionId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError("Error removing exclusion", error, {
+      endpoint: "DELETE /api/admin/[adminToken]/exclusions/[exclusionId]",
+    });
+    return NextResponse.json(
+      { error: "Failed to remove exclusion" },
+      { status: 500 }
+    );
+  }
+}
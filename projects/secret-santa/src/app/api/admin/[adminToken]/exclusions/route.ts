@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/exclusions
+ * Lists the exclusion pairs for an event
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        exclusions: {
+          include: {
+            participant1: { select: { id: true, name: true } },
+            participant2: { select: { id: true, name: true } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      exclusions: event.exclusions.map((exclusion) => ({
+        id: exclusion.id,
+        participant1: exclusion.participant1,
+        participant2: exclusion.participant2,
+        createdAt: exclusion.createdAt,
+      })),
+    });
+  } catch (error) {
+    logError("Error fetching exclusions", error, {
+      endpoint: "GET /api/admin/[adminToken]/exclusions",
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch exclusions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/[adminToken]/exclusions
+ * Adds a pair of participants who must not draw each other
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { participant1Id, participant2Id } = body;
+
+    if (
+      !participant1Id ||
+      !participant2Id ||
+      typeof participant1Id !== "string" ||
+      typeof participant2Id !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "Two participants are required" },
+        { status: 400 }
+      );
+    }
+
+    if (participant1Id === participant2Id) {
+      return NextResponse.json(
+        { error: "An exclusion needs two different participants" },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change exclusions - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const participants = await prisma.participant.findMany({
+      where: {
+        id: { in: [participant1Id, participant2Id] },
+        eventId: event.id,
+      },
+      select: { id: true, name: true },
+    });
+
+    if (participants.length !== 2) {
+      return NextResponse.json(
+        { error: "Participant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Store the pair sorted so A↔B and B↔A map to the same row
+    const [firstId, secondId] = [participant1Id, participant2Id].sort();
+
+    const existing = await prisma.exclusion.findUnique({
+      where: {
+        participant1Id_participant2Id: {
+          participant1Id: firstId!,
+          participant2Id: secondId!,
+        },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "These participants are already excluded from drawing each other" },
+        { status: 400 }
+      );
+    }
+
+    const exclusion = await prisma.exclusion.create({
+      data: {
+        eventId: event.id,
+        participant1Id: firstId!,
+        participant2Id: secondId!,
+      },
+    });
+
+    return NextResponse.json({
+      id: exclusion.id,
+      participant1: participants.find((p) => p.id === firstId),
+      participant2: participants.find((p) => p.id === secondId),
+      createdAt: exclusion.createdAt,
+    });
+  } catch (error) {
+    logError("Error adding exclusion", error, {
+      endpoint: "POST /api/admin/[adminToken]/exclusions",
+    });
+    return NextResponse.json(
+      { error: "Failed to add exclusion" },
+      { status: 500 }
+    );
+  }
+}
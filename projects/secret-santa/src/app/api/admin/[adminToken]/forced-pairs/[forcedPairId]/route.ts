@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; forcedPairId: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, forcedPairId } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change must-give-to pairs - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const forcedPair = await prisma.forcedPair.findFirst({
+      where: {
+        id: forcedPairId,
+        eventId: event.id,
+      },
+    });
+
+    if (!forcedPair) {
+      return NextResponse.json(
+        { error: "Forced pair not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.forcedPair.delete({
+      where: { id: forcedPairId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError("Error removing forced pair", error, {
+      endpoint: "DELETE /api/admin/[adminToken]/forced-pairs/[forcedPairId]",
+    });
+    return NextResponse.json(
+      { error: "Failed to remove forced pair" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/forced-pairs
+ * Lists the "must give to" pairs for an event
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        forcedPairs: {
+          include: {
+            giver: { select: { id: true, name: true } },
+            receiver: { select: { id: true, name: true } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      forcedPairs: event.forcedPairs.map((forcedPair) => ({
+        id: forcedPair.id,
+        giver: forcedPair.giver,
+        receiver: forcedPair.receiver,
+        createdAt: forcedPair.createdAt,
+      })),
+    });
+  } catch (error) {
+    logError("Error fetching forced pairs", error, {
+      endpoint: "GET /api/admin/[adminToken]/forced-pairs",
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch forced pairs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/[adminToken]/forced-pairs
+ * Adds a giver who must draw a specific receiver
+ *
+ * Conflicts that only show up in combination (such as pairs closing a loop the
+ * draw style forbids) are reported when the draw is checked - see findForcedPairProblems
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { giverId, receiverId } = body;
+
+    if (
+      !giverId ||
+      !receiverId ||
+      typeof giverId !== "string" ||
+      typeof receiverId !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "A giver and a receiver are required" },
+        { status: 400 }
+      );
+    }
+
+    if (giverId === receiverId) {
+      return NextResponse.json(
+        { error: "A participant can't be set to give to themselves" },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change must-give-to pairs - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const participants = await prisma.participant.findMany({
+      where: {
+        id: { in: [giverId, receiverId] },
+        eventId: event.id,
+      },
+      select: {
+        id: true,
+        name: true,
+        groupId: true,
+        poolId: true,
+        side: true,
+        forcedAsGiver: { select: { id: true } },
+        forcedAsReceiver: { select: { id: true } },
+      },
+    });
+
+    const giver = participants.find((p) => p.id === giverId);
+    const receiver = participants.find((p) => p.id === receiverId);
+
+    if (!giver || !receiver) {
+      return NextResponse.json(
+        { error: "Participant not found" },
+        { status: 404 }
+      );
+    }
+
+    if (giver.forcedAsGiver) {
+      return NextResponse.json(
+        { error: `${giver.name} already has a must-give-to pair` },
+        { status: 400 }
+      );
+    }
+
+    if (receiver.forcedAsReceiver) {
+      return NextResponse.json(
+        { error: `Someone is already set to give to ${receiver.name}` },
+        { status: 400 }
+      );
+    }
+
+    if (giver.groupId !== null && giver.groupId === receiver.groupId) {
+      return NextResponse.json(
+        { error: `${giver.name} and ${receiver.name} are in the same household` },
+        { status: 400 }
+      );
+    }
+
+    if (giver.poolId !== receiver.poolId) {
+      return NextResponse.json(
+        { error: `${giver.name} and ${receiver.name} are in different pools` },
+        { status: 400 }
+      );
+    }
+
+    if (event.exchangeMode === "CROSS_SIDES" && giver.side !== null && giver.side === receiver.side) {
+      return NextResponse.json(
+        { error: `${giver.name} and ${receiver.name} are on the same side` },
+        { status: 400 }
+      );
+    }
+
+    // Exclusions are stored sorted, see the exclusions route
+    const [firstId, secondId] = [giverId, receiverId].sort();
+    const exclusion = await prisma.exclusion.findUnique({
+      where: {
+        participant1Id_participant2Id: {
+          participant1Id: firstId!,
+          participant2Id: secondId!,
+        },
+      },
+    });
+
+    if (exclusion) {
+      return NextResponse.json(
+        { error: `${giver.name} and ${receiver.name} are excluded from drawing each other` },
+        { status: 400 }
+      );
+    }
+
+    const forcedPair = await prisma.forcedPair.create({
+      data: {
+        eventId: event.id,
+        giverId,
+        receiverId,
+      },
+    });
+
+    return NextResponse.json({
+      id: forcedPair.id,
+      giver: { id: giver.id, name: giver.name },
+      receiver: { id: receiver.id, name: receiver.name },
+      createdAt: forcedPair.createdAt,
+    });
+  } catch (error) {
+    logError("Error adding forced pair", error, {
+      endpoint: "POST /api/admin/[adminToken]/forced-pairs",
+    });
+    return NextResponse.json(
+      { error: "Failed to add forced pair" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  analyzeIntegrityRepair,
+  buildIntegrityDraws,
+  checkAssignmentIntegrity,
+  repairAssignments,
+} from "@/lib/assignment-integrity";
+import { recordAssignmentVersion } from "@/lib/assignment-versions";
+import { AssignmentImpossibleError } from "@/lib/derangement";
+import { recordDrawCommitment } from "@/lib/draw-commitment";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError, logInfo } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * POST /api/admin/[adminToken]/integrity/repair
+ * Fixes broken stored assignments by redrawing only the participants whose assignment is
+ * broken (see checkAssignmentIntegrity); everyone else keeps theirs. Refused when one of
+ * them already viewed their assignment.
+ * Returns who needs a fresh notification because their recipient changed.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    // Read and write in one serializable transaction, so nobody can view an assignment the
+    // repair changes, and no concurrent draw can replace the assignments, in between
+    const outcome = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { adminToken },
+          include: {
+            participants: {
+              select: {
+                id: true,
+                name: true,
+                viewedAt: true,
+                groupId: true,
+                poolId: true,
+                side: true,
+                attributes: true,
+              },
+            },
+            pools: {
+              select: {
+                id: true,
+                name: true,
+                budget: true,
+              },
+              orderBy: { createdAt: "asc" },
+            },
+            exclusions: {
+              select: {
+                participant1Id: true,
+                participant2Id: true,
+              },
+            },
+            forcedPairs: {
+              select: {
+                giverId: true,
+                receiverId: true,
+              },
+            },
+            matchingRules: {
+              select: {
+                attribute: true,
+                relation: true,
+              },
+              orderBy: { createdAt: "asc" },
+            },
+            assignments: {
+              select: {
+                giverId: true,
+                receiverId: true,
+                round: true,
+              },
+            },
+          },
+        });
+
+        if (!event) {
+          return NextResponse.json({ error: "Event not found" }, { status: 404 });
+        }
+
+        const blocked = actionBlockedReason(event.status, "CHANGE_DRAW");
+        if (blocked) {
+          return NextResponse.json(
+            { error: `Cannot repair the assignments - ${blocked}` },
+            { status: 400 }
+          );
+        }
+
+        const draws = buildIntegrityDraws(event);
+        const viewedIds = new Set(
+          event.participants.filter(p => p.viewedAt !== null).map(p => p.id)
+        );
+        const report = checkAssignmentIntegrity(
+          draws,
+          event.assignments,
+          event.giftsPerParticipant,
+          viewedIds
+        );
+
+        const analysis = analyzeIntegrityRepair(report, viewedIds);
+        if (!analysis.canRepair) {
+          return NextResponse.json(
+            { error: analysis.reason || "Cannot repair the assignments" },
+            { status: 400 }
+          );
+        }
+
+        const affectedIds = report.affectedGiverIds;
+        let repaired;
+        try {
+          repaired = repairAssignments(
+            draws,
+            event.assignments,
+            event.giftsPerParticipant,
+            affectedIds
+          );
+        } catch (repairError) {
+          if (repairError instanceof AssignmentImpossibleError) {
+            return NextResponse.json(
+              {
+                error:
+                  "The broken assignments can't be redrawn on their own without breaking a rule. " +
+                  "Regenerate the assignments instead.",
+              },
+              { status: 400 }
+            );
+          }
+          throw repairError;
+        }
+
+        const participantIds = event.participants.map(p => p.id);
+        await tx.assignment.deleteMany({
+          where: {
+            eventId: event.id,
+            OR: [{ giverId: { in: affectedIds } }, { giverId: { notIn: participantIds } }],
+          },
+        });
+        await tx.assignment.createMany({
+          data: repaired.map(assignment => ({ ...assignment, eventId: event.id })),
+        });
+        await tx.participant.updateMany({
+          where: { id: { in: affectedIds } },
+          data: {
+            notificationStatus: "NOT_SENT",
+            notifiedAt: null,
+          },
+        });
+        await recordDrawCommitment(tx, event.id);
+        await recordAssignmentVersion(tx, event.id, {
+          kind: "REPAIR",
+          lockedParticipantIds: [...viewedIds],
+        });
+
+        return { event, report };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+    if (outcome instanceof NextResponse) {
+      return outcome;
+    }
+    const { event, report } = outcome;
+    const affectedIds = report.affectedGiverIds;
+
+    const names = new Map(event.participants.map(p => [p.id, p.name]));
+    const renotify = affectedIds.map(id => ({ id, name: names.get(id) ?? "" }));
+
+    logInfo("Assignments repaired", {
+      eventId: event.id,
+      problems: report.problems,
+      repairedCount: affectedIds.length,
+      strayCount: report.strayCount,
+    });
+
+    return NextResponse.json({
+      success: true,
+      repairedCount: affectedIds.length,
+      renotify,
+      message:
+        renotify.length > 0
+          ? `Redrew ${renotify.length} assignment(s). Send ${renotify.map(p => p.name).join(", ")} ` +
+            "a fresh notification - their recipient changed."
+          : `Removed ${report.strayCount} assignment(s) that belonged to nobody in the event.`,
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034") {
+      return NextResponse.json(
+        { error: "Someone viewed an assignment or the draw changed during the repair. Please try again." },
+        { status: 400 }
+      );
+    }
+    logError("Error repairing assignments", error, {
+      endpoint: "POST /api/admin/[adminToken]/integrity/repair",
+    });
+    return NextResponse.json(
+      { error: "Failed to repair assignments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  analyzeIntegrityRepair,
+  buildIntegrityDraws,
+  checkAssignmentIntegrity,
+  describeIntegrityProblem,
+} from "@/lib/assignment-integrity";
+import { actionBlockedReason, isEventLocked } from "@/lib/event-lifecycle";
+import { logError, logWarn } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/integrity
+ * Re-validates the stored assignments against the participants, pools, constraints and
+ * draw style, and says whether the problems can be repaired
+ * Counts only - neither the problems nor the repair status name who drew whom
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        participants: {
+          select: {
+            id: true,
+            viewedAt: true,
+            groupId: true,
+            poolId: true,
+            side: true,
+            attributes: true,
+          },
+        },
+        pools: {
+          select: {
+            id: true,
+            name: true,
+            budget: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        exclusions: {
+          select: {
+            participant1Id: true,
+            participant2Id: true,
+          },
+        },
+        forcedPairs: {
+          select: {
+            giverId: true,
+            receiverId: true,
+          },
+        },
+        matchingRules: {
+          select: {
+            attribute: true,
+            relation: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        assignments: {
+          select: {
+            giverId: true,
+            receiverId: true,
+            round: true,
+          },
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    if (!isEventLocked(event.status)) {
+      return NextResponse.json({
+        hasAssignments: false,
+        valid: true,
+        assignmentCount: 0,
+        problems: [],
+        affectedCount: 0,
+        repair: { canRepair: false, reason: "Assignments haven't been generated yet" },
+      });
+    }
+
+    const draws = buildIntegrityDraws(event);
+    const viewedIds = new Set(event.participants.filter(p => p.viewedAt !== null).map(p => p.id));
+    const report = checkAssignmentIntegrity(
+      draws,
+      event.assignments,
+      event.giftsPerParticipant,
+      viewedIds
+    );
+
+    const blocked = actionBlockedReason(event.status, "CHANGE_DRAW");
+    const repair = analyzeIntegrityRepair(report, viewedIds);
+
+    if (!report.valid) {
+      logWarn("Assignment integrity problems found", {
+        eventId: event.id,
+        problems: report.problems,
+        affectedCount: report.affectedGiverIds.length,
+      });
+    }
+
+    return NextResponse.json({
+      hasAssignments: true,
+      valid: report.valid,
+      assignmentCount: event.assignments.length,
+      problems: report.problems.map(problem => ({
+        ...problem,
+        message: describeIntegrityProblem(problem, draws.length, event.giftsPerParticipant),
+      })),
+      affectedCount: report.affectedGiverIds.length,
+      repair:
+        blocked && !report.valid
+          ? { canRepair: false, reason: `Cannot repair the assignments - ${blocked}` }
+          : repair,
+    });
+  } catch (error) {
+    logError("Error checking assignment integrity", error, {
+      endpoint: "GET /api/admin/[adminToken]/integrity",
+    });
+    return NextResponse.json(
+      { error: "Failed to check assignments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; linkId: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, linkId } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot unlink events - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const link = await prisma.eventLink.findFirst({
+      where: {
+        id: linkId,
+        eventId: event.id,
+      },
+    });
+
+    if (!link) {
+      return NextResponse.json(
+        { error: "Linked event not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.eventLink.delete({
+      where: { id: linkId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError("Error unlinking event", error, {
+      endpoint: "DELETE /api/admin/[adminToken]/linked-events/[linkId]",
+    });
+    return NextResponse.json(
+      { error: "Failed to unlink event" },
+      { status: 500 }
+    );
+  }
+}
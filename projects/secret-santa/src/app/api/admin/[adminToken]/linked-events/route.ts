@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { countMatchedParticipants, extractAdminToken } from "@/lib/event-history";
+import { actionBlockedReason, isEventLocked } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/linked-events
+ * Lists the prior events whose pairings this event avoids repeating
+ * Only names, dates and counts are returned - never the prior pairings
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        participants: { select: { email: true } },
+        priorEventLinks: {
+          include: {
+            priorEvent: {
+              select: {
+                name: true,
+                eventDate: true,
+                status: true,
+                participants: { select: { email: true } },
+              },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      historyDepth: event.historyDepth,
+      linkedEvents: event.priorEventLinks.map((link) => ({
+        id: link.id,
+        name: link.priorEvent.name,
+        eventDate: link.priorEvent.eventDate,
+        isLocked: isEventLocked(link.priorEvent.status),
+        matchedParticipantCount: countMatchedParticipants(
+          event.participants,
+          link.priorEvent.participants
+        ),
+        createdAt: link.createdAt,
+      })),
+    });
+  } catch (error) {
+    logError("Error fetching linked events", error, {
+      endpoint: "GET /api/admin/[adminToken]/linked-events",
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch linked events" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/[adminToken]/linked-events
+ * Links a prior event, identified by its admin link or admin token
+ * Requiring the prior admin link proves the admin also ran that event
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { priorAdminLink } = body;
+
+    const priorAdminToken =
+      typeof priorAdminLink === "string" ? extractAdminToken(priorAdminLink) : null;
+
+    if (!priorAdminToken) {
+      return NextResponse.json(
+        { error: "Paste the admin link of the previous event" },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot link events - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const priorEvent = await prisma.event.findUnique({
+      where: { adminToken: priorAdminToken },
+    });
+
+    if (!priorEvent) {
+      return NextResponse.json(
+        { error: "No event found for that admin link" },
+        { status: 404 }
+      );
+    }
+
+    if (priorEvent.id === event.id) {
+      return NextResponse.json(
+        { error: "An event cannot be linked to itself" },
+        { status: 400 }
+      );
+    }
+
+    if (!isEventLocked(priorEvent.status)) {
+      return NextResponse.json(
+        { error: "That event has not generated assignments yet" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.eventLink.findUnique({
+      where: {
+        eventId_priorEventId: {
+          eventId: event.id,
+          priorEventId: priorEvent.id,
+        },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "That event is already linked" },
+        { status: 400 }
+      );
+    }
+
+    const link = await prisma.eventLink.create({
+      data: {
+        eventId: event.id,
+        priorEventId: priorEvent.id,
+      },
+    });
+
+    return NextResponse.json({
+      id: link.id,
+      name: priorEvent.name,
+      eventDate: priorEvent.eventDate,
+      createdAt: link.createdAt,
+    });
+  } catch (error) {
+    logError("Error linking event", error, {
+      endpoint: "POST /api/admin/[adminToken]/linked-events",
+    });
+    return NextResponse.json(
+      { error: "Failed to link event" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import {
-  sendInviteEmailViaGmail,
-  GmailNotConnectedError,
-  GmailTokenRevokedError,
-} from "@/lib/gmail-send";
+import { sendInviteEmail } from "@/lib/email";
+import { loadEmailTemplate } from "@/lib/email-templates";
+import { createEmailTransport, emailTransportProblem } from "@/lib/email-transport";
+import { GmailNotConnectedError, GmailTokenRevokedError } from "@/lib/gmail-send";
+import { actionBlockedReason, transitionEvent } from "@/lib/event-lifecycle";
 import { logError } from "@/lib/logger";
+import { participantBudget } from "@/lib/pools";
+import { inviteChannel, recordInviteDelivery, type NotificationChannel } from "@/lib/notification-channel";
+import { sendInviteSms } from "@/lib/sms";
+import { createSmsProvider } from "@/lib/sms-provider";
 
 interface RouteParams {
   params: Promise<{ adminToken: string }>;
@@ -20,10 +24,11 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       include: {
         participants: {
           where: {
-            email: { not: null },
+            OR: [{ email: { not: null } }, { phone: { not: null } }],
             // Send to anyone who hasn't viewed their assignment yet
             notificationStatus: { not: "VIEWED" },
           },
+          include: { pool: { select: { budget: true } } },
         },
         gmailCredential: true,
       },
@@ -33,55 +38,74 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    if (!event.isLocked) {
+    const blocked = actionBlockedReason(event.status, "NOTIFY");
+    if (blocked) {
       return NextResponse.json(
-        { error: "Must generate assignments before sending notifications" },
+        { error: `Cannot send notifications - ${blocked}` },
         { status: 400 }
       );
     }
 
-    // Check if Gmail is connected
-    if (!event.gmailCredential || event.gmailCredential.revokedAt) {
-      return NextResponse.json(
-        {
-          error:
-            "Gmail is not connected. Please connect your Gmail account to send emails.",
-        },
-        { status: 400 }
-      );
+    // Participants without an email get a text message - when SMS is set up; otherwise
+    // their links are shared by hand as before
+    const smsProvider = createSmsProvider();
+    const recipients = event.participants.flatMap((participant) => {
+      const channel = inviteChannel(participant);
+      return channel === "EMAIL" || (channel === "SMS" && smsProvider)
+        ? [{ participant, channel }]
+        : [];
+    });
+
+    // Check that the event's email transport can send
+    if (recipients.some((r) => r.channel === "EMAIL")) {
+      const transportProblem = emailTransportProblem(event);
+      if (transportProblem) {
+        return NextResponse.json({ error: transportProblem }, { status: 400 });
+      }
     }
+    const transport = createEmailTransport(event);
+    const template = await loadEmailTemplate(prisma, event.id, "INVITE");
 
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-    const results: { name: string; success: boolean; error?: string }[] = [];
-
-    for (const participant of event.participants) {
-      if (!participant.email) continue;
-
+    const results: {
+      name: string;
+      channel: NotificationChannel;
+      success: boolean;
+      error?: string;
+    }[] = [];
+
+    for (const { participant, channel } of recipients) {
       const revealLink = `${appUrl}/reveal/${participant.accessToken}`;
+      const budget = participantBudget(participant.pool, event.budget);
 
       try {
-        const result = await sendInviteEmailViaGmail(
-          event.id,
-          participant.email,
-          participant.name,
-          event.name,
-          revealLink,
-          event.eventDate,
-          event.budget
-        );
-
-        if (result.success) {
-          await prisma.participant.update({
-            where: { id: participant.id },
-            data: {
-              notificationStatus: "SENT",
-              notifiedAt: new Date(),
-            },
-          });
-        }
+        const result =
+          channel === "EMAIL"
+            ? await sendInviteEmail(
+                transport,
+                template,
+                participant.email!,
+                participant.name,
+                event.name,
+                revealLink,
+                event.eventDate,
+                budget
+              )
+            : await sendInviteSms(
+                smsProvider!,
+                participant.phone!,
+                participant.name,
+                event.name,
+                revealLink,
+                event.eventDate,
+                budget
+              );
+
+        await recordInviteDelivery(prisma, participant.id, channel, result.success);
 
         results.push({
           name: participant.name,
+          channel,
           success: result.success,
           error: result.error,
         });
@@ -100,8 +124,10 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
           );
         }
 
+        await recordInviteDelivery(prisma, participant.id, channel, false);
         results.push({
           name: participant.name,
+          channel,
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
         });
@@ -109,11 +135,16 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
     }
 
     const successCount = results.filter((r) => r.success).length;
+    if (successCount > 0 && event.status === "DRAWN") {
+      await transitionEvent(prisma, event, "NOTIFIED");
+    }
     const failureCount = results.filter((r) => !r.success).length;
+    const smsCount = results.filter((r) => r.success && r.channel === "SMS").length;
 
     return NextResponse.json({
       success: true,
       sent: successCount,
+      sentBySms: smsCount,
       failed: failureCount,
       results,
     });
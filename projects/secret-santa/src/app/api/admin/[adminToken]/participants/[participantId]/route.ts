@@ -1,11 +1,137 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { deleteEmptyGroups, findOrCreateGroup } from "@/lib/groups";
 import { logError } from "@/lib/logger";
+import { parseAttributesInput, readAttributes } from "@/lib/participant-attributes";
 
 interface RouteParams {
   params: Promise<{ adminToken: string; participantId: string }>;
 }
 
+/**
+ * PATCH /api/admin/[adminToken]/participants/[participantId]
+ * Moves a participant into a group (household) by name, or out of one with null,
+ * onto a side (team) for a CROSS_SIDES exchange, into a pool by id (null for the main draw),
+ * and/or replaces their custom attributes for matching rules. Omitted fields are left as they are.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, participantId } = await params;
+    const body = await request.json();
+    const { group, side, poolId, attributes } = body;
+
+    if (group !== undefined && group !== null && typeof group !== "string") {
+      return NextResponse.json(
+        { error: "Group must be a name or null" },
+        { status: 400 }
+      );
+    }
+
+    if (side !== undefined && side !== null && typeof side !== "string") {
+      return NextResponse.json(
+        { error: "Side must be a name or null" },
+        { status: 400 }
+      );
+    }
+
+    if (poolId !== undefined && poolId !== null && typeof poolId !== "string") {
+      return NextResponse.json(
+        { error: "Pool must be a pool id or null" },
+        { status: 400 }
+      );
+    }
+
+    const parsedAttributes = attributes === undefined ? undefined : parseAttributesInput(attributes);
+    if (parsedAttributes && "error" in parsedAttributes) {
+      return NextResponse.json(
+        { error: parsedAttributes.error },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change groups, sides, pools or attributes - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const participant = await prisma.participant.findFirst({
+      where: {
+        id: participantId,
+        eventId: event.id,
+      },
+    });
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: "Participant not found" },
+        { status: 404 }
+      );
+    }
+
+    // An empty pool id means the main draw, as when adding a participant
+    const targetPoolId: string | null | undefined =
+      poolId === undefined ? undefined : poolId || null;
+    if (targetPoolId) {
+      const pool = await prisma.pool.findFirst({
+        where: { id: targetPoolId, eventId: event.id },
+      });
+      if (!pool) {
+        return NextResponse.json(
+          { error: "Pool not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.participant.update({
+        where: { id: participantId },
+        data: {
+          groupId:
+            group === undefined ? undefined : await findOrCreateGroup(tx, event.id, group),
+          side: side === undefined ? undefined : side?.trim() || null,
+          poolId: targetPoolId,
+          attributes: parsedAttributes?.attributes,
+        },
+        include: {
+          group: { select: { id: true, name: true } },
+          pool: { select: { id: true, name: true } },
+        },
+      });
+      await deleteEmptyGroups(tx, event.id);
+      return result;
+    });
+
+    return NextResponse.json({
+      id: updated.id,
+      group: updated.group,
+      side: updated.side,
+      pool: updated.pool,
+      attributes: readAttributes(updated.attributes),
+    });
+  } catch (error) {
+    logError("Error updating participant group", error, {
+      endpoint: "PATCH /api/admin/[adminToken]/participants/[participantId]",
+    });
+    return NextResponse.json(
+      { error: "Failed to update participant" },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(_request: NextRequest, { params }: RouteParams) {
   try {
     const { adminToken, participantId } = await params;
@@ -18,9 +144,10 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    if (event.isLocked) {
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
       return NextResponse.json(
-        { error: "Cannot remove participants after assignments are generated" },
+        { error: `Cannot remove participants - ${blocked}` },
         { status: 400 }
       );
     }
@@ -39,8 +166,11 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    await prisma.participant.delete({
-      where: { id: participantId },
+    await prisma.$transaction(async (tx) => {
+      await tx.participant.delete({
+        where: { id: participantId },
+      });
+      await deleteEmptyGroups(tx, event.id);
     });
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { AssignmentImpossibleError, repairWithdrawal } from "@/lib/derangement";
+import { recordAssignmentVersion } from "@/lib/assignment-versions";
+import { recordDrawCommitment } from "@/lib/draw-commitment";
+import { buildConstraints } from "@/lib/event-constraints";
+import { actionBlockedReason, isEventLocked } from "@/lib/event-lifecycle";
+import { deleteEmptyGroups } from "@/lib/groups";
+import { logError, logInfo } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; participantId: string }>;
+}
+
+/**
+ * POST /api/admin/[adminToken]/participants/[participantId]/withdraw
+ * Removes a participant after assignments are generated and repairs the draw around them:
+ * their giver is reconnected to their recipient, or if that breaks a rule, everyone who
+ * hasn't viewed yet is redrawn. Returns whose assignment changed, since they need a
+ * fresh notification.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, participantId } = await params;
+
+    // Read and write in one serializable transaction, so a concurrent draw, undo or
+    // withdrawal can't leave this repair working from stale assignments
+    const outcome = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { adminToken },
+          include: {
+            participants: {
+              select: {
+                id: true,
+                name: true,
+                viewedAt: true,
+                groupId: true,
+                poolId: true,
+                side: true,
+                attributes: true,
+              },
+            },
+            exclusions: {
+              select: {
+                participant1Id: true,
+                participant2Id: true,
+              },
+            },
+            forcedPairs: {
+              select: {
+                giverId: true,
+                receiverId: true,
+              },
+            },
+            matchingRules: {
+              select: {
+                attribute: true,
+                relation: true,
+              },
+              orderBy: { createdAt: "asc" },
+            },
+            assignments: {
+              select: {
+                giverId: true,
+                receiverId: true,
+                round: true,
+              },
+            },
+          },
+        });
+
+        if (!event) {
+          return NextResponse.json({ error: "Event not found" }, { status: 404 });
+        }
+
+        const withdrawn = event.participants.find(p => p.id === participantId);
+        if (!withdrawn) {
+          return NextResponse.json(
+            { error: "Participant not found" },
+            { status: 404 }
+          );
+        }
+
+        if (!isEventLocked(event.status)) {
+          return NextResponse.json(
+            { error: "Assignments haven't been generated yet - remove the participant the usual way" },
+            { status: 400 }
+          );
+        }
+
+        const blocked = actionBlockedReason(event.status, "CHANGE_DRAW");
+        if (blocked) {
+          return NextResponse.json(
+            { error: `Cannot withdraw a participant - ${blocked}` },
+            { status: 400 }
+          );
+        }
+
+        if (event.exchangeMode === "CROSS_SIDES") {
+          return NextResponse.json(
+            {
+              error:
+                "Someone can't withdraw from a two-sides exchange without a new draw, because the " +
+                "sides would no longer be the same size",
+            },
+            { status: 400 }
+          );
+        }
+
+        // Only the withdrawn participant's pool is affected
+        const poolMembers = event.participants.filter(p => p.poolId === withdrawn.poolId);
+        const remaining = poolMembers.filter(p => p.id !== participantId);
+        if (remaining.length < 3 || remaining.length <= event.giftsPerParticipant) {
+          return NextResponse.json(
+            {
+              error:
+                `Without ${withdrawn.name} there would be too few participants left to draw. ` +
+                "Add someone else first.",
+            },
+            { status: 400 }
+          );
+        }
+
+        const memberIds = new Set(poolMembers.map(p => p.id));
+        const rounds = Array.from(
+          { length: event.giftsPerParticipant },
+          () => new Map<string, string>()
+        );
+        for (const assignment of event.assignments) {
+          if (memberIds.has(assignment.giverId)) {
+            rounds[assignment.round]?.set(assignment.giverId, assignment.receiverId);
+          }
+        }
+
+        // Must-give-to pairs involving the withdrawn participant go with them
+        const constraints = buildConstraints({
+          ...event,
+          participants: remaining,
+          forcedPairs: event.forcedPairs.filter(
+            pair => pair.giverId !== participantId && pair.receiverId !== participantId
+          ),
+        });
+
+        let repair;
+        try {
+          repair = repairWithdrawal(
+            participantId,
+            rounds,
+            remaining.filter(p => p.viewedAt !== null).map(p => p.id),
+            constraints
+          );
+        } catch (repairError) {
+          if (repairError instanceof AssignmentImpossibleError) {
+            return NextResponse.json(
+              {
+                error:
+                  `The assignments can't be repaired without ${withdrawn.name} while keeping everyone ` +
+                  "who already viewed. Loosen the exclusions, households or rules, or add a participant first.",
+              },
+              { status: 400 }
+            );
+          }
+          throw repairError;
+        }
+
+        const { changedGiverIds } = repair;
+        const newAssignments = changedGiverIds.flatMap(giverId =>
+          repair.rounds.map((assignments, round) => ({
+            eventId: event.id,
+            giverId,
+            receiverId: assignments.get(giverId)!,
+            round,
+          }))
+        );
+
+        // Deleting the participant also deletes their assignments, in both directions
+        await tx.participant.delete({
+          where: { id: participantId },
+        });
+        await tx.assignment.deleteMany({
+          where: { giverId: { in: changedGiverIds } },
+        });
+        await tx.assignment.createMany({ data: newAssignments });
+        await tx.participant.updateMany({
+          where: { id: { in: changedGiverIds } },
+          data: {
+            notificationStatus: "NOT_SENT",
+            notifiedAt: null,
+            viewedAt: null, // Whatever they saw before is out of date
+          },
+        });
+        await deleteEmptyGroups(tx, event.id);
+        await recordDrawCommitment(tx, event.id);
+        await recordAssignmentVersion(tx, event.id, {
+          kind: "WITHDRAWAL",
+          lockedParticipantIds: event.participants
+            .filter(p => p.viewedAt !== null && p.id !== participantId)
+            .map(p => p.id),
+        });
+
+        return { event, withdrawn, repair };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+    if (outcome instanceof NextResponse) {
+      return outcome;
+    }
+    const { event, withdrawn, repair } = outcome;
+    const { changedGiverIds } = repair;
+
+    const names = new Map(event.participants.map(p => [p.id, p.name]));
+    const renotify = changedGiverIds.map(id => ({ id, name: names.get(id) ?? "" }));
+
+    logInfo("Participant withdrawn", {
+      eventId: event.id,
+      participantId,
+      changedCount: changedGiverIds.length,
+      redrawn: repair.redrawn,
+    });
+
+    return NextResponse.json({
+      success: true,
+      renotify,
+      redrawn: repair.redrawn,
+      message:
+        renotify.length > 0
+          ? `${withdrawn.name} was removed. Send ${renotify.map(p => p.name).join(", ")} ` +
+            "a fresh notification - their recipient changed."
+          : `${withdrawn.name} was removed.`,
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034") {
+      return NextResponse.json(
+        { error: "The assignments changed while withdrawing the participant. Please try again." },
+        { status: 400 }
+      );
+    }
+    logError("Error withdrawing participant", error, {
+      endpoint: "POST /api/admin/[adminToken]/participants/[participantId]/withdraw",
+    });
+    return NextResponse.json(
+      { error: "Failed to withdraw participant" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { findOrCreateGroup } from "@/lib/groups";
 import { logError } from "@/lib/logger";
 
 interface RouteParams {
@@ -10,6 +12,8 @@ interface ParsedParticipant {
   name: string;
   phone: string | null;
   email: string | null;
+  group: string | null;
+  side: string | null;
 }
 
 /**
@@ -22,7 +26,9 @@ function isValidEmail(email: string): boolean {
 
 /**
  * Parse tab-separated or multi-space-separated data
- * Expected format: Name\tPhone\tEmail (with optional header row)
+ * Expected format: Name\tPhone\tEmail\tGroup\tSide (with optional header row)
+ * Group is the household name - members of the same group never draw each other
+ * Side is the team in a CROSS_SIDES exchange
  */
 function parseParticipantData(data: string): ParsedParticipant[] {
   const lines = data.trim().split("\n");
@@ -50,14 +56,18 @@ function parseParticipantData(data: string): ParsedParticipant[] {
     const name = parts[0]?.trim();
     if (!name) continue;
 
-    // Phone is second column, email is third
+    // Phone is second column, email is third, group is fourth, side is fifth
     const phone = parts[1]?.trim() ?? null;
     const email = parts[2]?.trim() ?? null;
+    const group = parts[3]?.trim() || null;
+    const side = parts[4]?.trim() || null;
 
     participants.push({
       name,
       phone,
       email: email && isValidEmail(email) ? email : null,
+      group,
+      side,
     });
   }
 
@@ -85,9 +95,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    if (event.isLocked) {
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
       return NextResponse.json(
-        { error: "Cannot add participants after assignments are generated" },
+        { error: `Cannot add participants - ${blocked}` },
         { status: 400 }
       );
     }
@@ -101,19 +112,33 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Create all participants in a transaction
-    const createdParticipants = await prisma.$transaction(
-      parsedParticipants.map((p) =>
-        prisma.participant.create({
-          data: {
-            eventId: event.id,
-            name: p.name,
-            phone: p.phone,
-            email: p.email,
-          },
-        })
-      )
-    );
+    // Create all participants (and any new groups) in a transaction
+    const createdParticipants = await prisma.$transaction(async (tx) => {
+      const groupIds = new Map<string, string | null>();
+      for (const groupName of new Set(parsedParticipants.map((p) => p.group))) {
+        if (groupName) {
+          groupIds.set(groupName, await findOrCreateGroup(tx, event.id, groupName));
+        }
+      }
+
+      const created = [];
+      for (const p of parsedParticipants) {
+        created.push(
+          await tx.participant.create({
+            data: {
+              eventId: event.id,
+              name: p.name,
+              phone: p.phone,
+              email: p.email,
+              groupId: p.group ? groupIds.get(p.group) ?? null : null,
+              side: p.side,
+            },
+            include: { group: { select: { id: true, name: true } } },
+          })
+        );
+      }
+      return created;
+    });
 
     return NextResponse.json({
       success: true,
@@ -123,6 +148,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         name: p.name,
         phone: p.phone,
         email: p.email,
+        group: p.group,
+        side: p.side,
       })),
     });
   } catch (error) {
@@ -0,0 +1,296 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { AssignmentImpossibleError, spliceParticipant } from "@/lib/derangement";
+import { recordAssignmentVersion } from "@/lib/assignment-versions";
+import { recordDrawCommitment } from "@/lib/draw-commitment";
+import { buildConstraints } from "@/lib/event-constraints";
+import { actionBlockedReason, isEventLocked } from "@/lib/event-lifecycle";
+import { findOrCreateGroup } from "@/lib/groups";
+import { logError, logInfo } from "@/lib/logger";
+import { parseAttributesInput, readAttributes } from "@/lib/participant-attributes";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * Validate email format
+ */
+function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email) && email.length <= 254;
+}
+
+/**
+ * POST /api/admin/[adminToken]/participants/late
+ * Adds a latecomer after assignments are generated, without redrawing: the newcomer is
+ * spliced into the existing loops by redirecting one giver who hasn't viewed yet (one per
+ * round for multi-gift events). Everyone who already viewed keeps their assignment.
+ * Returns who was redirected, since they need a fresh notification.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { name, email, phone, group, poolId, attributes } = body;
+
+    if (!name || typeof name !== "string" || name.trim().length === 0) {
+      return NextResponse.json(
+        { error: "Participant name is required" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedEmail = email?.trim();
+    if (trimmedEmail && !isValidEmail(trimmedEmail)) {
+      return NextResponse.json(
+        { error: "Invalid email address format" },
+        { status: 400 }
+      );
+    }
+
+    if (poolId !== undefined && poolId !== null && typeof poolId !== "string") {
+      return NextResponse.json(
+        { error: "Pool must be a pool id or null" },
+        { status: 400 }
+      );
+    }
+
+    const parsedAttributes =
+      attributes === undefined ? { attributes: {} } : parseAttributesInput(attributes);
+    if ("error" in parsedAttributes) {
+      return NextResponse.json(
+        { error: parsedAttributes.error },
+        { status: 400 }
+      );
+    }
+
+    // Read and write in one serializable transaction, so a concurrent draw, undo or
+    // withdrawal can't leave the splice working from stale assignments
+    let outcome;
+    try {
+      outcome = await prisma.$transaction(
+        async (tx) => {
+          const event = await tx.event.findUnique({
+            where: { adminToken },
+            include: {
+              participants: {
+                select: {
+                  id: true,
+                  name: true,
+                  viewedAt: true,
+                  groupId: true,
+                  poolId: true,
+                  side: true,
+                  attributes: true,
+                },
+              },
+              pools: { select: { id: true } },
+              exclusions: {
+                select: {
+                  participant1Id: true,
+                  participant2Id: true,
+                },
+              },
+              forcedPairs: {
+                select: {
+                  giverId: true,
+                  receiverId: true,
+                },
+              },
+              matchingRules: {
+                select: {
+                  attribute: true,
+                  relation: true,
+                },
+                orderBy: { createdAt: "asc" },
+              },
+              assignments: {
+                select: {
+                  giverId: true,
+                  receiverId: true,
+                  round: true,
+                },
+              },
+            },
+          });
+
+          if (!event) {
+            return NextResponse.json({ error: "Event not found" }, { status: 404 });
+          }
+
+          if (!isEventLocked(event.status)) {
+            return NextResponse.json(
+              { error: "Assignments haven't been generated yet - add the participant the usual way" },
+              { status: 400 }
+            );
+          }
+
+          const blocked = actionBlockedReason(event.status, "CHANGE_DRAW");
+          if (blocked) {
+            return NextResponse.json(
+              { error: `Cannot add a late participant - ${blocked}` },
+              { status: 400 }
+            );
+          }
+
+          if (event.exchangeMode === "CROSS_SIDES") {
+            return NextResponse.json(
+              {
+                error:
+                  "A latecomer can't join a two-sides exchange without a new draw, because the sides " +
+                  "would no longer be the same size",
+              },
+              { status: 400 }
+            );
+          }
+
+          const targetPoolId: string | null = poolId || null;
+          if (targetPoolId && !event.pools.some(pool => pool.id === targetPoolId)) {
+            return NextResponse.json(
+              { error: "Pool not found" },
+              { status: 404 }
+            );
+          }
+
+          const groupId = await findOrCreateGroup(
+            tx,
+            event.id,
+            typeof group === "string" ? group : null
+          );
+
+          const participant = await tx.participant.create({
+            data: {
+              eventId: event.id,
+              name: name.trim(),
+              email: trimmedEmail || null,
+              phone: phone?.trim() || null,
+              groupId,
+              poolId: targetPoolId,
+              attributes: parsedAttributes.attributes,
+            },
+            include: {
+              group: { select: { id: true, name: true } },
+              pool: { select: { id: true, name: true } },
+            },
+          });
+
+          // The newcomer only joins the loops of their own pool
+          const poolMembers = [
+            ...event.participants.filter(p => p.poolId === targetPoolId),
+            { ...participant, viewedAt: null },
+          ];
+          const memberIds = new Set(poolMembers.map(p => p.id));
+          const rounds = Array.from(
+            { length: event.giftsPerParticipant },
+            () => new Map<string, string>()
+          );
+          for (const assignment of event.assignments) {
+            if (memberIds.has(assignment.giverId)) {
+              rounds[assignment.round]?.set(assignment.giverId, assignment.receiverId);
+            }
+          }
+
+          const { redirectedGiverIds } = spliceParticipant(
+            participant.id,
+            rounds,
+            poolMembers.filter(p => p.viewedAt === null && p.id !== participant.id).map(p => p.id),
+            buildConstraints({ ...event, participants: poolMembers })
+          );
+
+          for (const [round, giverId] of redirectedGiverIds.entries()) {
+            // Redirect first so the old recipient is free to receive from the newcomer
+            await tx.assignment.update({
+              where: { giverId_round: { giverId, round } },
+              data: { receiverId: participant.id },
+            });
+            await tx.assignment.create({
+              data: {
+                eventId: event.id,
+                giverId: participant.id,
+                receiverId: rounds[round]!.get(giverId)!,
+                round,
+              },
+            });
+          }
+
+          await tx.participant.updateMany({
+            where: { id: { in: redirectedGiverIds } },
+            data: {
+              notificationStatus: "NOT_SENT",
+              notifiedAt: null,
+            },
+          });
+
+          await recordDrawCommitment(tx, event.id);
+          await recordAssignmentVersion(tx, event.id, {
+            kind: "LATE_ADDITION",
+            lockedParticipantIds: event.participants.filter(p => p.viewedAt !== null).map(p => p.id),
+          });
+
+          return { event, participant, redirectedGiverIds };
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+    } catch (spliceError) {
+      if (spliceError instanceof AssignmentImpossibleError) {
+        return NextResponse.json(
+          {
+            error:
+              `Nobody who hasn't viewed their assignment yet can give to ${name.trim()} without ` +
+              "breaking an exclusion, household or rule. Regenerate the assignments instead.",
+          },
+          { status: 400 }
+        );
+      }
+      if (spliceError instanceof Prisma.PrismaClientKnownRequestError && spliceError.code === "P2034") {
+        return NextResponse.json(
+          { error: "The assignments changed while adding the participant. Please try again." },
+          { status: 400 }
+        );
+      }
+      throw spliceError;
+    }
+    if (outcome instanceof NextResponse) {
+      return outcome;
+    }
+
+    const { event, participant, redirectedGiverIds } = outcome;
+    const names = new Map(event.participants.map(p => [p.id, p.name]));
+    const renotify = redirectedGiverIds.map(id => ({
+      id,
+      name: names.get(id) ?? "",
+    }));
+
+    logInfo("Late participant added", {
+      eventId: event.id,
+      participantId: participant.id,
+      redirectedCount: renotify.length,
+    });
+
+    return NextResponse.json({
+      id: participant.id,
+      name: participant.name,
+      email: participant.email,
+      phone: participant.phone,
+      group: participant.group,
+      pool: participant.pool,
+      attributes: readAttributes(participant.attributes),
+      accessToken: participant.accessToken,
+      notificationStatus: participant.notificationStatus,
+      renotify,
+      message:
+        `${participant.name} was added. Send ${renotify.map(p => p.name).join(", ")} ` +
+        "a fresh notification - their recipient changed.",
+    });
+  } catch (error) {
+    logError("Error adding late participant", error, {
+      endpoint: "POST /api/admin/[adminToken]/participants/late",
+    });
+    return NextResponse.json(
+      { error: "Failed to add late participant" },
+      { status: 500 }
+    );
+  }
+}
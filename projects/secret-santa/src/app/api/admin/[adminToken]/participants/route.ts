@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { findOrCreateGroup } from "@/lib/groups";
 import { logError } from "@/lib/logger";
+import { parseAttributesInput, readAttributes } from "@/lib/participant-attributes";
 
 interface RouteParams {
   params: Promise<{ adminToken: string }>;
@@ -20,7 +23,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { adminToken } = await params;
     const body = await request.json();
-    const { name, email, phone } = body;
+    const { name, email, phone, group, side, poolId, attributes } = body;
 
     if (!name || typeof name !== "string" || name.trim().length === 0) {
       return NextResponse.json(
@@ -38,6 +41,22 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (poolId !== undefined && poolId !== null && typeof poolId !== "string") {
+      return NextResponse.json(
+        { error: "Pool must be a pool id or null" },
+        { status: 400 }
+      );
+    }
+
+    const parsedAttributes =
+      attributes === undefined ? { attributes: {} } : parseAttributesInput(attributes);
+    if ("error" in parsedAttributes) {
+      return NextResponse.json(
+        { error: parsedAttributes.error },
+        { status: 400 }
+      );
+    }
+
     // Normalize phone number if provided
     const trimmedPhone = phone?.trim() || null;
 
@@ -49,19 +68,46 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    if (event.isLocked) {
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
       return NextResponse.json(
-        { error: "Cannot add participants after assignments are generated" },
+        { error: `Cannot add participants - ${blocked}` },
         { status: 400 }
       );
     }
 
+    if (poolId) {
+      const pool = await prisma.pool.findFirst({
+        where: { id: poolId, eventId: event.id },
+      });
+      if (!pool) {
+        return NextResponse.json(
+          { error: "Pool not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const groupId = await findOrCreateGroup(
+      prisma,
+      event.id,
+      typeof group === "string" ? group : null
+    );
+
     const participant = await prisma.participant.create({
       data: {
         eventId: event.id,
         name: name.trim(),
         email: trimmedEmail || null,
         phone: trimmedPhone,
+        groupId,
+        poolId: poolId || null,
+        side: typeof side === "string" ? side.trim() || null : null,
+        attributes: parsedAttributes.attributes,
+      },
+      include: {
+        group: { select: { id: true, name: true } },
+        pool: { select: { id: true, name: true } },
       },
     });
 
@@ -70,6 +116,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       name: participant.name,
       email: participant.email,
       phone: participant.phone,
+      group: participant.group,
+      pool: participant.pool,
+      side: participant.side,
+      attributes: readAttributes(participant.attributes),
       accessToken: participant.accessToken,
       notificationStatus: participant.notificationStatus,
     });
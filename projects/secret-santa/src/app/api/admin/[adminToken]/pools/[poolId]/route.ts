@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; poolId: string }>;
+}
+
+/**
+ * Removes a pool - its members go back to the main draw
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, poolId } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change pools - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const pool = await prisma.pool.findFirst({
+      where: {
+        id: poolId,
+        eventId: event.id,
+      },
+    });
+
+    if (!pool) {
+      return NextResponse.json(
+        { error: "Pool not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.pool.delete({
+      where: { id: poolId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError("Error removing pool", error, {
+      endpoint: "DELETE /api/admin/[adminToken]/pools/[poolId]",
+    });
+    return NextResponse.json(
+      { error: "Failed to remove pool" },
+      { status: 500 }
+    );
+  }
+}
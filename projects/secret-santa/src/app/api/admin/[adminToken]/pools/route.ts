@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+import { MAIN_DRAW_NAME } from "@/lib/pools";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+const MAX_POOL_NAME_LENGTH = 100;
+
+/**
+ * GET /api/admin/[adminToken]/pools
+ * Lists the event's pools with how many participants are in each
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        pools: {
+          select: {
+            id: true,
+            name: true,
+            budget: true,
+            createdAt: true,
+            _count: { select: { participants: true } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      pools: event.pools.map(pool => ({
+        id: pool.id,
+        name: pool.name,
+        budget: pool.budget,
+        participantCount: pool._count.participants,
+        createdAt: pool.createdAt,
+      })),
+    });
+  } catch (error) {
+    logError("Error fetching pools", error, {
+      endpoint: "GET /api/admin/[adminToken]/pools",
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch pools" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/[adminToken]/pools
+ * Adds a named pool (e.g. "Kids") that is drawn separately, with an optional budget
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { name, budget } = body;
+
+    const trimmedName = typeof name === "string" ? name.trim() : "";
+    if (!trimmedName || trimmedName.length > MAX_POOL_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: "A pool name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (trimmedName.toLowerCase() === MAIN_DRAW_NAME.toLowerCase()) {
+      return NextResponse.json(
+        { error: `"${MAIN_DRAW_NAME}" is where everyone without a pool is drawn - pick another name` },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change pools - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.pool.findUnique({
+      where: { eventId_name: { eventId: event.id, name: trimmedName } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `There is already a pool called ${trimmedName}` },
+        { status: 400 }
+      );
+    }
+
+    const pool = await prisma.pool.create({
+      data: {
+        eventId: event.id,
+        name: trimmedName,
+        budget: typeof budget === "string" ? budget.trim() || null : null,
+      },
+    });
+
+    return NextResponse.json({
+      id: pool.id,
+      name: pool.name,
+      budget: pool.budget,
+      participantCount: 0,
+      createdAt: pool.createdAt,
+    });
+  } catch (error) {
+    logError("Error adding pool", error, {
+      endpoint: "POST /api/admin/[adminToken]/pools",
+    });
+    return NextResponse.json(
+      { error: "Failed to add pool" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,307 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import {
-  generateAssignments,
-  generatePartialAssignments,
+  generateMultiAssignments,
+  generatePartialMultiAssignments,
+  generateWithHistoryFallback,
   analyzeRegeneration,
+  analyzeFeasibility,
+  analyzePartialFeasibility,
+  describeFeasibilityProblem,
+  findForcedPairProblems,
+  describeForcedPairProblem,
+  AssignmentImpossibleError,
+  validateSides,
+  countBindingConstraints,
+  countCycles,
+  analyzeRules,
+  describeAttributeRule,
+  type AssignmentConstraints,
+  type BindingConstraintCounts,
+  type FeasibilityAnalysis,
+  type HistoryAvoidanceResult,
+  type RegenerationAnalysis,
+  type RuleAnalysis,
 } from "@/lib/derangement";
+import { MAX_GENERATED_BY_LENGTH, recordAssignmentVersion } from "@/lib/assignment-versions";
+import { recordDrawCommitment } from "@/lib/draw-commitment";
+import { buildConstraints } from "@/lib/event-constraints";
+import { secureRandom } from "@/lib/random";
+import {
+  actionBlockedReason,
+  isEventLocked,
+  transitionEvent,
+  type EventStatus,
+} from "@/lib/event-lifecycle";
+import { loadPastPairings } from "@/lib/event-history";
 import { logError, logInfo, logWarn } from "@/lib/logger";
+import { poolMessage, splitIntoPools } from "@/lib/pools";
 
 interface RouteParams {
   params: Promise<{ adminToken: string }>;
 }
 
+/**
+ * Problems with the sides of a CROSS_SIDES exchange, named for the organizer
+ */
+function describeSideProblems(
+  participants: { id: string; name: string }[],
+  sides: Map<string, string>
+): string[] {
+  const unassigned = participants.filter(p => !sides.has(p.id));
+  if (unassigned.length > 0) {
+    return [`${unassigned.map(p => p.name).join(", ")} ${unassigned.length === 1 ? "has" : "have"} no side yet`];
+  }
+  return validateSides(participants.map(p => p.id), sides).errors;
+}
+
+/**
+ * Groups the assignments of the given givers by round - a pool's current draw, or the
+ * locked assignments of participants who already viewed, which can no longer change
+ */
+function buildRounds(
+  assignments: { giverId: string; receiverId: string; round: number }[],
+  giverIds: string[],
+  giftsPerParticipant: number
+): Map<string, string>[] {
+  const givers = new Set(giverIds);
+  const rounds = Array.from({ length: giftsPerParticipant }, () => new Map<string, string>());
+  for (const assignment of assignments) {
+    if (givers.has(assignment.giverId)) {
+      rounds[assignment.round]?.set(assignment.giverId, assignment.receiverId);
+    }
+  }
+  return rounds;
+}
+
+const SIDES_ERROR =
+  "Everyone needs a side, with exactly two sides of the same size, so each person gives to the other side.";
+
+const FORCED_PAIRS_ERROR =
+  "The must-give-to pairs can't all be honored. Change or remove the conflicting pairs and try again.";
+
+/**
+ * Error text for an impossible draw
+ * Without a feasibility analysis every single round was possible, so only the loop shape
+ * or the number of gifts each got in the way
+ */
+function impossibleDrawError(error: AssignmentImpossibleError, constraintsMessage: string): string {
+  if (error.forcedPairProblems) {
+    return FORCED_PAIRS_ERROR;
+  }
+  return error.feasibility
+    ? constraintsMessage
+    : "The chosen draw style or number of gifts each can't be met with the current exclusions and households. " +
+        "Switch the draw style to \"Any arrangement\" or lower the gifts each in the event details and try again.";
+}
+
+/**
+ * Turns a feasibility analysis into organizer-facing sentences
+ * During partial regeneration only the stuck givers are described: naming which
+ * receivers are still open would hint at what viewed participants drew
+ */
+function describeFeasibility(
+  feasibility: FeasibilityAnalysis,
+  participants: { id: string; name: string }[],
+  isFullRegeneration: boolean
+): string[] {
+  const names = new Map(participants.map(p => [p.id, p.name]));
+  return feasibility.problems
+    .filter(problem => isFullRegeneration || problem.side === "giver")
+    .map(problem => describeFeasibilityProblem(problem, names, isFullRegeneration));
+}
+
+/**
+ * Organizer-facing details for an impossible draw, from whichever analysis it carries
+ */
+function describeImpossibleDraw(
+  error: AssignmentImpossibleError,
+  participants: { id: string; name: string }[],
+  isFullRegeneration: boolean
+): string[] {
+  if (error.forcedPairProblems) {
+    const names = new Map(participants.map(p => [p.id, p.name]));
+    return error.forcedPairProblems.map(problem => describeForcedPairProblem(problem, names));
+  }
+  return error.feasibility
+    ? describeFeasibility(error.feasibility, participants, isFullRegeneration)
+    : [];
+}
+
+/**
+ * Summarizes how well past pairings were avoided, or null when nothing needs saying
+ * Counts only - naming the repeated pairs would reveal assignments
+ */
+function describeHistoryAvoidance(history: HistoryAvoidanceResult): string | null {
+  if (history.requestedDepth === 0 || history.depthUsed === history.requestedDepth) {
+    return null;
+  }
+
+  const avoided =
+    history.depthUsed === 0
+      ? "Past pairings could not be avoided with the current exclusions and households."
+      : `Only pairings from the ${history.depthUsed} most recent linked event(s) could be avoided.`;
+  return history.repeatedPairCount > 0
+    ? `${avoided} ${history.repeatedPairCount} assignment(s) repeat an earlier year.`
+    : avoided;
+}
+
+/**
+ * Must-give-to pairs whose giver and receiver are in different pools - each pool is drawn
+ * on its own, so these can never be honored
+ */
+function describeCrossPoolForcedPairs(
+  participants: { id: string; name: string; poolId: string | null }[],
+  forcedPairs: { giverId: string; receiverId: string }[]
+): string[] {
+  const byId = new Map(participants.map(p => [p.id, p]));
+  return forcedPairs.flatMap(pair => {
+    const giver = byId.get(pair.giverId);
+    const receiver = byId.get(pair.receiverId);
+    return giver && receiver && giver.poolId !== receiver.poolId
+      ? [`${giver.name} must give to ${receiver.name}, but they are in different pools`]
+      : [];
+  });
+}
+
+/**
+ * Result of checking one pool before the admin clicks Generate
+ */
+interface DrawCheck {
+  analysis: RegenerationAnalysis;
+  feasibilityProblems: string[];
+  infeasibleReason: string;
+  ruleAnalysis: RuleAnalysis[];
+}
+
+/**
+ * Checks whether one pool can be (re)generated, and if not, why
+ */
+function checkDraw(
+  participants: { id: string; name: string; viewedAt: Date | null }[],
+  constraints: AssignmentConstraints,
+  assignments: { giverId: string; receiverId: string; round: number }[],
+  giftsPerParticipant: number
+): DrawCheck {
+  const analysis = analyzeRegeneration(
+    participants.map(p => ({
+      id: p.id,
+      hasViewed: p.viewedAt !== null,
+    })),
+    {
+      rounds: buildRounds(assignments, participants.map(p => p.id), giftsPerParticipant),
+      constraints,
+    }
+  );
+
+  const sideProblems = constraints.sides
+    ? describeSideProblems(participants, constraints.sides)
+    : [];
+  const forcedPairProblems = findForcedPairProblems(
+    participants.map(p => p.id),
+    constraints
+  );
+  let feasibilityProblems: string[] = [];
+  let infeasibleReason = "The exclusions and households make a valid assignment impossible.";
+  let ruleAnalysis: RuleAnalysis[] = [];
+
+  if (sideProblems.length > 0) {
+    feasibilityProblems = sideProblems;
+    infeasibleReason = SIDES_ERROR;
+  } else if (forcedPairProblems.length > 0) {
+    infeasibleReason = FORCED_PAIRS_ERROR;
+    const names = new Map(participants.map(p => [p.id, p.name]));
+    feasibilityProblems = forcedPairProblems.map(problem =>
+      describeForcedPairProblem(problem, names)
+    );
+  } else if (analysis.canRegenerate) {
+    let feasibility: FeasibilityAnalysis;
+    if (analysis.isFullRegeneration) {
+      feasibility = analyzeFeasibility(analysis.unlockedParticipants, constraints);
+    } else {
+      // Every round must be feasible on its own - report the first one that is not
+      const lockedRounds = buildRounds(
+        assignments,
+        analysis.lockedParticipants,
+        giftsPerParticipant
+      );
+      const roundFeasibility = lockedRounds.map(lockedAssignments =>
+        analyzePartialFeasibility(
+          analysis.unlockedParticipants,
+          lockedAssignments,
+          analysis.lockedParticipants,
+          constraints
+        )
+      );
+      feasibility = roundFeasibility.find(result => !result.feasible) ?? roundFeasibility[0]!;
+    }
+
+    if (!feasibility.feasible) {
+      feasibilityProblems = describeFeasibility(
+        feasibility,
+        participants,
+        analysis.isFullRegeneration
+      );
+    }
+
+    // Only worked out for full draws: which rules block a partial one would hint at
+    // what the participants who already viewed drew
+    if (analysis.isFullRegeneration) {
+      ruleAnalysis = analyzeRules(
+        analysis.unlockedParticipants,
+        constraints,
+        giftsPerParticipant
+      );
+      for (const { rule, binding } of ruleAnalysis) {
+        if (binding) {
+          infeasibleReason = "The matching rules make a valid assignment impossible.";
+          feasibilityProblems.push(
+            `The rule to ${describeAttributeRule(rule)} is what makes the draw impossible`
+          );
+        }
+      }
+    }
+  }
+
+  return { analysis, feasibilityProblems, infeasibleReason, ruleAnalysis };
+}
+
+/**
+ * Adds up each rule's analysis over the pools: the pairs it rules out in every pool,
+ * and whether it blocks any of them
+ */
+function combineRuleAnalysis(perPool: RuleAnalysis[][]): RuleAnalysis[] {
+  const combined = new Map<string, RuleAnalysis>();
+  for (const analyses of perPool) {
+    for (const analysis of analyses) {
+      const existing = combined.get(analysis.rule.attribute);
+      combined.set(
+        analysis.rule.attribute,
+        existing
+          ? {
+              rule: analysis.rule,
+              blockedPairCount: existing.blockedPairCount + analysis.blockedPairCount,
+              binding: existing.binding || analysis.binding,
+            }
+          : analysis
+      );
+    }
+  }
+  return [...combined.values()];
+}
+
+/**
+ * Combines the repeat avoidance of each pool: the event only avoided as many past
+ * draws as its least lucky pool
+ */
+function combineHistoryAvoidance(perPool: HistoryAvoidanceResult[]): HistoryAvoidanceResult {
+  return {
+    requestedDepth: perPool[0]?.requestedDepth ?? 0,
+    depthUsed: Math.min(...perPool.map(history => history.depthUsed)),
+    repeatedPairCount: perPool.reduce((sum, history) => sum + history.repeatedPairCount, 0),
+  };
+}
+
 // GET - Analyze if regeneration is possible and what type
 export async function GET(_request: NextRequest, { params }: RouteParams) {
   try {
@@ -24,7 +315,44 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
             id: true,
             name: true,
             viewedAt: true,
-            assignedToId: true,
+            groupId: true,
+            poolId: true,
+            side: true,
+            attributes: true,
+          },
+        },
+        pools: {
+          select: {
+            id: true,
+            name: true,
+            budget: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        exclusions: {
+          select: {
+            participant1Id: true,
+            participant2Id: true,
+          },
+        },
+        forcedPairs: {
+          select: {
+            giverId: true,
+            receiverId: true,
+          },
+        },
+        matchingRules: {
+          select: {
+            attribute: true,
+            relation: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        assignments: {
+          select: {
+            giverId: true,
+            receiverId: true,
+            round: true,
           },
         },
       },
@@ -35,16 +363,48 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     }
 
     // Check if event is locked (assignments exist)
-    const hasAssignments = event.isLocked;
+    const hasAssignments = isEventLocked(event.status);
+    const drawBlocked = actionBlockedReason(event.status, "DRAW");
     const viewedParticipants = event.participants.filter(p => p.viewedAt !== null);
     const unviewedParticipants = event.participants.filter(p => p.viewedAt === null);
 
-    // Analyze regeneration possibility
-    const analysis = analyzeRegeneration(
-      event.participants.map(p => ({
-        id: p.id,
-        hasViewed: p.viewedAt !== null,
-      }))
+    // Each pool is its own draw - check the constraints allow all of them before the
+    // admin clicks Generate
+    const draws = splitIntoPools(event.participants, event.pools);
+    const checks = draws.map(draw => ({
+      draw,
+      ...checkDraw(
+        draw.participants,
+        buildConstraints({ ...event, participants: draw.participants }),
+        event.assignments,
+        event.giftsPerParticipant
+      ),
+    }));
+
+    const crossPoolProblems = describeCrossPoolForcedPairs(event.participants, event.forcedPairs);
+    const feasibilityProblems = [
+      ...crossPoolProblems,
+      ...checks.flatMap(check =>
+        check.feasibilityProblems.map(problem => poolMessage(check.draw, draws.length, problem))
+      ),
+    ];
+    const feasible = feasibilityProblems.length === 0;
+
+    let reason: string | undefined;
+    const infeasibleCheck = checks.find(check => check.feasibilityProblems.length > 0);
+    const blockedCheck = checks.find(check => !check.analysis.canRegenerate);
+    if (drawBlocked) {
+      reason = `Cannot generate assignments - ${drawBlocked}`;
+    } else if (crossPoolProblems.length > 0) {
+      reason = FORCED_PAIRS_ERROR;
+    } else if (infeasibleCheck) {
+      reason = poolMessage(infeasibleCheck.draw, draws.length, infeasibleCheck.infeasibleReason);
+    } else if (blockedCheck?.analysis.reason) {
+      reason = poolMessage(blockedCheck.draw, draws.length, blockedCheck.analysis.reason);
+    }
+
+    const countedAlternatives = checks.flatMap(check =>
+      check.analysis.alternativeCount === undefined ? [] : [check.analysis.alternativeCount]
     );
 
     return NextResponse.json({
@@ -54,9 +414,34 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
       unviewedCount: unviewedParticipants.length,
       viewedParticipants: viewedParticipants.map(p => ({ id: p.id, name: p.name })),
       unviewedParticipants: unviewedParticipants.map(p => ({ id: p.id, name: p.name })),
-      canRegenerate: analysis.canRegenerate,
-      isFullRegeneration: analysis.isFullRegeneration,
-      reason: analysis.reason,
+      canRegenerate: !drawBlocked && checks.every(check => check.analysis.canRegenerate) && feasible,
+      isFullRegeneration: checks.every(check => check.analysis.isFullRegeneration),
+      reason,
+      feasible,
+      feasibilityProblems,
+      // Only counted for pools with fewer than 3 participants left to reassign
+      alternativeCount: countedAlternatives.length > 0
+        ? countedAlternatives.reduce((sum, count) => sum + count, 0)
+        : null,
+      pools: checks.map(({ draw, analysis, feasibilityProblems: problems }) => ({
+        id: draw.id,
+        name: draw.name,
+        participantCount: draw.participants.length,
+        viewedCount: analysis.lockedParticipants.length,
+        canRegenerate: analysis.canRegenerate && problems.length === 0,
+        isFullRegeneration: analysis.isFullRegeneration,
+        alternativeCount: analysis.alternativeCount ?? null,
+      })),
+      // Counts only, so the rules can be tuned without revealing any pairing
+      ruleAnalysis: combineRuleAnalysis(checks.map(check => check.ruleAnalysis)).map(
+        ({ rule, blockedPairCount, binding }) => ({
+          attribute: rule.attribute,
+          relation: rule.relation,
+          description: describeAttributeRule(rule),
+          blockedPairCount,
+          binding,
+        })
+      ),
     });
   } catch (error) {
     logError("Error analyzing regeneration", error, {
@@ -69,10 +454,22 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// POST - Generate or regenerate assignments
-export async function POST(_request: NextRequest, { params }: RouteParams) {
+// POST - Generate or regenerate assignments (?dryRun=true previews without saving)
+export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { adminToken } = await params;
+    // Preview only: run the same checks and generator, but save nothing and reveal no pairing
+    const dryRun = request.nextUrl.searchParams.get("dryRun") === "true";
+    // Optional body: { generatedBy } - who ran the draw, shown in the draw history
+    const body = await request.json().catch(() => ({}));
+    const generatedBy =
+      typeof body?.generatedBy === "string" ? body.generatedBy.trim() : "";
+    if (generatedBy.length > MAX_GENERATED_BY_LENGTH) {
+      return NextResponse.json(
+        { error: `Name must be ${MAX_GENERATED_BY_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
 
     const event = await prisma.event.findUnique({
       where: { adminToken },
@@ -82,7 +479,45 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
             id: true,
             name: true,
             viewedAt: true,
-            assignedToId: true,
+            groupId: true,
+            poolId: true,
+            side: true,
+            attributes: true,
+            email: true,
+          },
+        },
+        pools: {
+          select: {
+            id: true,
+            name: true,
+            budget: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        exclusions: {
+          select: {
+            participant1Id: true,
+            participant2Id: true,
+          },
+        },
+        forcedPairs: {
+          select: {
+            giverId: true,
+            receiverId: true,
+          },
+        },
+        matchingRules: {
+          select: {
+            attribute: true,
+            relation: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        assignments: {
+          select: {
+            giverId: true,
+            receiverId: true,
+            round: true,
           },
         },
       },
@@ -92,184 +527,404 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    if (event.participants.length < 3) {
-      return NextResponse.json(
-        { error: "Need at least 3 participants to generate assignments" },
-        { status: 400 }
-      );
+    // A dry run reports why the draw would be refused instead of failing
+    const refuse = (body: { error: string; feasibilityProblems?: string[] }) =>
+      dryRun
+        ? NextResponse.json({
+            dryRun: true,
+            feasible: false,
+            reason: body.error,
+            feasibilityProblems: body.feasibilityProblems ?? [],
+          })
+        : NextResponse.json(body, { status: 400 });
+
+    const blocked = actionBlockedReason(event.status, "DRAW");
+    if (blocked) {
+      return refuse({ error: `Cannot generate assignments - ${blocked}` });
     }
 
-    // Analyze the current state
-    const participantsWithViewStatus = event.participants.map(p => ({
-      id: p.id,
-      name: p.name,
-      hasViewed: p.viewedAt !== null,
-      currentAssignment: p.assignedToId,
-    }));
+    // Each pool is drawn on its own; messages name the pool once there is more than one
+    const draws = splitIntoPools(event.participants, event.pools);
+    const label = (draw: { name: string }, message: string) =>
+      poolMessage(draw, draws.length, message);
 
-    const analysis = analyzeRegeneration(
-      participantsWithViewStatus.map(p => ({ id: p.id, hasViewed: p.hasViewed }))
-    );
+    for (const draw of draws) {
+      if (draw.participants.length < 3) {
+        return refuse({ error: label(draw, "Need at least 3 participants to generate assignments") });
+      }
 
-    // Check if regeneration is possible
-    if (!analysis.canRegenerate) {
-      logWarn("Regeneration blocked", {
-        eventId: event.id,
-        reason: analysis.reason,
-        lockedCount: analysis.lockedParticipants.length,
-        unlockedCount: analysis.unlockedParticipants.length,
-      });
-      return NextResponse.json(
-        { error: analysis.reason || "Cannot regenerate assignments" },
-        { status: 400 }
-      );
+      if (draw.participants.length <= event.giftsPerParticipant) {
+        return refuse({
+          error: label(
+            draw,
+            `Need at least ${event.giftsPerParticipant + 1} participants for everyone ` +
+              `to give ${event.giftsPerParticipant} gifts`
+          ),
+        });
+      }
     }
 
-    let result;
-    let isPartialRegeneration = false;
+    const crossPoolProblems = describeCrossPoolForcedPairs(event.participants, event.forcedPairs);
+    if (crossPoolProblems.length > 0) {
+      return refuse({ error: FORCED_PAIRS_ERROR, feasibilityProblems: crossPoolProblems });
+    }
 
-    if (analysis.isFullRegeneration) {
-      // Full regeneration - no one has viewed yet
-      const participantIds = event.participants.map(p => p.id);
-
-      try {
-        result = generateAssignments(participantIds);
-      } catch (assignmentError) {
-        const validationErrors = (
-          assignmentError as Error & { validationErrors?: string[][] }
-        ).validationErrors;
-        logError("Full assignment generation failed", assignmentError, {
-          endpoint: "POST /api/admin/[adminToken]/randomize",
+    // Analyze the current state of every pool before anything is drawn
+    const plans: {
+      draw: (typeof draws)[number];
+      analysis: RegenerationAnalysis;
+      constraints: AssignmentConstraints;
+    }[] = [];
+
+    for (const draw of draws) {
+      const constraints = buildConstraints({ ...event, participants: draw.participants });
+      const analysis = analyzeRegeneration(
+        draw.participants.map(p => ({ id: p.id, hasViewed: p.viewedAt !== null })),
+        {
+          rounds: buildRounds(
+            event.assignments,
+            draw.participants.map(p => p.id),
+            event.giftsPerParticipant
+          ),
+          constraints,
+        }
+      );
+
+      // Check if regeneration is possible
+      if (!analysis.canRegenerate) {
+        logWarn("Regeneration blocked", {
           eventId: event.id,
-          participantCount: participantIds.length,
-          validationErrors: validationErrors || [],
+          pool: draw.name,
+          reason: analysis.reason,
+          lockedCount: analysis.lockedParticipants.length,
+          unlockedCount: analysis.unlockedParticipants.length,
         });
-        return NextResponse.json(
-          { error: "Failed to generate valid assignments. Please try again." },
-          { status: 500 }
-        );
+        return refuse({ error: label(draw, analysis.reason || "Cannot regenerate assignments") });
       }
-    } else {
-      // Partial regeneration - some have viewed, regenerate only unlocked participants
-      isPartialRegeneration = true;
-      const lockedParticipants = participantsWithViewStatus.filter(p => p.hasViewed);
-      const unlockedParticipants = participantsWithViewStatus.filter(p => !p.hasViewed);
-
-      // Build map of locked assignments
-      const lockedAssignments = new Map<string, string>();
-      for (const p of lockedParticipants) {
-        if (p.currentAssignment) {
-          lockedAssignments.set(p.id, p.currentAssignment);
+
+      if (constraints.sides) {
+        const sideProblems = describeSideProblems(draw.participants, constraints.sides);
+        if (sideProblems.length > 0) {
+          return refuse({
+            error: label(draw, SIDES_ERROR),
+            feasibilityProblems: sideProblems.map(problem => label(draw, problem)),
+          });
+        }
+
+        const sideSize = draw.participants.length / 2;
+        if (sideSize < event.giftsPerParticipant) {
+          return refuse({
+            error: label(
+              draw,
+              `Each side needs at least ${event.giftsPerParticipant} participants for everyone ` +
+                `to give ${event.giftsPerParticipant} gifts to the other side`
+            ),
+          });
         }
       }
 
-      try {
-        result = generatePartialAssignments(
-          unlockedParticipants.map(p => p.id),
-          lockedAssignments,
-          lockedParticipants.map(p => p.id) // Pass locked giver IDs for proper receiver calculation
+      plans.push({ draw, analysis, constraints });
+    }
+
+    // Past pairings are soft: generateWithHistoryFallback relaxes them if they block the draw
+    const pastPairings = await loadPastPairings(event.id, event.participants, event.historyDepth);
+
+    const newAssignments: { eventId: string; giverId: string; receiverId: string; round: number }[] = [];
+    const histories: HistoryAvoidanceResult[] = [];
+    const preview = {
+      cycleCount: 0,
+      changedAssignmentCount: 0,
+      bindingConstraints: { exclusions: 0, groups: 0, forcedPairs: 0, rules: 0, total: 0 },
+    };
+
+    for (const { draw, analysis, constraints } of plans) {
+      let result;
+
+      if (analysis.isFullRegeneration) {
+        // Full regeneration - no one in this pool has viewed yet
+        const participantIds = draw.participants.map(p => p.id);
+
+        try {
+          result = generateWithHistoryFallback(pastPairings, (avoidPairs) =>
+            generateMultiAssignments(participantIds, event.giftsPerParticipant, {
+              ...constraints,
+              avoidPairs,
+            })
+          );
+        } catch (assignmentError) {
+          if (assignmentError instanceof AssignmentImpossibleError) {
+            logWarn("Full assignment generation impossible", {
+              eventId: event.id,
+              pool: draw.name,
+              participantCount: participantIds.length,
+              exclusionCount: event.exclusions.length,
+              forcedPairCount: event.forcedPairs.length,
+              ruleCount: event.matchingRules.length,
+              groupedCount: constraints.groups?.size ?? 0,
+            });
+            return refuse({
+              error: label(
+                draw,
+                impossibleDrawError(
+                  assignmentError,
+                  "The exclusions and households make a valid assignment impossible. " +
+                    "Remove some exclusions or split up a household and try again."
+                )
+              ),
+              feasibilityProblems: describeImpossibleDraw(assignmentError, draw.participants, true),
+            });
+          }
+
+          const validationErrors = (
+            assignmentError as Error & { validationErrors?: string[][] }
+          ).validationErrors;
+          logError("Full assignment generation failed", assignmentError, {
+            endpoint: "POST /api/admin/[adminToken]/randomize",
+            eventId: event.id,
+            pool: draw.name,
+            participantCount: participantIds.length,
+            validationErrors: validationErrors || [],
+          });
+          return NextResponse.json(
+            { error: "Failed to generate valid assignments. Please try again." },
+            { status: 500 }
+          );
+        }
+      } else {
+        // Partial regeneration - some have viewed, regenerate only unlocked participants
+        const lockedRounds = buildRounds(
+          event.assignments,
+          analysis.lockedParticipants,
+          event.giftsPerParticipant
         );
 
-        logInfo("Partial regeneration successful", {
+        try {
+          const currentRounds = buildRounds(
+            event.assignments,
+            draw.participants.map(p => p.id),
+            event.giftsPerParticipant
+          );
+          result = generateWithHistoryFallback(pastPairings, (avoidPairs) =>
+            generatePartialMultiAssignments(
+              analysis.unlockedParticipants,
+              lockedRounds,
+              analysis.lockedParticipants, // Pass locked giver IDs for proper receiver calculation
+              { ...constraints, avoidPairs },
+              secureRandom,
+              currentRounds // Never hand back the current draw
+            )
+          );
+
+          logInfo("Partial regeneration successful", {
+            eventId: event.id,
+            pool: draw.name,
+            lockedCount: analysis.lockedParticipants.length,
+            unlockedCount: analysis.unlockedParticipants.length,
+            attempts: result.attempts,
+          });
+        } catch (assignmentError) {
+          if (assignmentError instanceof AssignmentImpossibleError) {
+            logWarn("Partial assignment generation impossible", {
+              eventId: event.id,
+              pool: draw.name,
+              lockedCount: analysis.lockedParticipants.length,
+              unlockedCount: analysis.unlockedParticipants.length,
+              exclusionCount: event.exclusions.length,
+              forcedPairCount: event.forcedPairs.length,
+              ruleCount: event.matchingRules.length,
+              groupedCount: constraints.groups?.size ?? 0,
+            });
+            return refuse({
+              error: label(
+                draw,
+                impossibleDrawError(
+                  assignmentError,
+                  "The exclusions and households make it impossible to reassign the participants who haven't " +
+                    "viewed their assignments yet without changing anyone who already has."
+                )
+              ),
+              feasibilityProblems: describeImpossibleDraw(assignmentError, draw.participants, false),
+            });
+          }
+
+          const validationErrors = (
+            assignmentError as Error & { validationErrors?: string[][] }
+          ).validationErrors;
+          logError("Partial assignment generation failed", assignmentError, {
+            endpoint: "POST /api/admin/[adminToken]/randomize",
+            eventId: event.id,
+            pool: draw.name,
+            lockedCount: analysis.lockedParticipants.length,
+            unlockedCount: analysis.unlockedParticipants.length,
+            validationErrors: validationErrors || [],
+          });
+          return NextResponse.json(
+            {
+              error:
+                "Failed to generate valid assignments for remaining participants. " +
+                "Try adding more participants who haven't viewed their assignments yet.",
+            },
+            { status: 500 }
+          );
+        }
+      }
+
+      const { rounds, attempts } = result;
+
+      // Log if it took multiple attempts
+      if (attempts > 1) {
+        logInfo("Assignment generation succeeded after retry", {
           eventId: event.id,
-          lockedCount: lockedParticipants.length,
-          unlockedCount: unlockedParticipants.length,
-          attempts: result.attempts,
+          eventName: event.name,
+          pool: draw.name,
+          participantCount: draw.participants.length,
+          attempts,
+          isPartialRegeneration: !analysis.isFullRegeneration,
         });
-      } catch (assignmentError) {
-        const validationErrors = (
-          assignmentError as Error & { validationErrors?: string[][] }
-        ).validationErrors;
-        logError("Partial assignment generation failed", assignmentError, {
-          endpoint: "POST /api/admin/[adminToken]/randomize",
-          eventId: event.id,
-          lockedCount: lockedParticipants.length,
-          unlockedCount: unlockedParticipants.length,
-          validationErrors: validationErrors || [],
+      }
+
+      histories.push(result.history);
+
+      if (dryRun) {
+        // Loops span the kept and the new assignments, so count them over the complete draw
+        const current = buildRounds(
+          event.assignments,
+          draw.participants.map(p => p.id),
+          event.giftsPerParticipant
+        );
+        rounds.forEach((round, index) => {
+          const complete = new Map([...current[index]!, ...round]);
+          preview.cycleCount += countCycles(complete);
+          preview.changedAssignmentCount += [...round].filter(
+            ([giverId, receiverId]) => current[index]!.get(giverId) !== receiverId
+          ).length;
         });
-        return NextResponse.json(
-          {
-            error:
-              "Failed to generate valid assignments for remaining participants. " +
-              "Try adding more participants who haven't viewed their assignments yet.",
-          },
-          { status: 500 }
+        const binding = countBindingConstraints(
+          draw.participants.map(p => p.id),
+          constraints
         );
+        for (const key of Object.keys(binding) as (keyof BindingConstraintCounts)[]) {
+          preview.bindingConstraints[key] += binding[key];
+        }
       }
+
+      newAssignments.push(
+        ...rounds.flatMap((round, index) =>
+          [...round].map(([giverId, receiverId]) => ({
+            eventId: event.id,
+            giverId,
+            receiverId,
+            round: index,
+          }))
+        )
+      );
     }
 
-    const { assignments, attempts } = result;
+    const history = combineHistoryAvoidance(histories);
 
-    // Log if it took multiple attempts
-    if (attempts > 1) {
-      logInfo("Assignment generation succeeded after retry", {
+    if (history.depthUsed < history.requestedDepth) {
+      logInfo("Relaxed past pairing avoidance", {
         eventId: event.id,
-        eventName: event.name,
+        requestedDepth: history.requestedDepth,
+        depthUsed: history.depthUsed,
+        repeatedPairCount: history.repeatedPairCount,
+      });
+    }
+
+    const fullPlans = plans.filter(plan => plan.analysis.isFullRegeneration);
+    const partialPlans = plans.filter(plan => !plan.analysis.isFullRegeneration);
+    const isPartialRegeneration = partialPlans.length > 0;
+    const lockedCount = partialPlans.reduce(
+      (sum, plan) => sum + plan.analysis.lockedParticipants.length,
+      0
+    );
+
+    if (dryRun) {
+      // Counts only - the admin stays blind to who would draw whom
+      return NextResponse.json({
+        dryRun: true,
+        feasible: true,
         participantCount: event.participants.length,
-        attempts,
+        regeneratedCount: event.participants.length - lockedCount,
+        lockedCount,
         isPartialRegeneration,
+        poolCount: draws.length,
+        ...preview,
+        repeatAvoidance: {
+          ...history,
+          message: describeHistoryAvoidance(history),
+        },
       });
     }
 
-    // Update the database in a transaction
-    await prisma.$transaction(async (tx) => {
-      if (analysis.isFullRegeneration) {
-        // Full regeneration - clear all assignments first
+    // Update the database in a transaction, committing to the complete result
+    const commitment = await prisma.$transaction(async (tx) => {
+      // Full regeneration - clear the pool's assignments first
+      const fullIds = fullPlans.flatMap(plan => plan.analysis.unlockedParticipants);
+      if (fullIds.length > 0) {
+        await tx.assignment.deleteMany({
+          where: { giverId: { in: fullIds } },
+        });
         await tx.participant.updateMany({
-          where: { eventId: event.id },
+          where: { id: { in: fullIds } },
           data: {
-            assignedToId: null,
             notificationStatus: "NOT_SENT",
             notifiedAt: null,
             viewedAt: null,
           },
         });
+      }
 
-        // Set all new assignments
-        for (const [giverId, receiverId] of assignments) {
-          await tx.participant.update({
-            where: { id: giverId },
-            data: { assignedToId: receiverId },
-          });
-        }
-      } else {
-        // Partial regeneration - only update unlocked participants
-        for (const participantId of analysis.unlockedParticipants) {
-          const newAssignment = assignments.get(participantId);
-          if (newAssignment) {
-            await tx.participant.update({
-              where: { id: participantId },
-              data: {
-                assignedToId: newAssignment,
-                notificationStatus: "NOT_SENT",
-                notifiedAt: null,
-                // Don't reset viewedAt - they haven't viewed the new one yet
-                // but keep it null since these are unviewed participants
-              },
-            });
-          }
-        }
+      // Partial regeneration - only replace assignments of unlocked participants
+      const unlockedIds = partialPlans.flatMap(plan => plan.analysis.unlockedParticipants);
+      if (unlockedIds.length > 0) {
+        await tx.assignment.deleteMany({
+          where: { giverId: { in: unlockedIds } },
+        });
+        await tx.participant.updateMany({
+          where: { id: { in: unlockedIds } },
+          data: {
+            notificationStatus: "NOT_SENT",
+            notifiedAt: null,
+            // Don't reset viewedAt - these are unviewed participants, so it is already null
+          },
+        });
       }
 
-      // Lock the event (or keep it locked)
-      await tx.event.update({
-        where: { id: event.id },
-        data: { isLocked: true },
+      await tx.assignment.createMany({ data: newAssignments });
+
+      const drawCommitment = await recordDrawCommitment(tx, event.id);
+      await recordAssignmentVersion(tx, event.id, {
+        kind: isPartialRegeneration ? "PARTIAL" : "FULL",
+        lockedParticipantIds: partialPlans.flatMap(plan => plan.analysis.lockedParticipants),
+        generatedBy,
       });
+
+      // A full draw starts everyone's invites over; a partial one keeps the phase
+      await transitionEvent(tx, event, isPartialRegeneration ? event.status as EventStatus : "DRAWN");
+
+      return drawCommitment;
     });
 
     return NextResponse.json({
       success: true,
       message: isPartialRegeneration
-        ? `Assignments regenerated for ${analysis.unlockedParticipants.length} participants. ` +
-          `${analysis.lockedParticipants.length} participants kept their original assignments.`
+        ? `Assignments regenerated for ${event.participants.length - lockedCount} participants. ` +
+          `${lockedCount} participants kept their original assignments.`
         : "Assignments generated successfully",
       participantCount: event.participants.length,
-      regeneratedCount: isPartialRegeneration
-        ? analysis.unlockedParticipants.length
-        : event.participants.length,
-      lockedCount: isPartialRegeneration ? analysis.lockedParticipants.length : 0,
+      regeneratedCount: event.participants.length - lockedCount,
+      lockedCount,
       isPartialRegeneration,
+      poolCount: draws.length,
+      repeatAvoidance: {
+        ...history,
+        message: describeHistoryAvoidance(history),
+      },
+      drawCommitment: {
+        commitment: commitment.commitment,
+        createdAt: commitment.createdAt,
+      },
     });
   } catch (error) {
     logError("Error generating assignments", error, {
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; scheduleId: string }>;
+}
+
+/**
+ * DELETE /api/admin/[adminToken]/reminders/[scheduleId]
+ * Stops a reminder schedule; reminders it already sent stay in the history
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, scheduleId } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const schedule = await prisma.reminderSchedule.findFirst({
+      where: {
+        id: scheduleId,
+        eventId: event.id,
+      },
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Reminder schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.reminderSchedule.delete({
+      where: { id: scheduleId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError("Error removing reminder schedule", error, {
+      endpoint: "DELETE /api/admin/[adminToken]/reminders/[scheduleId]",
+    });
+    return NextResponse.json(
+      { error: "Failed to remove reminder schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logError } from "@/lib/logger";
+import { describeReminderSchedule, validateReminderSchedule } from "@/lib/reminders";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/reminders
+ * Lists the event's reminder schedules
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        reminderSchedules: {
+          select: { id: true, anchor: true, days: true, createdAt: true },
+          orderBy: [{ anchor: "asc" }, { days: "asc" }],
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      schedules: event.reminderSchedules.map((schedule) => ({
+        ...schedule,
+        description: describeReminderSchedule(schedule),
+      })),
+    });
+  } catch (error) {
+    logError("Error fetching reminder schedules", error, {
+      endpoint: "GET /api/admin/[adminToken]/reminders",
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch reminder schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/[adminToken]/reminders
+ * Adds a schedule such as { anchor: "AFTER_INVITE", days: 3 } or { anchor: "BEFORE_EVENT", days: 7 }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { anchor, days } = body;
+
+    const problem = validateReminderSchedule(anchor, days);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    if (event.status === "ARCHIVED") {
+      return NextResponse.json(
+        { error: "Cannot change reminders - the event is archived" },
+        { status: 400 }
+      );
+    }
+
+    if (anchor === "BEFORE_EVENT" && !event.eventDate) {
+      return NextResponse.json(
+        { error: "Set an event date before adding reminders before the event" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.reminderSchedule.findUnique({
+      where: { eventId_anchor_days: { eventId: event.id, anchor, days } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `There is already a reminder ${describeReminderSchedule(existing)}` },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await prisma.reminderSchedule.create({
+      data: {
+        eventId: event.id,
+        anchor,
+        days,
+      },
+    });
+
+    return NextResponse.json({
+      id: schedule.id,
+      anchor: schedule.anchor,
+      days: schedule.days,
+      description: describeReminderSchedule(schedule),
+      createdAt: schedule.createdAt,
+    });
+  } catch (error) {
+    logError("Error adding reminder schedule", error, {
+      endpoint: "POST /api/admin/[adminToken]/reminders",
+    });
+    return NextResponse.json(
+      { error: "Failed to add reminder schedule" },
+      { status: 500 }
+    );
+  }
+}
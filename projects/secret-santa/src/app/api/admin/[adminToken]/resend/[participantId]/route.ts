@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import {
-  sendInviteEmailViaGmail,
-  GmailNotConnectedError,
-  GmailTokenRevokedError,
-} from "@/lib/gmail-send";
+import { sendInviteEmail } from "@/lib/email";
+import { loadEmailTemplate } from "@/lib/email-templates";
+import { createEmailTransport, emailTransportProblem } from "@/lib/email-transport";
+import { GmailNotConnectedError, GmailTokenRevokedError } from "@/lib/gmail-send";
+import { actionBlockedReason, transitionEvent } from "@/lib/event-lifecycle";
 import { logError } from "@/lib/logger";
+import { participantBudget } from "@/lib/pools";
+import { CHANNEL_LABELS, inviteChannel, recordInviteDelivery } from "@/lib/notification-channel";
+import { sendInviteSms } from "@/lib/sms";
+import { createSmsProvider, smsProviderProblem } from "@/lib/sms-provider";
 
 interface RouteParams {
   params: Promise<{ adminToken: string; participantId: string }>;
@@ -26,20 +30,10 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    if (!event.isLocked) {
+    const blocked = actionBlockedReason(event.status, "NOTIFY");
+    if (blocked) {
       return NextResponse.json(
-        { error: "Must generate assignments before sending notifications" },
-        { status: 400 }
-      );
-    }
-
-    // Check if Gmail is connected
-    if (!event.gmailCredential || event.gmailCredential.revokedAt) {
-      return NextResponse.json(
-        {
-          error:
-            "Gmail is not connected. Please connect your Gmail account to send emails.",
-        },
+        { error: `Cannot send notifications - ${blocked}` },
         { status: 400 }
       );
     }
@@ -49,6 +43,7 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
         id: participantId,
         eventId: event.id,
       },
+      include: { pool: { select: { budget: true } } },
     });
 
     if (!participant) {
@@ -58,42 +53,61 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    if (!participant.email) {
+    const channel = inviteChannel(participant);
+    if (!channel) {
       return NextResponse.json(
-        { error: "Participant has no email address" },
+        { error: "Participant has no email address or phone number" },
         { status: 400 }
       );
     }
 
+    // Check that the participant's channel can send
+    const channelProblem = channel === "EMAIL" ? emailTransportProblem(event) : smsProviderProblem();
+    if (channelProblem) {
+      return NextResponse.json({ error: channelProblem }, { status: 400 });
+    }
+
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const revealLink = `${appUrl}/reveal/${participant.accessToken}`;
+    const budget = participantBudget(participant.pool, event.budget);
 
-    const result = await sendInviteEmailViaGmail(
-      event.id,
-      participant.email,
-      participant.name,
-      event.name,
-      revealLink,
-      event.eventDate,
-      event.budget
-    );
+    const result =
+      channel === "EMAIL"
+        ? await sendInviteEmail(
+            createEmailTransport(event),
+            await loadEmailTemplate(prisma, event.id, "INVITE"),
+            participant.email!,
+            participant.name,
+            event.name,
+            revealLink,
+            event.eventDate,
+            budget
+          )
+        : await sendInviteSms(
+            createSmsProvider()!,
+            participant.phone!,
+            participant.name,
+            event.name,
+            revealLink,
+            event.eventDate,
+            budget
+          );
+
+    await recordInviteDelivery(prisma, participant.id, channel, result.success);
 
     if (result.success) {
-      await prisma.participant.update({
-        where: { id: participant.id },
-        data: {
-          notificationStatus: "SENT",
-          notifiedAt: new Date(),
-        },
-      });
+      if (event.status === "DRAWN") {
+        await transitionEvent(prisma, event, "NOTIFIED");
+      }
 
       return NextResponse.json({
         success: true,
-        message: `Email sent to ${participant.name}`,
+        channel,
+        message: `${CHANNEL_LABELS[channel]} sent to ${participant.name}`,
       });
     } else {
       return NextResponse.json(
-        { error: result.error || "Failed to send email" },
+        { error: result.error || `Failed to send ${CHANNEL_LABELS[channel].toLowerCase()}` },
         { status: 500 }
       );
     }
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { isAssignmentTopology, isExchangeMode } from "@/lib/derangement";
+import { emailTransportProblem, resolveEmailTransportKind } from "@/lib/email-transport";
+import { actionBlockedReason, isEventLocked, manualTransitions } from "@/lib/event-lifecycle";
 import { logError } from "@/lib/logger";
+import { readAttributes } from "@/lib/participant-attributes";
+import { smsProviderProblem } from "@/lib/sms-provider";
 
 interface RouteParams {
   params: Promise<{ adminToken: string }>;
@@ -19,15 +24,39 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
             name: true,
             email: true,
             phone: true,
+            group: { select: { id: true, name: true } },
+            pool: { select: { id: true, name: true } },
+            side: true,
+            attributes: true,
             accessToken: true,
-            assignedToId: true, // We'll convert this to a boolean
+            _count: { select: { givingAssignments: true } }, // We'll convert this to a boolean
             notificationStatus: true,
             notifiedAt: true,
+            emailStatus: true,
+            smsStatus: true,
             viewedAt: true,
             createdAt: true,
+            reminders: {
+              select: { id: true, channel: true, status: true, error: true, createdAt: true, sentAt: true },
+              orderBy: { createdAt: "asc" },
+            },
           },
           orderBy: { createdAt: "asc" },
         },
+        groups: {
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        },
+        pools: {
+          select: { id: true, name: true, budget: true },
+          orderBy: { createdAt: "asc" },
+        },
+        drawCommitments: {
+          select: { commitment: true, createdAt: true },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
+        gmailCredential: { select: { revokedAt: true } },
       },
     });
 
@@ -35,18 +64,25 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    // Transform participants to hide assignedToId but show hasAssignment
+    // Transform participants to hide assignments but show hasAssignment
     const participantsWithAssignmentStatus = event.participants.map((p) => ({
       id: p.id,
       name: p.name,
       email: p.email,
       phone: p.phone,
+      group: p.group,
+      pool: p.pool,
+      side: p.side,
+      attributes: readAttributes(p.attributes),
       accessToken: p.accessToken,
-      hasAssignment: p.assignedToId !== null,
+      hasAssignment: p._count.givingAssignments > 0,
       notificationStatus: p.notificationStatus,
       notifiedAt: p.notifiedAt,
+      emailStatus: p.emailStatus,
+      smsStatus: p.smsStatus,
       viewedAt: p.viewedAt,
       createdAt: p.createdAt,
+      reminders: p.reminders,
     }));
 
     return NextResponse.json({
@@ -55,9 +91,24 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
       budget: event.budget,
       eventDate: event.eventDate,
       rules: event.rules,
-      isLocked: event.isLocked,
+      status: event.status,
+      isLocked: isEventLocked(event.status),
+      nextStatuses: manualTransitions(event.status),
+      historyDepth: event.historyDepth,
+      topology: event.topology,
+      giftsPerParticipant: event.giftsPerParticipant,
+      exchangeMode: event.exchangeMode,
+      emailTransport: {
+        kind: resolveEmailTransportKind(event),
+        isDefault: event.emailTransport === null,
+        problem: emailTransportProblem(event),
+      },
+      smsProblem: smsProviderProblem(),
       createdAt: event.createdAt,
       participants: participantsWithAssignmentStatus,
+      groups: event.groups,
+      pools: event.pools,
+      drawCommitment: event.drawCommitments[0] ?? null,
     });
   } catch (error) {
     logError("Error fetching event", error, { endpoint: "GET /api/admin/[adminToken]" });
@@ -72,7 +123,50 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const { adminToken } = await params;
     const body = await request.json();
-    const { name, budget, eventDate, rules } = body;
+    const {
+      name,
+      budget,
+      eventDate,
+      rules,
+      historyDepth,
+      topology,
+      giftsPerParticipant,
+      exchangeMode,
+    } = body;
+
+    if (
+      historyDepth !== undefined &&
+      (!Number.isInteger(historyDepth) || historyDepth < 0 || historyDepth > 10)
+    ) {
+      return NextResponse.json(
+        { error: "History depth must be a whole number from 0 to 10" },
+        { status: 400 }
+      );
+    }
+
+    if (topology !== undefined && !isAssignmentTopology(topology)) {
+      return NextResponse.json(
+        { error: "Invalid draw style" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      giftsPerParticipant !== undefined &&
+      (!Number.isInteger(giftsPerParticipant) || giftsPerParticipant < 1 || giftsPerParticipant > 5)
+    ) {
+      return NextResponse.json(
+        { error: "Gifts each must be a whole number from 1 to 5" },
+        { status: 400 }
+      );
+    }
+
+    if (exchangeMode !== undefined && !isExchangeMode(exchangeMode)) {
+      return NextResponse.json(
+        { error: "Invalid exchange mode" },
+        { status: 400 }
+      );
+    }
 
     const event = await prisma.event.findUnique({
       where: { adminToken },
@@ -82,9 +176,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    if (event.isLocked) {
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
       return NextResponse.json(
-        { error: "Cannot modify event after assignments are generated" },
+        { error: `Cannot modify event - ${blocked}` },
         { status: 400 }
       );
     }
@@ -96,6 +191,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         budget: budget?.trim() || event.budget,
         eventDate: eventDate?.trim() || event.eventDate, // Store as YYYY-MM-DD string
         rules: rules?.trim() || event.rules,
+        historyDepth: historyDepth ?? event.historyDepth,
+        topology: topology ?? event.topology,
+        giftsPerParticipant: giftsPerParticipant ?? event.giftsPerParticipant,
+        exchangeMode: exchangeMode ?? event.exchangeMode,
       },
     });
 
@@ -105,7 +204,12 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       budget: updatedEvent.budget,
       eventDate: updatedEvent.eventDate,
       rules: updatedEvent.rules,
-      isLocked: updatedEvent.isLocked,
+      status: updatedEvent.status,
+      isLocked: isEventLocked(updatedEvent.status),
+      historyDepth: updatedEvent.historyDepth,
+      topology: updatedEvent.topology,
+      giftsPerParticipant: updatedEvent.giftsPerParticipant,
+      exchangeMode: updatedEvent.exchangeMode,
     });
   } catch (error) {
     logError("Error updating event", error, { endpoint: "PUT /api/admin/[adminToken]" });
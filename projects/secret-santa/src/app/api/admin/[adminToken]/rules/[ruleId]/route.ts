@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string; ruleId: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken, ruleId } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change matching rules - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.matchingRule.findFirst({
+      where: {
+        id: ruleId,
+        eventId: event.id,
+      },
+    });
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Matching rule not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.matchingRule.delete({
+      where: { id: ruleId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError("Error removing matching rule", error, {
+      endpoint: "DELETE /api/admin/[adminToken]/rules/[ruleId]",
+    });
+    return NextResponse.json(
+      { error: "Failed to remove matching rule" },
+      { status: 500 }
+    );
+  }
+}
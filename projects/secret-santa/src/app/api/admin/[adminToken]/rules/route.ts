@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { isAttributeRuleRelation } from "@/lib/derangement";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+import { MAX_ATTRIBUTE_LENGTH } from "@/lib/participant-attributes";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/rules
+ * Lists the attribute matching rules for an event
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        matchingRules: {
+          select: { id: true, attribute: true, relation: true, createdAt: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ rules: event.matchingRules });
+  } catch (error) {
+    logError("Error fetching matching rules", error, {
+      endpoint: "GET /api/admin/[adminToken]/rules",
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch matching rules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/[adminToken]/rules
+ * Adds a rule such as "only match within the same office" (SAME) or
+ * "never match within the same department" (DIFFERENT)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { attribute, relation } = body;
+
+    const trimmedAttribute = typeof attribute === "string" ? attribute.trim() : "";
+    if (!trimmedAttribute || trimmedAttribute.length > MAX_ATTRIBUTE_LENGTH) {
+      return NextResponse.json(
+        { error: "An attribute name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isAttributeRuleRelation(relation)) {
+      return NextResponse.json(
+        { error: "Relation must be SAME or DIFFERENT" },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "EDIT");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot change matching rules - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.matchingRule.findUnique({
+      where: { eventId_attribute: { eventId: event.id, attribute: trimmedAttribute } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `There is already a rule for ${trimmedAttribute}` },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.matchingRule.create({
+      data: {
+        eventId: event.id,
+        attribute: trimmedAttribute,
+        relation,
+      },
+    });
+
+    return NextResponse.json({
+      id: rule.id,
+      attribute: rule.attribute,
+      relation: rule.relation,
+      createdAt: rule.createdAt,
+    });
+  } catch (error) {
+    logError("Error adding matching rule", error, {
+      endpoint: "POST /api/admin/[adminToken]/rules",
+    });
+    return NextResponse.json(
+      { error: "Failed to add matching rule" },
+      { status: 500 }
+    );
+  }
+}
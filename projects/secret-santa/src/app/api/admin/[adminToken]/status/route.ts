@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  EVENT_STATUS_LABELS,
+  InvalidTransitionError,
+  isEventStatus,
+  manualTransitions,
+  transitionEvent,
+} from "@/lib/event-lifecycle";
+import { logError, logInfo } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * POST /api/admin/[adminToken]/status
+ * Moves the event to another phase by hand: open for signup, event day, revealed or
+ * archived. Drawn and notified follow from generating assignments and sending invites.
+ * Body: { status: EventStatus }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json();
+    const { status } = body;
+
+    if (!isEventStatus(status)) {
+      return NextResponse.json(
+        { error: "Invalid event status" },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      select: { id: true, status: true },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    if (!manualTransitions(event.status).includes(status)) {
+      return NextResponse.json(
+        { error: new InvalidTransitionError(event.status, status).message },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await transitionEvent(prisma, event, status);
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    logInfo("Event status changed", { eventId: event.id, from: event.status, to: status });
+
+    return NextResponse.json({
+      success: true,
+      status,
+      nextStatuses: manualTransitions(status),
+      message: `Event moved to ${EVENT_STATUS_LABELS[status]}`,
+    });
+  } catch (error) {
+    logError("Error changing event status", error, {
+      endpoint: "POST /api/admin/[adminToken]/status",
+    });
+    return NextResponse.json(
+      { error: "Failed to change event status" },
+      { status: 500 }
+    );
+  }
+}
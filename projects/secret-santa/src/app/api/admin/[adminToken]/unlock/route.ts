@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { sendRedrawNoticeEmail } from "@/lib/email";
+import { createEmailTransport, emailTransportProblem } from "@/lib/email-transport";
+import { GmailNotConnectedError, GmailTokenRevokedError } from "@/lib/gmail-send";
+import { actionBlockedReason, transitionEvent } from "@/lib/event-lifecycle";
+import { logError, logInfo } from "@/lib/logger";
+import { inviteChannel, type NotificationChannel } from "@/lib/notification-channel";
+import { sendRedrawNoticeSms } from "@/lib/sms";
+import { createSmsProvider } from "@/lib/sms-provider";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * POST /api/admin/[adminToken]/unlock
+ * Undoes the draw while nobody has viewed their assignment: clears the assignments and
+ * notification state and re-opens the event for editing.
+ * Body: { notify?: boolean } - tell everyone who was already invited that the draw is
+ * being redone, over the channel their invite used; anyone invited by text message while SMS
+ * isn't set up is listed in notNotified for the admin to tell
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+    const body = await request.json().catch(() => ({}));
+    const notify = body?.notify === true;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        participants: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            notificationStatus: true,
+            viewedAt: true,
+          },
+        },
+        gmailCredential: true,
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "UNDO_DRAW");
+    if (blocked) {
+      return NextResponse.json(
+        { error: `Cannot undo the draw - ${blocked}` },
+        { status: 400 }
+      );
+    }
+
+    const viewed = event.participants.filter(p => p.viewedAt !== null);
+    if (viewed.length > 0) {
+      return NextResponse.json(
+        {
+          error:
+            `The draw can't be undone - ${viewed.map(p => p.name).join(", ")} ` +
+            `${viewed.length === 1 ? "has" : "have"} already viewed their assignment. ` +
+            "Regenerate the assignments instead.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const invited = event.participants.flatMap((participant) => {
+      const channel = inviteChannel(participant);
+      return participant.notificationStatus === "SENT" && channel ? [{ participant, channel }] : [];
+    });
+    const smsProvider = createSmsProvider();
+
+    const transportProblem = emailTransportProblem(event);
+    if (notify && invited.some(i => i.channel === "EMAIL") && transportProblem) {
+      return NextResponse.json(
+        { error: `${transportProblem} Or undo the draw without emailing the redo notice.` },
+        { status: 400 }
+      );
+    }
+
+    const unlocked = await prisma.$transaction(async (tx) => {
+      // Someone may have opened their link since the check above
+      const viewedCount = await tx.participant.count({
+        where: { eventId: event.id, viewedAt: { not: null } },
+      });
+      if (viewedCount > 0) {
+        return false;
+      }
+
+      await tx.assignment.deleteMany({ where: { eventId: event.id } });
+      // Nobody saw the draw, so there is nothing left to verify or roll back to
+      await tx.drawCommitment.deleteMany({ where: { eventId: event.id } });
+      await tx.assignmentVersion.deleteMany({ where: { eventId: event.id } });
+      await tx.participant.updateMany({
+        where: { eventId: event.id },
+        data: {
+          notificationStatus: "NOT_SENT",
+          notifiedAt: null,
+        },
+      });
+      await transitionEvent(tx, event, "DRAFT");
+      return true;
+    });
+
+    if (!unlocked) {
+      return NextResponse.json(
+        {
+          error:
+            "The draw can't be undone - someone has just viewed their assignment. " +
+            "Regenerate the assignments instead.",
+        },
+        { status: 400 }
+      );
+    }
+
+    logInfo("Draw undone", {
+      eventId: event.id,
+      invitedCount: invited.length,
+      notify,
+    });
+
+    const results: {
+      name: string;
+      channel: NotificationChannel;
+      success: boolean;
+      error?: string;
+    }[] = [];
+    // Invited by text message, but there is no SMS provider to tell them with
+    const notNotified = notify
+      ? invited.filter(i => i.channel === "SMS" && !smsProvider).map(i => i.participant.name)
+      : [];
+
+    if (notify) {
+      const transport = createEmailTransport(event);
+      for (const { participant, channel } of invited) {
+        if (channel === "SMS" && !smsProvider) continue;
+        try {
+          const result =
+            channel === "EMAIL"
+              ? await sendRedrawNoticeEmail(
+                  transport,
+                  participant.email!,
+                  participant.name,
+                  event.name
+                )
+              : await sendRedrawNoticeSms(
+                  smsProvider!,
+                  participant.phone!,
+                  participant.name,
+                  event.name
+                );
+          results.push({
+            name: participant.name,
+            channel,
+            success: result.success,
+            error: result.error,
+          });
+        } catch (error) {
+          // The draw is already undone, so report the failure instead of failing the request
+          const message =
+            error instanceof GmailNotConnectedError || error instanceof GmailTokenRevokedError
+              ? "Gmail is not connected"
+              : error instanceof Error
+                ? error.message
+                : "Unknown error";
+          results.push({ name: participant.name, channel, success: false, error: message });
+        }
+      }
+    }
+
+    const sent = results.filter(r => r.success).length;
+    let message = "The draw was undone. You can edit the event and participants again.";
+    if (invited.length > 0) {
+      message += notify
+        ? ` Sent the redo notice to ${sent} of ${invited.length} invited participant(s).`
+        : ` ${invited.length} participant(s) were already invited - let them know the draw is being redone.`;
+    }
+    if (notNotified.length > 0) {
+      message += ` Text messages aren't set up, so tell ${notNotified.join(", ")} yourself.`;
+    }
+
+    return NextResponse.json({
+      success: true,
+      invitedCount: invited.length,
+      noticesSent: sent,
+      noticesFailed: results.length - sent,
+      notNotified,
+      results,
+      message,
+    });
+  } catch (error) {
+    logError("Error undoing draw", error, {
+      endpoint: "POST /api/admin/[adminToken]/unlock",
+    });
+    return NextResponse.json(
+      { error: "Failed to undo the draw" },
+      { status: 500 }
+    );
+  }
+}
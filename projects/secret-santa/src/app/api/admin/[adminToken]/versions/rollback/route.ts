@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { planRollback, readVersionAssignments } from "@/lib/assignment-versions";
+import { recordDrawCommitment } from "@/lib/draw-commitment";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError, logInfo } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * POST /api/admin/[adminToken]/versions/rollback
+ * Restores the previous assignment version, as long as nobody has viewed an assignment
+ * the rollback would change. The replaced version stays in the timeline, marked rolled back.
+ * Returns who needs a fresh notification because their recipient changed back.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    // Read and write in one serializable transaction, so the current version and who has
+    // viewed can't change between planning the rollback and applying it
+    const outcome = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { adminToken },
+          include: {
+            participants: {
+              select: {
+                id: true,
+                name: true,
+                viewedAt: true,
+              },
+            },
+            assignments: {
+              select: {
+                giverId: true,
+                receiverId: true,
+                round: true,
+              },
+            },
+            assignmentVersions: {
+              orderBy: { number: "asc" },
+            },
+          },
+        });
+
+        if (!event) {
+          return NextResponse.json({ error: "Event not found" }, { status: 404 });
+        }
+
+        const blocked = actionBlockedReason(event.status, "CHANGE_DRAW");
+        if (blocked) {
+          return NextResponse.json(
+            { error: `Cannot roll back - ${blocked}` },
+            { status: 400 }
+          );
+        }
+
+        const rollback = planRollback(
+          event.assignmentVersions,
+          event.assignments,
+          event.participants
+        );
+        if (!rollback.canRollBack || !rollback.current || !rollback.previous) {
+          return NextResponse.json(
+            { error: rollback.reason || "Cannot roll back" },
+            { status: 400 }
+          );
+        }
+
+        const { current, previous, changedGiverIds } = rollback;
+        const restored = readVersionAssignments(previous.assignments);
+
+        await tx.assignment.deleteMany({
+          where: { eventId: event.id },
+        });
+        await tx.assignment.createMany({
+          data: restored.map(assignment => ({ ...assignment, eventId: event.id })),
+        });
+        await tx.participant.updateMany({
+          where: { id: { in: changedGiverIds } },
+          data: {
+            notificationStatus: "NOT_SENT",
+            notifiedAt: null,
+          },
+        });
+        await tx.assignmentVersion.update({
+          where: { id: current.id },
+          data: { rolledBackAt: new Date() },
+        });
+        await recordDrawCommitment(tx, event.id);
+
+        return { event, current, previous, changedGiverIds };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+    if (outcome instanceof NextResponse) {
+      return outcome;
+    }
+    const { event, current, previous, changedGiverIds } = outcome;
+
+    const names = new Map(event.participants.map(p => [p.id, p.name]));
+    const renotify = changedGiverIds.map(id => ({ id, name: names.get(id) ?? "" }));
+
+    logInfo("Assignments rolled back", {
+      eventId: event.id,
+      fromVersion: current.number,
+      toVersion: previous.number,
+      changedCount: changedGiverIds.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      restoredNumber: previous.number,
+      renotify,
+      message:
+        `Rolled back to version ${previous.number}.` +
+        (renotify.length > 0
+          ? ` Send ${renotify.map(p => p.name).join(", ")} a fresh notification - their recipient changed.`
+          : ""),
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034") {
+      return NextResponse.json(
+        {
+          error:
+            "Someone viewed an assignment or the draw changed during the rollback. Please try again.",
+        },
+        { status: 400 }
+      );
+    }
+    logError("Error rolling back assignments", error, {
+      endpoint: "POST /api/admin/[adminToken]/versions/rollback",
+    });
+    return NextResponse.json(
+      { error: "Failed to roll back assignments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  findChangedGivers,
+  planRollback,
+  readVersionAssignments,
+} from "@/lib/assignment-versions";
+import { actionBlockedReason } from "@/lib/event-lifecycle";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ adminToken: string }>;
+}
+
+/**
+ * GET /api/admin/[adminToken]/versions
+ * The draw timeline, newest first, and whether the latest version can be rolled back
+ * Counts only - a version's assignments are never returned, so the admin stays blind
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { adminToken } = await params;
+
+    const event = await prisma.event.findUnique({
+      where: { adminToken },
+      include: {
+        participants: {
+          select: {
+            id: true,
+            name: true,
+            viewedAt: true,
+          },
+        },
+        assignments: {
+          select: {
+            giverId: true,
+            receiverId: true,
+            round: true,
+          },
+        },
+        assignmentVersions: {
+          orderBy: { number: "asc" },
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const blocked = actionBlockedReason(event.status, "CHANGE_DRAW");
+    const names = new Map(event.participants.map(p => [p.id, p.name]));
+    const rollback = planRollback(event.assignmentVersions, event.assignments, event.participants);
+
+    // How many givers each version changed, compared with the version it replaced
+    let previousLive: ReturnType<typeof readVersionAssignments> = [];
+    const versions = event.assignmentVersions.map(version => {
+      const assignments = readVersionAssignments(version.assignments);
+      const changedCount = findChangedGivers(previousLive, assignments).length;
+      if (version.rolledBackAt === null) {
+        previousLive = assignments;
+      }
+
+      return {
+        id: version.id,
+        number: version.number,
+        kind: version.kind,
+        generatedBy: version.generatedBy,
+        // Participants who have since withdrawn are left out
+        lockedParticipants: version.lockedParticipantIds
+          .filter(id => names.has(id))
+          .map(id => ({ id, name: names.get(id)! })),
+        assignmentCount: assignments.length,
+        changedCount,
+        isCurrent: version.id === rollback.current?.id,
+        rolledBackAt: version.rolledBackAt,
+        createdAt: version.createdAt,
+      };
+    });
+
+    return NextResponse.json({
+      versions: versions.reverse(),
+      rollback: {
+        canRollBack: !blocked && rollback.canRollBack,
+        reason: blocked ? `Cannot roll back - ${blocked}` : rollback.reason,
+        toNumber: rollback.previous?.number ?? null,
+        changedCount: rollback.changedGiverIds.length,
+      },
+    });
+  } catch (error) {
+    logError("Error fetching assignment versions", error, {
+      endpoint: "GET /api/admin/[adminToken]/versions",
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch draw history" },
+      { status: 500 }
+    );
+  }
+}
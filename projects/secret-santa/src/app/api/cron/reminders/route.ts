@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { sendReminderEmail } from "@/lib/email";
+import { createEmailTransport, emailTransportProblem } from "@/lib/email-transport";
+import { EVENT_STATUSES, canPerform } from "@/lib/event-lifecycle";
+import { GmailNotConnectedError, GmailTokenRevokedError } from "@/lib/gmail-send";
+import { logError, logInfo, logWarn } from "@/lib/logger";
+import { inviteChannel } from "@/lib/notification-channel";
+import { participantBudget } from "@/lib/pools";
+import { isReminderDue, type ReminderStatus } from "@/lib/reminders";
+import { sendReminderSms } from "@/lib/sms";
+import { createSmsProvider } from "@/lib/sms-provider";
+
+/**
+ * GET /api/cron/reminders
+ * Sends every reminder that is due, across all events. Meant to be called by a scheduler
+ * (see vercel.json) with "Authorization: Bearer <CRON_SECRET>"; safe to call more often or
+ * from overlapping runs, since each reminder is claimed before it is sent.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      logWarn("Reminder job called but CRON_SECRET is not set", {
+        endpoint: "GET /api/cron/reminders",
+      });
+      return NextResponse.json(
+        { error: "Reminders are not configured" },
+        { status: 500 }
+      );
+    }
+    if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const now = new Date();
+    const events = await prisma.event.findMany({
+      where: {
+        status: { in: EVENT_STATUSES.filter((status) => canPerform(status, "NOTIFY")) },
+        reminderSchedules: { some: {} },
+      },
+      include: {
+        reminderSchedules: true,
+        participants: {
+          where: { notifiedAt: { not: null }, viewedAt: null },
+          include: { pool: { select: { budget: true } } },
+        },
+        gmailCredential: true,
+      },
+    });
+
+    const smsProvider = createSmsProvider();
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    let sent = 0;
+    let failed = 0;
+    const skippedEvents: { eventId: string; reason: string }[] = [];
+
+    for (const event of events) {
+      const due = event.participants.flatMap((participant) => {
+        const channel = inviteChannel(participant);
+        if (!channel || (channel === "SMS" && !smsProvider)) return [];
+        return event.reminderSchedules
+          .filter((schedule) => isReminderDue(schedule, participant, event.eventDate, now))
+          .map((schedule) => ({ participant, channel, schedule }));
+      });
+      if (due.length === 0) continue;
+
+      // Leave the event's reminders unclaimed until its email can go out again
+      const transportProblem = due.some((d) => d.channel === "EMAIL")
+        ? emailTransportProblem(event)
+        : null;
+      if (transportProblem) {
+        skippedEvents.push({ eventId: event.id, reason: transportProblem });
+        continue;
+      }
+      const transport = createEmailTransport(event);
+
+      for (const { participant, channel, schedule } of due) {
+        let reminderId: string;
+        try {
+          const reminder = await prisma.reminder.create({
+            data: {
+              scheduleId: schedule.id,
+              participantId: participant.id,
+              invitedAt: participant.notifiedAt!,
+              channel,
+            },
+          });
+          reminderId = reminder.id;
+        } catch (error) {
+          // Another run already claimed this reminder
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            continue;
+          }
+          throw error;
+        }
+
+        const revealLink = `${appUrl}/reveal/${participant.accessToken}`;
+        let result: { success: boolean; error?: string };
+        try {
+          result =
+            channel === "EMAIL"
+              ? await sendReminderEmail(
+                  transport,
+                  participant.email!,
+                  participant.name,
+                  event.name,
+                  revealLink,
+                  event.eventDate,
+                  participantBudget(participant.pool, event.budget)
+                )
+              : await sendReminderSms(
+                  smsProvider!,
+                  participant.phone!,
+                  participant.name,
+                  event.name,
+                  revealLink
+                );
+        } catch (error) {
+          if (error instanceof GmailNotConnectedError || error instanceof GmailTokenRevokedError) {
+            logWarn("Gmail stopped working while sending reminders", { eventId: event.id });
+          }
+          result = {
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+
+        const status: ReminderStatus = result.success ? "SENT" : "FAILED";
+        await prisma.reminder.update({
+          where: { id: reminderId },
+          data: {
+            status,
+            error: result.success ? null : result.error ?? "Unknown error",
+            sentAt: result.success ? new Date() : null,
+          },
+        });
+        if (result.success) {
+          sent++;
+        } else {
+          failed++;
+        }
+      }
+    }
+
+    logInfo("Reminder job finished", { sent, failed, skippedEvents: skippedEvents.length });
+
+    return NextResponse.json({ success: true, sent, failed, skippedEvents });
+  } catch (error) {
+    logError("Error sending reminders", error, {
+      endpoint: "GET /api/cron/reminders",
+    });
+    return NextResponse.json(
+      { error: "Failed to send reminders" },
+      { status: 500 }
+    );
+  }
+}
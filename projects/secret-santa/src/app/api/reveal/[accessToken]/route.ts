@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { canPerform } from "@/lib/event-lifecycle";
 import { logError } from "@/lib/logger";
 
 interface RouteParams {
@@ -19,13 +20,22 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
             budget: true,
             eventDate: true,
             rules: true,
-            isLocked: true,
+            status: true,
+            drawCommitments: {
+              select: { commitment: true, createdAt: true },
+              orderBy: { createdAt: "desc" },
+              take: 1,
+            },
           },
         },
-        assignedTo: {
+        pool: {
+          select: { name: true, budget: true },
+        },
+        givingAssignments: {
           select: {
-            name: true,
+            receiver: { select: { name: true } },
           },
+          orderBy: { round: "asc" },
         },
       },
     });
@@ -37,7 +47,14 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    if (!participant.event.isLocked || !participant.assignedTo) {
+    if (participant.event.status === "ARCHIVED") {
+      return NextResponse.json(
+        { error: "This gift exchange has been archived" },
+        { status: 400 }
+      );
+    }
+
+    if (!canPerform(participant.event.status, "REVEAL") || participant.givingAssignments.length === 0) {
       return NextResponse.json(
         { error: "Assignments have not been generated yet" },
         { status: 400 }
@@ -57,13 +74,15 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       participantName: participant.name,
-      assignedToName: participant.assignedTo.name,
+      recipientNames: participant.givingAssignments.map((a) => a.receiver.name),
+      pool: participant.pool,
       event: {
         name: participant.event.name,
         budget: participant.event.budget,
         eventDate: participant.event.eventDate,
         rules: participant.event.rules,
       },
+      drawCommitment: participant.event.drawCommitments[0] ?? null,
     });
   } catch (error) {
     logError("Error revealing assignment", error, { endpoint: "GET /api/reveal/[accessToken]" });
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  COMMITMENT_ALGORITHM,
+  computeDrawCommitment,
+  isVerificationOpen,
+} from "@/lib/draw-commitment";
+import { logError } from "@/lib/logger";
+
+interface RouteParams {
+  params: Promise<{ commitment: string }>;
+}
+
+/**
+ * GET /api/verify/[commitment]
+ * Public check that the assignments match the commitment shown before anyone viewed
+ *
+ * Only opens after the event (see isVerificationOpen), since it reveals every pairing
+ * and the salt needed to recompute the hash independently.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { commitment } = await params;
+
+    const drawCommitment = await prisma.drawCommitment.findUnique({
+      where: { commitment: commitment.toLowerCase() },
+      include: {
+        event: {
+          select: {
+            name: true,
+            eventDate: true,
+            status: true,
+            participants: {
+              select: { id: true, name: true, viewedAt: true },
+            },
+            assignments: {
+              select: {
+                giverId: true,
+                receiverId: true,
+                round: true,
+              },
+              orderBy: [{ round: "asc" }, { createdAt: "asc" }],
+            },
+            drawCommitments: {
+              select: { commitment: true, createdAt: true },
+              orderBy: { createdAt: "desc" },
+              take: 1,
+            },
+          },
+        },
+      },
+    });
+
+    if (!drawCommitment) {
+      return NextResponse.json({ error: "Commitment not found" }, { status: 404 });
+    }
+
+    const { event } = drawCommitment;
+
+    if (!isVerificationOpen(event)) {
+      return NextResponse.json(
+        {
+          error: event.eventDate
+            ? "Verification opens the day after the event"
+            : "Verification opens once the gifts are revealed",
+        },
+        { status: 403 }
+      );
+    }
+
+    const latest = event.drawCommitments[0];
+    const isLatest = latest?.commitment === drawCommitment.commitment;
+    const names = new Map(event.participants.map((p) => [p.id, p.name]));
+    const viewsBeforeCommitment = event.participants.filter(
+      (p) => p.viewedAt !== null && p.viewedAt < drawCommitment.createdAt
+    ).length;
+
+    return NextResponse.json({
+      eventName: event.name,
+      commitment: drawCommitment.commitment,
+      committedAt: drawCommitment.createdAt,
+      // Participants who had already viewed when this commitment was made (partial regenerations)
+      viewsBeforeCommitment,
+      // A later regeneration replaces the assignments, so only the latest commitment can match
+      isLatest,
+      supersededBy: isLatest ? null : latest ?? null,
+      verified:
+        computeDrawCommitment(drawCommitment.salt, event.assignments) === drawCommitment.commitment,
+      algorithm: COMMITMENT_ALGORITHM,
+      salt: drawCommitment.salt,
+      assignments: event.assignments.map((a) => ({
+        round: a.round,
+        giverId: a.giverId,
+        giverName: names.get(a.giverId) ?? null,
+        receiverId: a.receiverId,
+        receiverName: names.get(a.receiverId) ?? null,
+      })),
+    });
+  } catch (error) {
+    logError("Error verifying draw", error, { endpoint: "GET /api/verify/[commitment]" });
+    return NextResponse.json(
+      { error: "Failed to verify draw" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,19 +3,22 @@
 import { useState, useEffect, useCallback } from "react";
 import { useParams } from "next/navigation";
 import dynamic from "next/dynamic";
+import { participantBudget } from "@/lib/pools";
 
 // Dynamically import confetti to avoid SSR issues
 const ReactConfetti = dynamic(() => import("react-confetti"), { ssr: false });
 
 interface RevealData {
   participantName: string;
-  assignedToName: string;
+  recipientNames: string[];
+  pool: { name: string; budget: string | null } | null;
   event: {
     name: string;
     budget: string | null;
     eventDate: string | null;
     rules: string | null;
   };
+  drawCommitment: { commitment: string; createdAt: string } | null;
 }
 
 type Phase = "loading" | "error" | "idle" | "opening" | "revealed";
@@ -178,18 +181,24 @@ function RevealedContent({
 }) {
   if (!show) return null;
 
+  const budget = participantBudget(data.pool, data.event.budget);
+
   return (
     <div className="text-center space-y-8 animate-fadeInUp">
       {/* Main reveal */}
       <div className="space-y-4">
         <p className="text-xl text-white/80 font-medium">
-          You&apos;re getting a gift for...
+          You&apos;re getting {data.recipientNames.length > 1 ? "gifts" : "a gift"} for...
         </p>
-        <div className="relative inline-block">
-          <h2 className="text-5xl md:text-6xl font-bold bg-gradient-to-r from-yellow-200 via-yellow-300 to-yellow-200 bg-clip-text text-transparent animate-shimmerText py-2">
-            {data.assignedToName}
-          </h2>
-          <div className="absolute -inset-4 bg-yellow-400/20 blur-2xl rounded-full -z-10" />
+        <div className="flex flex-col items-center">
+          {data.recipientNames.map((recipientName, index) => (
+            <div key={index} className="relative inline-block">
+              <h2 className="text-5xl md:text-6xl font-bold bg-gradient-to-r from-yellow-200 via-yellow-300 to-yellow-200 bg-clip-text text-transparent animate-shimmerText py-2">
+                {recipientName}
+              </h2>
+              <div className="absolute -inset-4 bg-yellow-400/20 blur-2xl rounded-full -z-10" />
+            </div>
+          ))}
         </div>
         <div className="text-6xl animate-bounce mt-4">🎄</div>
       </div>
@@ -200,6 +209,15 @@ function RevealedContent({
           <span>📋</span> Event Details
         </h3>
         <div className="space-y-4 text-left">
+          {data.pool && (
+            <div className="flex items-start gap-3">
+              <span className="text-2xl">🎯</span>
+              <div>
+                <p className="text-white/60 text-sm font-medium">Pool</p>
+                <p className="text-white">{data.pool.name}</p>
+              </div>
+            </div>
+          )}
           {data.event.eventDate && (
             <div className="flex items-start gap-3">
               <span className="text-2xl">📅</span>
@@ -216,12 +234,12 @@ function RevealedContent({
               </div>
             </div>
           )}
-          {data.event.budget && (
+          {budget && (
             <div className="flex items-start gap-3">
               <span className="text-2xl">💰</span>
               <div>
                 <p className="text-white/60 text-sm font-medium">Budget</p>
-                <p className="text-white">{data.event.budget}</p>
+                <p className="text-white">{budget}</p>
               </div>
             </div>
           )}
@@ -242,6 +260,21 @@ function RevealedContent({
         <span>Keep it secret, keep it safe!</span>
         <span className="text-lg">🤫</span>
       </div>
+
+      {/* Commitment to the draw, checkable after the event */}
+      {data.drawCommitment && (
+        <div className="mx-auto max-w-md text-white/50 text-xs space-y-1">
+          <p>Draw fingerprint (save it to check the draw was fair after the event):</p>
+          <a
+            href={`/api/verify/${data.drawCommitment.commitment}`}
+            className="block font-mono break-all underline"
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {data.drawCommitment.commitment}
+          </a>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+interface AssignmentVersion {
+  id: string;
+  number: number;
+  kind: "FULL" | "PARTIAL" | "LATE_ADDITION" | "WITHDRAWAL" | "REPAIR";
+  generatedBy: string | null;
+  lockedParticipants: { id: string; name: string }[];
+  assignmentCount: number;
+  changedCount: number;
+  isCurrent: boolean;
+  rolledBackAt: string | null;
+  createdAt: string;
+}
+
+interface RollbackStatus {
+  canRollBack: boolean;
+  reason?: string;
+  toNumber: number | null;
+  changedCount: number;
+}
+
+const KIND_LABELS: Record<AssignmentVersion["kind"], string> = {
+  FULL: "Full draw",
+  PARTIAL: "Partial regeneration",
+  LATE_ADDITION: "Late participant added",
+  WITHDRAWAL: "Participant withdrawn",
+  REPAIR: "Integrity repair",
+};
+
+interface DrawHistoryCardProps {
+  adminToken: string;
+  /** Changes on every draw, so the timeline refetches after each one */
+  drawCommitment: string | null;
+  onChange?: () => void;
+}
+
+export function DrawHistoryCard({ adminToken, drawCommitment, onChange }: DrawHistoryCardProps) {
+  const [versions, setVersions] = useState<AssignmentVersion[]>([]);
+  const [rollback, setRollback] = useState<RollbackStatus | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/versions`);
+      if (response.ok) {
+        const data = await response.json();
+        setVersions(data.versions);
+        setRollback(data.rollback);
+      }
+    } catch {
+      // Timeline failed to load - nothing else depends on it
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, drawCommitment]);
+
+  async function rollBack() {
+    if (!rollback?.toNumber) return;
+    if (
+      !window.confirm(
+        `Roll back to version ${rollback.toNumber}? ${rollback.changedCount} participant(s) ` +
+          "will get their previous recipient back and need a fresh notification."
+      )
+    ) {
+      return;
+    }
+
+    setRollingBack(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/versions/rollback`, {
+        method: "POST",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to roll back");
+      }
+
+      setMessage(result.message);
+      fetchVersions();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to roll back");
+    } finally {
+      setRollingBack(false);
+    }
+  }
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Draw History ({versions.length})</CardTitle>
+        <CardDescription>
+          Every draw and change to the assignments, newest first. Who drew whom is never shown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {rollback && (
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <p className="text-sm text-gray-600">
+                {rollback.canRollBack
+                  ? `You can roll back to version ${rollback.toNumber} - nobody has viewed an assignment it would change.`
+                  : rollback.reason}
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={rollBack}
+                disabled={!rollback.canRollBack || rollingBack}
+              >
+                {rollingBack ? "Rolling back..." : "Roll Back"}
+              </Button>
+            </div>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          {message && <p className="text-green-700 text-sm">{message}</p>}
+
+          <ul className="divide-y">
+            {versions.map((version) => (
+              <li key={version.id} className="py-2 text-sm">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <strong className={version.rolledBackAt ? "line-through text-gray-400" : ""}>
+                    v{version.number} · {KIND_LABELS[version.kind] ?? version.kind}
+                  </strong>
+                  {version.isCurrent && <Badge>Current</Badge>}
+                  {version.rolledBackAt && <Badge variant="outline">Rolled back</Badge>}
+                </div>
+                <p className="text-gray-500">
+                  {new Date(version.createdAt).toLocaleString()}
+                  {version.generatedBy && ` by ${version.generatedBy}`}
+                  {" "}- {version.changedCount} participant(s) got a new recipient
+                  {version.lockedParticipants.length > 0 &&
+                    `, kept: ${version.lockedParticipants.map((p) => p.name).join(", ")}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+type EmailTemplateKind = "INVITE" | "ADMIN_LINK";
+
+interface TemplateContent {
+  subject: string;
+  heading: string;
+  body: string;
+}
+
+interface EmailTemplate extends TemplateContent {
+  kind: EmailTemplateKind;
+  isDefault: boolean;
+  placeholders: string[];
+}
+
+interface Preview {
+  subject: string;
+  html: string;
+}
+
+const KIND_LABELS: Record<EmailTemplateKind, string> = {
+  INVITE: "Invitation",
+  ADMIN_LINK: "Admin link",
+};
+
+// Wait for a pause in typing before re-rendering the preview
+const PREVIEW_DELAY_MS = 400;
+
+interface EmailTemplatesCardProps {
+  adminToken: string;
+}
+
+export function EmailTemplatesCard({ adminToken }: EmailTemplatesCardProps) {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [kind, setKind] = useState<EmailTemplateKind>("INVITE");
+  const [draft, setDraft] = useState<TemplateContent | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = templates.find((t) => t.kind === kind);
+  const isDirty =
+    !!current &&
+    !!draft &&
+    (draft.subject !== current.subject ||
+      draft.heading !== current.heading ||
+      draft.body !== current.body);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/email-templates`);
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.templates);
+      }
+    } catch {
+      // Templates failed to load - emails still go out with the saved wording
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // Live preview of the draft, rendered by the server exactly as it would be sent
+  useEffect(() => {
+    if (!draft) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/admin/${adminToken}/email-templates/${kind}/preview`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          setPreviewError(result.error || "Failed to preview email");
+          return;
+        }
+        setPreview(result);
+        setPreviewError(null);
+      } catch {
+        setPreviewError("Failed to preview email");
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [adminToken, kind, draft]);
+
+  function selectTemplate(template: EmailTemplate) {
+    setKind(template.kind);
+    setDraft({ subject: template.subject, heading: template.heading, body: template.body });
+    setPreview(null);
+    setError(null);
+  }
+
+  function updateTemplate(saved: EmailTemplate) {
+    setTemplates((list) => list.map((t) => (t.kind === saved.kind ? { ...t, ...saved } : t)));
+    setDraft({ subject: saved.subject, heading: saved.heading, body: saved.body });
+  }
+
+  async function saveTemplate() {
+    if (!draft) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/email-templates/${kind}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save email template");
+      }
+
+      updateTemplate(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save email template");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function resetTemplate() {
+    if (!window.confirm(`Go back to the default ${KIND_LABELS[kind].toLowerCase()} email? Your wording will be lost.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/email-templates/${kind}`, {
+        method: "DELETE",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to reset email template");
+      }
+
+      updateTemplate(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset email template");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Email Wording</CardTitle>
+        <CardDescription>
+          Reword the emails this event sends. The layout, button and link stay the same.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {templates.map((template) => (
+              <Button
+                key={template.kind}
+                type="button"
+                size="sm"
+                variant={draft && template.kind === kind ? "default" : "outline"}
+                onClick={() => selectTemplate(template)}
+                disabled={saving}
+              >
+                {KIND_LABELS[template.kind]}
+                {!template.isDefault && " (edited)"}
+              </Button>
+            ))}
+          </div>
+
+          {draft && current && (
+            <>
+              <p className="text-sm text-gray-500">
+                Placeholders: {current.placeholders.map((p) => `{{${p}}}`).join(", ")}
+              </p>
+
+              <div>
+                <Label htmlFor="templateSubject">Subject</Label>
+                <Input
+                  id="templateSubject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+              <div>
+                <Label htmlFor="templateHeading">Heading</Label>
+                <Input
+                  id="templateHeading"
+                  value={draft.heading}
+                  onChange={(e) => setDraft({ ...draft, heading: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+              <div>
+                <Label htmlFor="templateBody">Body</Label>
+                <Textarea
+                  id="templateBody"
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  disabled={saving}
+                  rows={6}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave a blank line between paragraphs.</p>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="button" onClick={saveTemplate} disabled={saving || !isDirty}>
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+                {!current.isDefault && (
+                  <Button type="button" variant="outline" onClick={resetTemplate} disabled={saving}>
+                    Reset to Default
+                  </Button>
+                )}
+              </div>
+              {error && <p className="text-red-600 text-sm">{error}</p>}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Preview</p>
+                {previewError ? (
+                  <p className="text-sm text-red-600">{previewError}</p>
+                ) : (
+                  preview && (
+                    <>
+                      <p className="text-sm text-gray-600">
+                        <span className="font-medium">Subject:</span> {preview.subject}
+                      </p>
+                      <iframe
+                        title="Email preview"
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className="w-full h-[32rem] rounded-md border"
+                      />
+                    </>
+                  )
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+
+type EmailTransportKind = "GMAIL" | "SMTP" | "OUTBOX";
+
+// Mirrors lib/email-transport, which is server-only
+const TRANSPORT_LABELS: Record<EmailTransportKind, string> = {
+  GMAIL: "Gmail",
+  SMTP: "SMTP server",
+  OUTBOX: "Local outbox (not delivered)",
+};
+
+interface TransportStatus {
+  kind: EmailTransportKind;
+  isDefault: boolean;
+  defaultKind: EmailTransportKind;
+  smtpConfigured: boolean;
+  problem: string | null;
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface EmailTransportCardProps {
+  adminToken: string;
+  onChange?: () => void;
+}
+
+export function EmailTransportCard({ adminToken, onChange }: EmailTransportCardProps) {
+  const [status, setStatus] = useState<TransportStatus | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/email-transport`);
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch {
+      // Settings failed to load - the default transport still works
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  async function changeTransport(value: string) {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/email-transport`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind: value === "" ? null : value }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to change email settings");
+      }
+
+      setStatus(result);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change email settings");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Email Delivery</CardTitle>
+        <CardDescription>How invitations and other emails for this event are sent</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          <div className="max-w-sm">
+            <Label htmlFor="emailTransport">Send with</Label>
+            <select
+              id="emailTransport"
+              value={status.isDefault ? "" : status.kind}
+              onChange={(e) => changeTransport(e.target.value)}
+              disabled={saving}
+              className={selectClassName}
+            >
+              <option value="">Default ({TRANSPORT_LABELS[status.defaultKind]})</option>
+              {(Object.keys(TRANSPORT_LABELS) as EmailTransportKind[]).map((kind) => (
+                <option key={kind} value={kind} disabled={kind === "SMTP" && !status.smtpConfigured}>
+                  {TRANSPORT_LABELS[kind]}
+                  {kind === "SMTP" && !status.smtpConfigured && " - not configured"}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {status.kind === "OUTBOX" && (
+            <p className="text-sm text-amber-700">
+              Emails are only written to the server&apos;s outbox - nobody actually receives them.
+              Share links by hand instead.
+            </p>
+          )}
+          {status.problem && status.kind !== "GMAIL" && (
+            <p className="text-sm text-red-600">{status.problem}</p>
+          )}
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  EVENT_STATUS_LABELS,
+  type EventStatus,
+} from "@/lib/event-lifecycle";
+
+/** The main line of the lifecycle; ARCHIVED sits outside it */
+const PHASE_STEPS: EventStatus[] = ["DRAFT", "OPEN", "DRAWN", "NOTIFIED", "EVENT_DAY", "REVEALED"];
+
+const MOVE_LABELS: Partial<Record<EventStatus, string>> = {
+  DRAFT: "Close Signup",
+  OPEN: "Open for Signup",
+  EVENT_DAY: "Start Event Day",
+  REVEALED: "Reveal Gifts",
+  ARCHIVED: "Archive Event",
+};
+
+interface EventPhaseCardProps {
+  adminToken: string;
+  status: EventStatus;
+  nextStatuses: EventStatus[];
+  eventDate: string | null;
+  onChange?: () => void;
+}
+
+/**
+ * What to do next in this phase, shown under the steps
+ */
+function phaseHint(status: EventStatus, eventDate: string | null): string {
+  const today = new Date().toISOString().slice(0, 10);
+  switch (status) {
+    case "DRAFT":
+      return "Add participants and constraints, then generate assignments.";
+    case "OPEN":
+      return "Participants are still being collected. Generate assignments once everyone is in.";
+    case "DRAWN":
+      return "Assignments are ready - send the invites.";
+    case "NOTIFIED":
+      return eventDate && eventDate <= today
+        ? "It's the day of the exchange - move the event to event day."
+        : "Invites are out. Participants can view their assignment until the gifts are revealed.";
+    case "EVENT_DAY":
+      return "Participants can still look up their assignment. Reveal the gifts once they're exchanged.";
+    case "REVEALED":
+      return "Anyone can now verify the draw. Archive the event when you're done.";
+    case "ARCHIVED":
+      return "This event is archived - nothing can be changed and participant links no longer work.";
+  }
+}
+
+export function EventPhaseCard({
+  adminToken,
+  status,
+  nextStatuses,
+  eventDate,
+  onChange,
+}: EventPhaseCardProps) {
+  const [moving, setMoving] = useState<EventStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function moveTo(to: EventStatus) {
+    if (
+      (to === "ARCHIVED" || to === "REVEALED") &&
+      !window.confirm(`Move the event to ${EVENT_STATUS_LABELS[to]}? This can't be undone.`)
+    ) {
+      return;
+    }
+
+    setMoving(to);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: to }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to change event status");
+      }
+
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change event status");
+    } finally {
+      setMoving(null);
+    }
+  }
+
+  const currentStep = PHASE_STEPS.indexOf(status);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Event Phase: {EVENT_STATUS_LABELS[status]}</CardTitle>
+        <CardDescription>{phaseHint(status, eventDate)}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <ol className="flex flex-wrap gap-2 text-sm">
+            {PHASE_STEPS.map((step, i) => (
+              <li
+                key={step}
+                className={
+                  step === status
+                    ? "px-2 py-1 rounded-md bg-green-600 text-white font-medium"
+                    : i < currentStep || status === "ARCHIVED"
+                      ? "px-2 py-1 rounded-md bg-gray-100 text-gray-500"
+                      : "px-2 py-1 rounded-md border text-gray-400"
+                }
+              >
+                {EVENT_STATUS_LABELS[step]}
+              </li>
+            ))}
+          </ol>
+
+          {nextStatuses.length > 0 && (
+            <div className="flex gap-2 flex-wrap">
+              {nextStatuses.map((to) => (
+                <Button
+                  key={to}
+                  type="button"
+                  variant={to === "ARCHIVED" ? "outline" : "default"}
+                  onClick={() => moveTo(to)}
+                  disabled={moving !== null}
+                >
+                  {moving === to ? "Updating..." : MOVE_LABELS[to] ?? EVENT_STATUS_LABELS[to]}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+
+interface ParticipantOption {
+  id: string;
+  name: string;
+}
+
+interface Exclusion {
+  id: string;
+  participant1: ParticipantOption;
+  participant2: ParticipantOption;
+}
+
+interface ExclusionsCardProps {
+  adminToken: string;
+  participants: ParticipantOption[];
+  isLocked: boolean;
+  onChange?: () => void;
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+export function ExclusionsCard({
+  adminToken,
+  participants,
+  isLocked,
+  onChange,
+}: ExclusionsCardProps) {
+  const [exclusions, setExclusions] = useState<Exclusion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [participant1Id, setParticipant1Id] = useState("");
+  const [participant2Id, setParticipant2Id] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExclusions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/exclusions`);
+      if (response.ok) {
+        const data = await response.json();
+        setExclusions(data.exclusions);
+      }
+    } catch {
+      // List failed to load - the admin can still add exclusions
+    } finally {
+      setLoading(false);
+    }
+  }, [adminToken]);
+
+  // Re-fetch when participants change, since removing one also removes their exclusions
+  useEffect(() => {
+    fetchExclusions();
+  }, [fetchExclusions, participants.length]);
+
+  async function addExclusion(e: React.FormEvent) {
+    e.preventDefault();
+    if (!participant1Id || !participant2Id) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/exclusions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participant1Id, participant2Id }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to add exclusion");
+      }
+
+      setParticipant1Id("");
+      setParticipant2Id("");
+      fetchExclusions();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add exclusion");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeExclusion(exclusionId: string) {
+    setRemovingId(exclusionId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/exclusions/${exclusionId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to remove exclusion");
+      }
+
+      fetchExclusions();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove exclusion");
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  // Nothing to show once locked if no exclusions were ever set
+  if (isLocked && !loading && exclusions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Exclusions ({exclusions.length})</CardTitle>
+        <CardDescription>
+          {isLocked
+            ? "These pairs were kept apart when assignments were generated"
+            : "Pairs who should never draw each other (e.g. spouses)"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {!isLocked && (
+            <form onSubmit={addExclusion} className="flex gap-4 flex-wrap">
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="exclusionParticipant1">Person</Label>
+                <select
+                  id="exclusionParticipant1"
+                  value={participant1Id}
+                  onChange={(e) => setParticipant1Id(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Select...</option>
+                  {participants.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="exclusionParticipant2">Never draws / is drawn by</Label>
+                <select
+                  id="exclusionParticipant2"
+                  value={participant2Id}
+                  onChange={(e) => setParticipant2Id(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Select...</option>
+                  {participants
+                    .filter((p) => p.id !== participant1Id)
+                    .map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div className="flex items-end">
+                <Button type="submit" disabled={saving || !participant1Id || !participant2Id}>
+                  {saving ? "Adding..." : "Add"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading...</p>
+          ) : exclusions.length === 0 ? (
+            <p className="text-gray-500 text-sm">No exclusions yet</p>
+          ) : (
+            <ul className="divide-y">
+              {exclusions.map((exclusion) => (
+                <li key={exclusion.id} className="flex items-center justify-between py-2">
+                  <span className="text-sm">
+                    {exclusion.participant1.name} ↔ {exclusion.participant2.name}
+                  </span>
+                  {!isLocked && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => removeExclusion(exclusion.id)}
+                      disabled={removingId === exclusion.id}
+                      title="Remove exclusion"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
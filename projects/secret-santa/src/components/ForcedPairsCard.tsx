@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+
+interface ParticipantOption {
+  id: string;
+  name: string;
+}
+
+interface ForcedPair {
+  id: string;
+  giver: ParticipantOption;
+  receiver: ParticipantOption;
+}
+
+interface ForcedPairsCardProps {
+  adminToken: string;
+  participants: ParticipantOption[];
+  isLocked: boolean;
+  onChange?: () => void;
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+export function ForcedPairsCard({
+  adminToken,
+  participants,
+  isLocked,
+  onChange,
+}: ForcedPairsCardProps) {
+  const [forcedPairs, setForcedPairs] = useState<ForcedPair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [giverId, setGiverId] = useState("");
+  const [receiverId, setReceiverId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchForcedPairs = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/forced-pairs`);
+      if (response.ok) {
+        const data = await response.json();
+        setForcedPairs(data.forcedPairs);
+      }
+    } catch {
+      // List failed to load - the admin can still add pairs
+    } finally {
+      setLoading(false);
+    }
+  }, [adminToken]);
+
+  // Re-fetch when participants change, since removing one also removes their pairs
+  useEffect(() => {
+    fetchForcedPairs();
+  }, [fetchForcedPairs, participants.length]);
+
+  async function addForcedPair(e: React.FormEvent) {
+    e.preventDefault();
+    if (!giverId || !receiverId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/forced-pairs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ giverId, receiverId }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to add pair");
+      }
+
+      setGiverId("");
+      setReceiverId("");
+      fetchForcedPairs();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add pair");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeForcedPair(forcedPairId: string) {
+    setRemovingId(forcedPairId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/forced-pairs/${forcedPairId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to remove pair");
+      }
+
+      fetchForcedPairs();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove pair");
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  // Nothing to show once locked if no pairs were ever set
+  if (isLocked && !loading && forcedPairs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Must Give To ({forcedPairs.length})</CardTitle>
+        <CardDescription>
+          {isLocked
+            ? "These pairs were fixed when assignments were generated"
+            : "People who must buy for a specific person (e.g. an onboarding buddy). Everyone else is drawn around them."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {!isLocked && (
+            <form onSubmit={addForcedPair} className="flex gap-4 flex-wrap">
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="forcedPairGiver">Person</Label>
+                <select
+                  id="forcedPairGiver"
+                  value={giverId}
+                  onChange={(e) => setGiverId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Select...</option>
+                  {participants.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="forcedPairReceiver">Must give to</Label>
+                <select
+                  id="forcedPairReceiver"
+                  value={receiverId}
+                  onChange={(e) => setReceiverId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Select...</option>
+                  {participants
+                    .filter((p) => p.id !== giverId)
+                    .map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div className="flex items-end">
+                <Button type="submit" disabled={saving || !giverId || !receiverId}>
+                  {saving ? "Adding..." : "Add"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading...</p>
+          ) : forcedPairs.length === 0 ? (
+            <p className="text-gray-500 text-sm">No must-give-to pairs yet</p>
+          ) : (
+            <ul className="divide-y">
+              {forcedPairs.map((forcedPair) => (
+                <li key={forcedPair.id} className="flex items-center justify-between py-2">
+                  <span className="text-sm">
+                    {forcedPair.giver.name} → {forcedPair.receiver.name}
+                  </span>
+                  {!isLocked && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => removeForcedPair(forcedPair.id)}
+                      disabled={removingId === forcedPair.id}
+                      title="Remove pair"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
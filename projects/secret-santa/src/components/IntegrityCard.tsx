@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+interface IntegrityProblem {
+  kind: string;
+  pool: string | null;
+  round: number;
+  count: number;
+  message: string;
+}
+
+interface IntegrityReport {
+  valid: boolean;
+  assignmentCount: number;
+  problems: IntegrityProblem[];
+  affectedCount: number;
+  repair: { canRepair: boolean; reason?: string };
+}
+
+interface IntegrityCardProps {
+  adminToken: string;
+  onChange?: () => void;
+}
+
+export function IntegrityCard({ adminToken, onChange }: IntegrityCardProps) {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [repairing, setRepairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function checkAssignments() {
+    setChecking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/integrity`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to check assignments");
+      }
+      setReport(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to check assignments");
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  async function repair() {
+    if (
+      !window.confirm(
+        `Redraw the ${report?.affectedCount ?? 0} broken assignment(s)? ` +
+          "Everyone else keeps their recipient."
+      )
+    ) {
+      return;
+    }
+
+    setRepairing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/integrity/repair`, {
+        method: "POST",
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to repair assignments");
+      }
+
+      setMessage(result.message);
+      await checkAssignments();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to repair assignments");
+    } finally {
+      setRepairing(false);
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Assignment Check</CardTitle>
+        <CardDescription>
+          Re-checks the saved assignments: everyone gives and receives the right number of gifts,
+          and every exclusion, household and rule holds. Who drew whom is never shown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={checkAssignments}
+              disabled={checking || repairing}
+            >
+              {checking ? "Checking..." : "Check Assignments"}
+            </Button>
+            {report && !report.valid && (
+              <Button
+                type="button"
+                onClick={repair}
+                disabled={!report.repair.canRepair || repairing}
+              >
+                {repairing ? "Repairing..." : "Repair"}
+              </Button>
+            )}
+          </div>
+
+          {report?.valid && (
+            <p className="text-green-700 text-sm">
+              All {report.assignmentCount} assignment(s) are valid.
+            </p>
+          )}
+          {report && !report.valid && (
+            <div className="bg-red-50 border border-red-200 p-4 rounded-md">
+              <ul className="text-sm text-red-700 list-disc list-inside space-y-1">
+                {report.problems.map((problem) => (
+                  <li key={`${problem.kind}-${problem.pool}-${problem.round}`}>{problem.message}</li>
+                ))}
+              </ul>
+              {report.repair.reason && (
+                <p className="text-sm text-gray-600 mt-2">{report.repair.reason}</p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          {message && <p className="text-green-700 text-sm">{message}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
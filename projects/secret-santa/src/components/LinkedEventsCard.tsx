@@ -0,0 +1,234 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+
+interface LinkedEvent {
+  id: string;
+  name: string;
+  eventDate: string | null;
+  matchedParticipantCount: number;
+}
+
+interface LinkedEventsCardProps {
+  adminToken: string;
+  isLocked: boolean;
+  historyDepth: number;
+  onChange?: () => void;
+}
+
+export function LinkedEventsCard({
+  adminToken,
+  isLocked,
+  historyDepth,
+  onChange,
+}: LinkedEventsCardProps) {
+  const [linkedEvents, setLinkedEvents] = useState<LinkedEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [priorAdminLink, setPriorAdminLink] = useState("");
+  const [depth, setDepth] = useState(String(historyDepth));
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLinkedEvents = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/linked-events`);
+      if (response.ok) {
+        const data = await response.json();
+        setLinkedEvents(data.linkedEvents);
+      }
+    } catch {
+      // List failed to load - the admin can still link events
+    } finally {
+      setLoading(false);
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchLinkedEvents();
+  }, [fetchLinkedEvents]);
+
+  useEffect(() => {
+    setDepth(String(historyDepth));
+  }, [historyDepth]);
+
+  async function linkEvent(e: React.FormEvent) {
+    e.preventDefault();
+    if (!priorAdminLink.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/linked-events`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ priorAdminLink }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to link event");
+      }
+
+      setPriorAdminLink("");
+      fetchLinkedEvents();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to link event");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function unlinkEvent(linkId: string) {
+    setRemovingId(linkId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/linked-events/${linkId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to unlink event");
+      }
+
+      fetchLinkedEvents();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlink event");
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  async function saveDepth() {
+    const value = Number(depth);
+    if (value === historyDepth) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ historyDepth: value }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to update history depth");
+      }
+
+      onChange?.();
+    } catch (err) {
+      setDepth(String(historyDepth));
+      setError(err instanceof Error ? err.message : "Failed to update history depth");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Nothing to show once locked if no events were ever linked
+  if (isLocked && !loading && linkedEvents.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Previous Years ({linkedEvents.length})</CardTitle>
+        <CardDescription>
+          {isLocked
+            ? "Pairings from these events were avoided where possible"
+            : "Link earlier exchanges so people don't draw the same person again. Participants are matched by email."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {!isLocked && (
+            <>
+              <form onSubmit={linkEvent} className="flex gap-4 flex-wrap">
+                <div className="flex-1 min-w-[200px]">
+                  <Label htmlFor="priorAdminLink">Admin link of a previous event</Label>
+                  <Input
+                    id="priorAdminLink"
+                    value={priorAdminLink}
+                    onChange={(e) => setPriorAdminLink(e.target.value)}
+                    placeholder="https://.../admin/..."
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button type="submit" disabled={saving || !priorAdminLink.trim()}>
+                    {saving ? "Linking..." : "Link"}
+                  </Button>
+                </div>
+              </form>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="historyDepth">Avoid repeats from the last</Label>
+                <Input
+                  id="historyDepth"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={depth}
+                  onChange={(e) => setDepth(e.target.value)}
+                  onBlur={saveDepth}
+                  className="w-20"
+                  disabled={saving}
+                />
+                <span className="text-sm">event(s)</span>
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading...</p>
+          ) : linkedEvents.length === 0 ? (
+            <p className="text-gray-500 text-sm">No linked events yet</p>
+          ) : (
+            <ul className="divide-y">
+              {linkedEvents.map((linked) => (
+                <li key={linked.id} className="flex items-center justify-between py-2">
+                  <span className="text-sm">
+                    {linked.name}
+                    {linked.eventDate && <span className="text-gray-500"> ({linked.eventDate})</span>}
+                    <span className="text-gray-500">
+                      {" "}- {linked.matchedParticipantCount} returning participant(s)
+                    </span>
+                  </span>
+                  {!isLocked && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => unlinkEvent(linked.id)}
+                      disabled={removingId === linked.id}
+                      title="Unlink event"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+
+interface Pool {
+  id: string;
+  name: string;
+  budget: string | null;
+  participantCount: number;
+}
+
+interface PoolsCardProps {
+  adminToken: string;
+  isLocked: boolean;
+  onChange?: () => void;
+}
+
+export function PoolsCard({ adminToken, isLocked, onChange }: PoolsCardProps) {
+  const [pools, setPools] = useState<Pool[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [budget, setBudget] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPools = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/pools`);
+      if (response.ok) {
+        const data = await response.json();
+        setPools(data.pools);
+      }
+    } catch {
+      // List failed to load - the admin can still add pools
+    } finally {
+      setLoading(false);
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchPools();
+  }, [fetchPools]);
+
+  async function addPool(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/pools`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, budget }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to add pool");
+      }
+
+      setName("");
+      setBudget("");
+      fetchPools();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add pool");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removePool(poolId: string) {
+    setRemovingId(poolId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/pools/${poolId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to remove pool");
+      }
+
+      fetchPools();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove pool");
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  // Nothing to show once locked if the event was drawn as one pool
+  if (isLocked && !loading && pools.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Pools ({pools.length})</CardTitle>
+        <CardDescription>
+          {isLocked
+            ? "Each pool was drawn separately"
+            : "Separate draws within this event (e.g. Kids and Adults). People only draw others in their own pool; anyone without a pool is in the main draw."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {!isLocked && (
+            <form onSubmit={addPool} className="flex gap-4 flex-wrap">
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="poolName">Name</Label>
+                <Input
+                  id="poolName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Kids"
+                />
+              </div>
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="poolBudget">Budget (optional)</Label>
+                <Input
+                  id="poolBudget"
+                  value={budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                  placeholder="$20"
+                />
+              </div>
+              <div className="flex items-end">
+                <Button type="submit" disabled={saving || !name.trim()}>
+                  {saving ? "Adding..." : "Add"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading...</p>
+          ) : pools.length === 0 ? (
+            <p className="text-gray-500 text-sm">Everyone is in one draw</p>
+          ) : (
+            <ul className="divide-y">
+              {pools.map((pool) => (
+                <li key={pool.id} className="flex items-center justify-between py-2">
+                  <span className="text-sm">
+                    <strong>{pool.name}</strong>
+                    <span className="text-gray-500">
+                      {" "}- {pool.participantCount} participant(s)
+                      {pool.budget && `, budget ${pool.budget}`}
+                    </span>
+                  </span>
+                  {!isLocked && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => removePool(pool.id)}
+                      disabled={removingId === pool.id}
+                      title="Remove pool"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
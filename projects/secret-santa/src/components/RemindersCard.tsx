@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+
+type ReminderAnchor = "AFTER_INVITE" | "BEFORE_EVENT";
+
+interface ReminderSchedule {
+  id: string;
+  anchor: ReminderAnchor;
+  days: number;
+  description: string;
+}
+
+interface RemindersCardProps {
+  adminToken: string;
+  /** Reminders before the event need an event date */
+  hasEventDate: boolean;
+}
+
+const ANCHOR_LABELS: Record<ReminderAnchor, string> = {
+  AFTER_INVITE: "days after the invite",
+  BEFORE_EVENT: "days before the event",
+};
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+export function RemindersCard({ adminToken, hasEventDate }: RemindersCardProps) {
+  const [schedules, setSchedules] = useState<ReminderSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [anchor, setAnchor] = useState<ReminderAnchor>("AFTER_INVITE");
+  const [days, setDays] = useState("3");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/reminders`);
+      if (response.ok) {
+        const data = await response.json();
+        setSchedules(data.schedules);
+      }
+    } catch {
+      // List failed to load - the admin can still add reminders
+    } finally {
+      setLoading(false);
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  async function addSchedule(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/reminders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ anchor, days: Number(days) }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to add reminder");
+      }
+
+      fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add reminder");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeSchedule(scheduleId: string) {
+    setRemovingId(scheduleId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/reminders/${scheduleId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to remove reminder");
+      }
+
+      fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove reminder");
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Reminders ({schedules.length})</CardTitle>
+        <CardDescription>
+          Automatically remind invited participants who haven&apos;t opened their link yet, by
+          email or text message. Each reminder goes out once per invite.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <form onSubmit={addSchedule} className="flex gap-4 flex-wrap">
+            <div className="w-24">
+              <Label htmlFor="reminderDays">Days</Label>
+              <Input
+                id="reminderDays"
+                type="number"
+                min={1}
+                max={60}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+              />
+            </div>
+            <div className="flex-1 min-w-[200px]">
+              <Label htmlFor="reminderAnchor">When</Label>
+              <select
+                id="reminderAnchor"
+                value={anchor}
+                onChange={(e) => setAnchor(e.target.value as ReminderAnchor)}
+                className={selectClassName}
+              >
+                {(Object.keys(ANCHOR_LABELS) as ReminderAnchor[]).map((value) => (
+                  <option
+                    key={value}
+                    value={value}
+                    disabled={value === "BEFORE_EVENT" && !hasEventDate}
+                  >
+                    {ANCHOR_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-end">
+              <Button type="submit" disabled={saving || !days}>
+                {saving ? "Adding..." : "Add"}
+              </Button>
+            </div>
+          </form>
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading...</p>
+          ) : schedules.length === 0 ? (
+            <p className="text-gray-500 text-sm">No reminders scheduled</p>
+          ) : (
+            <ul className="divide-y">
+              {schedules.map((schedule) => (
+                <li key={schedule.id} className="flex items-center justify-between py-2">
+                  <span className="text-sm">Remind {schedule.description}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => removeSchedule(schedule.id)}
+                    disabled={removingId === schedule.id}
+                    title="Remove reminder"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
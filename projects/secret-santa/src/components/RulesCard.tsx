@@ -0,0 +1,236 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+
+type RuleRelation = "SAME" | "DIFFERENT";
+
+interface MatchingRule {
+  id: string;
+  attribute: string;
+  relation: RuleRelation;
+}
+
+export interface RuleAnalysisView {
+  attribute: string;
+  relation: RuleRelation;
+  description: string;
+  blockedPairCount: number;
+  binding: boolean;
+}
+
+interface RulesCardProps {
+  adminToken: string;
+  isLocked: boolean;
+  /** Attribute names already used by participants, offered as suggestions */
+  attributeNames: string[];
+  /** From the randomize check - empty until a full draw is possible to analyze */
+  ruleAnalysis: RuleAnalysisView[];
+  onChange?: () => void;
+}
+
+const RELATION_LABELS: Record<RuleRelation, string> = {
+  SAME: "Only match within the same",
+  DIFFERENT: "Never match within the same",
+};
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+export function RulesCard({
+  adminToken,
+  isLocked,
+  attributeNames,
+  ruleAnalysis,
+  onChange,
+}: RulesCardProps) {
+  const [rules, setRules] = useState<MatchingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [relation, setRelation] = useState<RuleRelation>("SAME");
+  const [attribute, setAttribute] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/rules`);
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+      }
+    } catch {
+      // List failed to load - the admin can still add rules
+    } finally {
+      setLoading(false);
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  async function addRule(e: React.FormEvent) {
+    e.preventDefault();
+    if (!attribute.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ attribute, relation }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to add rule");
+      }
+
+      setAttribute("");
+      fetchRules();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add rule");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeRule(ruleId: string) {
+    setRemovingId(ruleId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/${adminToken}/rules/${ruleId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to remove rule");
+      }
+
+      fetchRules();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove rule");
+    } finally {
+      setRemovingId(null);
+    }
+  }
+
+  // Nothing to show once locked if no rules were ever set
+  if (isLocked && !loading && rules.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Matching Rules ({rules.length})</CardTitle>
+        <CardDescription>
+          {isLocked
+            ? "These rules were applied when assignments were generated"
+            : "Rules over participant attributes (e.g. office, department, age). A rule only applies between people who both have the attribute."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {!isLocked && (
+            <form onSubmit={addRule} className="flex gap-4 flex-wrap">
+              <div className="flex-1 min-w-[200px]">
+                <Label htmlFor="ruleRelation">Rule</Label>
+                <select
+                  id="ruleRelation"
+                  value={relation}
+                  onChange={(e) => setRelation(e.target.value as RuleRelation)}
+                  className={selectClassName}
+                >
+                  {(Object.keys(RELATION_LABELS) as RuleRelation[]).map((value) => (
+                    <option key={value} value={value}>
+                      {RELATION_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1 min-w-[150px]">
+                <Label htmlFor="ruleAttribute">Attribute</Label>
+                <Input
+                  id="ruleAttribute"
+                  value={attribute}
+                  onChange={(e) => setAttribute(e.target.value)}
+                  placeholder="office"
+                  list="rule-attribute-options"
+                />
+                <datalist id="rule-attribute-options">
+                  {attributeNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="flex items-end">
+                <Button type="submit" disabled={saving || !attribute.trim()}>
+                  {saving ? "Adding..." : "Add"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-gray-500 text-sm">No matching rules yet</p>
+          ) : (
+            <ul className="divide-y">
+              {rules.map((rule) => {
+                const analysis = ruleAnalysis.find((a) => a.attribute === rule.attribute);
+                return (
+                  <li key={rule.id} className="flex items-center justify-between py-2">
+                    <span className="text-sm">
+                      {RELATION_LABELS[rule.relation]} <strong>{rule.attribute}</strong>
+                      {analysis && (
+                        <span className="text-gray-500">
+                          {" "}- rules out {analysis.blockedPairCount} pairing(s)
+                        </span>
+                      )}
+                      {analysis?.binding && (
+                        <Badge className="ml-2 bg-red-500">Blocking the draw</Badge>
+                      )}
+                    </span>
+                    {!isLocked && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => removeRule(rule.id)}
+                        disabled={removingId === rule.id}
+                        title="Remove rule"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import {
+  analyzeIntegrityRepair,
+  checkAssignmentIntegrity,
+  describeIntegrityProblem,
+  repairAssignments,
+  type IntegrityDraw,
+} from '../assignment-integrity';
+import { validateAssignments, validateConstraints } from '../derangement';
+
+const loop = (ids: string[], round = 0) =>
+  ids.map((giverId, i) => ({ giverId, receiverId: ids[(i + 1) % ids.length]!, round }));
+
+const mainDraw = (ids: string[], constraints: IntegrityDraw['constraints'] = {}): IntegrityDraw => ({
+  name: 'Main draw',
+  participantIds: ids,
+  constraints,
+});
+
+const ids = ['a', 'b', 'c', 'd', 'e'];
+
+describe('checkAssignmentIntegrity', () => {
+  it('should accept a valid draw', () => {
+    const report = checkAssignmentIntegrity([mainDraw(ids)], loop(ids), 1);
+
+    expect(report.valid).toBe(true);
+    expect(report.affectedGiverIds).toEqual([]);
+  });
+
+  it('should report two givers pointed at one receiver, keeping the viewer', () => {
+    const assignments = loop(ids).map(a => (a.giverId === 'c' ? { ...a, receiverId: 'b' } : a));
+
+    const report = checkAssignmentIntegrity([mainDraw(ids)], assignments, 1, new Set(['c']));
+
+    expect(report.problems).toEqual([
+      { kind: 'DUPLICATE_RECEIVER', pool: 'Main draw', round: 0, count: 1 },
+      { kind: 'NO_GIVER', pool: 'Main draw', round: 0, count: 1 },
+    ]);
+    expect(report.affectedGiverIds).toEqual(['a']);
+  });
+
+  it('should report missing and stray assignments', () => {
+    const assignments = [
+      ...loop(ids).filter(a => a.giverId !== 'e'),
+      { giverId: 'z', receiverId: 'a', round: 0 },
+    ];
+
+    const report = checkAssignmentIntegrity([mainDraw(ids)], assignments, 1);
+
+    expect(report.strayCount).toBe(1);
+    expect(report.problems.map(p => p.kind)).toEqual(['STRAY', 'MISSING', 'NO_GIVER']);
+    expect(report.affectedGiverIds).toEqual(['e']);
+  });
+
+  it('should report assignments that break a constraint', () => {
+    const report = checkAssignmentIntegrity(
+      [mainDraw(ids, { exclusions: [{ participant1Id: 'a', participant2Id: 'b' }] })],
+      loop(ids),
+      1
+    );
+
+    expect(report.problems).toEqual([{ kind: 'RULE', pool: 'Main draw', round: 0, count: 1 }]);
+    expect(report.affectedGiverIds).toEqual(['a']);
+  });
+
+  it('should report receivers outside the giver\'s pool', () => {
+    const kids = { name: 'Kids', participantIds: ['x', 'y', 'z'], constraints: {} };
+    const assignments = [
+      ...loop(ids),
+      { giverId: 'x', receiverId: 'a', round: 0 },
+      { giverId: 'y', receiverId: 'z', round: 0 },
+      { giverId: 'z', receiverId: 'y', round: 0 },
+    ];
+
+    const report = checkAssignmentIntegrity([mainDraw(ids), kids], assignments, 1);
+
+    expect(report.problems).toContainEqual({ kind: 'OUTSIDE_DRAW', pool: 'Kids', round: 0, count: 1 });
+    expect(report.affectedGiverIds).toEqual(['x']);
+  });
+
+  it('should blame a broken loop shape on every unviewed giver', () => {
+    const twoLoops = [...loop(['a', 'b']), ...loop(['c', 'd', 'e'])];
+
+    const report = checkAssignmentIntegrity(
+      [mainDraw(ids, { topology: 'SINGLE_CYCLE' })],
+      twoLoops,
+      1,
+      new Set(['a'])
+    );
+
+    expect(report.problems).toEqual([{ kind: 'TOPOLOGY', pool: 'Main draw', round: 0, count: 1 }]);
+    expect(report.affectedGiverIds.sort()).toEqual(['b', 'c', 'd', 'e']);
+  });
+
+  it('should report the same recipient in two rounds', () => {
+    const report = checkAssignmentIntegrity(
+      [mainDraw(ids, { topology: 'ANY_DERANGEMENT' })],
+      [...loop(ids), ...loop(ids, 1)],
+      2
+    );
+
+    expect(report.problems).toEqual([
+      { kind: 'REPEATED_PAIR', pool: 'Main draw', round: 1, count: 5 },
+    ]);
+  });
+});
+
+describe('describeIntegrityProblem', () => {
+  it('should name the pool and gift only when there is more than one', () => {
+    const problem = { kind: 'MISSING' as const, pool: 'Kids', round: 1, count: 2 };
+
+    expect(describeIntegrityProblem(problem, 1, 1)).toBe('2 participant(s) have no recipient');
+    expect(describeIntegrityProblem(problem, 2, 2)).toBe('Kids: Gift 2: 2 participant(s) have no recipient');
+  });
+});
+
+describe('analyzeIntegrityRepair', () => {
+  it('should refuse when an affected giver already viewed', () => {
+    const report = {
+      valid: false,
+      problems: [{ kind: 'SELF' as const, pool: 'Main draw', round: 0, count: 1 }],
+      affectedGiverIds: ['a'],
+      strayCount: 0,
+    };
+
+    expect(analyzeIntegrityRepair(report, new Set(['a'])).canRepair).toBe(false);
+    expect(analyzeIntegrityRepair(report, new Set(['b'])).canRepair).toBe(true);
+  });
+});
+
+describe('repairAssignments', () => {
+  it('should redraw only the affected givers into a valid draw', () => {
+    const draws = [mainDraw(ids, { topology: 'ANY_DERANGEMENT' })];
+    const broken = loop(ids).map(a => (a.giverId === 'c' ? { ...a, receiverId: 'b' } : a));
+    const report = checkAssignmentIntegrity(draws, broken, 1);
+
+    const repaired = repairAssignments(draws, broken, 1, report.affectedGiverIds);
+
+    const kept = broken.filter(a => !report.affectedGiverIds.includes(a.giverId));
+    const complete = new Map([...kept, ...repaired].map(a => [a.giverId, a.receiverId]));
+    expect(repaired.map(a => a.giverId).sort()).toEqual([...report.affectedGiverIds].sort());
+    expect(validateAssignments(ids, complete).valid).toBe(true);
+    expect(validateConstraints(complete, draws[0]!.constraints).valid).toBe(true);
+  });
+});
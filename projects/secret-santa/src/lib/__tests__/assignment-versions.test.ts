@@ -0,0 +1,96 @@
+import {
+  analyzeRollback,
+  findChangedGivers,
+  planRollback,
+  readVersionAssignments,
+} from '../assignment-versions';
+
+const loop = (ids: string[], round = 0) =>
+  ids.map((giverId, i) => ({ giverId, receiverId: ids[(i + 1) % ids.length]!, round }));
+
+const participants = (viewed: string[] = []) =>
+  ['a', 'b', 'c', 'd'].map(id => ({
+    id,
+    name: id.toUpperCase(),
+    viewedAt: viewed.includes(id) ? new Date() : null,
+  }));
+
+describe('readVersionAssignments', () => {
+  it('should skip malformed entries', () => {
+    expect(
+      readVersionAssignments([
+        { giverId: 'a', receiverId: 'b', round: 0 },
+        { giverId: 'a', receiverId: 'b' },
+        'a->b',
+      ])
+    ).toEqual([{ giverId: 'a', receiverId: 'b', round: 0 }]);
+    expect(readVersionAssignments(null)).toEqual([]);
+  });
+});
+
+describe('findChangedGivers', () => {
+  it('should list givers whose recipient changed in any round', () => {
+    const before = loop(['a', 'b', 'c', 'd']);
+    const after = loop(['a', 'b', 'd', 'c']);
+
+    expect(findChangedGivers(before, after).sort()).toEqual(['b', 'c', 'd']);
+    expect(findChangedGivers(before, before)).toEqual([]);
+  });
+});
+
+describe('analyzeRollback', () => {
+  const current = loop(['a', 'b', 'd', 'c']);
+  const previous = loop(['a', 'b', 'c', 'd']);
+
+  it('should allow a rollback when only unviewed assignments change', () => {
+    const analysis = analyzeRollback(current, previous, participants(['a']));
+
+    expect(analysis.canRollBack).toBe(true);
+    expect(analysis.changedGiverIds.sort()).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should refuse when someone viewed an assignment that would change', () => {
+    const analysis = analyzeRollback(current, previous, participants(['c']));
+
+    expect(analysis.canRollBack).toBe(false);
+    expect(analysis.reason).toContain('C already viewed');
+  });
+
+  it('should refuse when the participants changed in between', () => {
+    const analysis = analyzeRollback(
+      current,
+      loop(['a', 'b', 'c']),
+      participants()
+    );
+
+    expect(analysis.canRollBack).toBe(false);
+    expect(analysis.reason).toContain('D joined');
+  });
+});
+
+describe('planRollback', () => {
+  it('should skip rolled-back versions when finding the previous one', () => {
+    const versions = [
+      { id: 'v1', number: 1, rolledBackAt: null, assignments: loop(['a', 'b', 'c', 'd']) },
+      { id: 'v2', number: 2, rolledBackAt: new Date(), assignments: loop(['a', 'c', 'b', 'd']) },
+      { id: 'v3', number: 3, rolledBackAt: null, assignments: loop(['a', 'b', 'd', 'c']) },
+    ];
+
+    const plan = planRollback(versions, loop(['a', 'b', 'd', 'c']), participants());
+
+    expect(plan.current?.id).toBe('v3');
+    expect(plan.previous?.id).toBe('v1');
+    expect(plan.canRollBack).toBe(true);
+  });
+
+  it('should refuse when there is only one version', () => {
+    const plan = planRollback(
+      [{ id: 'v1', number: 1, rolledBackAt: null, assignments: [] }],
+      [],
+      participants()
+    );
+
+    expect(plan.canRollBack).toBe(false);
+    expect(plan.current?.id).toBe('v1');
+  });
+});
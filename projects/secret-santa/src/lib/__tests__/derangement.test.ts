@@ -1,4 +1,28 @@
-import { generateDerangement, generateAssignments } from '../derangement';
+import {
+  generateDerangement,
+  generateAssignments,
+  generatePartialAssignments,
+  generateMultiAssignments,
+  generatePartialMultiAssignments,
+  validateAssignments,
+  validateConstraints,
+  validateTopology,
+  validateSides,
+  analyzeRules,
+  analyzeFeasibility,
+  analyzePartialFeasibility,
+  describeFeasibilityProblem,
+  generateWithHistoryFallback,
+  findForcedPairProblems,
+  describeForcedPairProblem,
+  spliceParticipant,
+  repairWithdrawal,
+  analyzeRegeneration,
+  countBindingConstraints,
+  countCycles,
+  AssignmentImpossibleError,
+} from '../derangement';
+import { createSeededRandom } from '../random';
 
 describe('generateDerangement', () => {
   it('should throw error for less than 2 items', () => {
@@ -114,3 +138,1117 @@ describe('generateAssignments', () => {
     expect(assignments.size).toBe(3);
   });
 });
+
+describe('generateAssignments with exclusions', () => {
+  it('should never assign excluded pairs in either direction', () => {
+    const participantIds = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const exclusions = [
+      { participant1Id: 'a', participant2Id: 'b' },
+      { participant1Id: 'c', participant2Id: 'd' },
+    ];
+
+    for (let run = 0; run < 200; run++) {
+      const { assignments } = generateAssignments(participantIds, { exclusions });
+
+      expect(validateAssignments(participantIds, assignments).valid).toBe(true);
+      expect(assignments.get('a')).not.toBe('b');
+      expect(assignments.get('b')).not.toBe('a');
+      expect(assignments.get('c')).not.toBe('d');
+      expect(assignments.get('d')).not.toBe('c');
+    }
+  });
+
+  it('should throw AssignmentImpossibleError when exclusions cannot be satisfied', () => {
+    // With a↔c excluded, both a and c can only give to b
+    expect(() =>
+      generateAssignments(['a', 'b', 'c'], {
+        exclusions: [{ participant1Id: 'a', participant2Id: 'c' }],
+      })
+    ).toThrow(AssignmentImpossibleError);
+  });
+
+  it('should find an assignment when exclusions rule out every single cycle', () => {
+    // a↔b and c↔d excluded: only cross-pair arrangements remain
+    const participantIds = ['a', 'b', 'c', 'd'];
+    const { assignments } = generateAssignments(participantIds, {
+      exclusions: [
+        { participant1Id: 'a', participant2Id: 'b' },
+        { participant1Id: 'c', participant2Id: 'd' },
+      ],
+    });
+
+    expect(validateAssignments(participantIds, assignments).valid).toBe(true);
+    expect(['c', 'd']).toContain(assignments.get('a'));
+    expect(['a', 'b']).toContain(assignments.get('c'));
+  });
+});
+
+describe('generatePartialAssignments with exclusions', () => {
+  it('should respect exclusions among unlocked participants', () => {
+    // L1 viewed and gives to U1; U1..U3 must cover L1, U2 and U3
+    for (let run = 0; run < 100; run++) {
+      const { assignments } = generatePartialAssignments(
+        ['U1', 'U2', 'U3'],
+        new Map([['L1', 'U1']]),
+        ['L1'],
+        { exclusions: [{ participant1Id: 'U1', participant2Id: 'L1' }] }
+      );
+
+      expect(assignments.get('U1')).not.toBe('L1');
+      expect(validateConstraints(assignments, {
+        exclusions: [{ participant1Id: 'U1', participant2Id: 'L1' }],
+      }).valid).toBe(true);
+    }
+  });
+});
+
+describe('analyzeFeasibility', () => {
+  const names = new Map([
+    ['a', 'Sam'],
+    ['b', 'Pat'],
+    ['c', 'Alex'],
+    ['d', 'Jordan'],
+  ]);
+
+  it('should report feasible when no constraints block the assignment', () => {
+    const result = analyzeFeasibility(['a', 'b', 'c']);
+
+    expect(result.feasible).toBe(true);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('should name givers who have no eligible recipients', () => {
+    // Sam is excluded from everyone else
+    const result = analyzeFeasibility(['a', 'b', 'c', 'd'], {
+      exclusions: [
+        { participant1Id: 'a', participant2Id: 'b' },
+        { participant1Id: 'a', participant2Id: 'c' },
+        { participant1Id: 'a', participant2Id: 'd' },
+      ],
+    });
+
+    expect(result.feasible).toBe(false);
+    const giverProblem = result.problems.find(p => p.side === 'giver')!;
+    expect(giverProblem.participantIds).toEqual(['a']);
+    expect(describeFeasibilityProblem(giverProblem, names)).toBe(
+      'Sam has no eligible recipients left'
+    );
+    expect(
+      result.problems.some(p => p.side === 'receiver' && p.participantIds.includes('a'))
+    ).toBe(true);
+  });
+
+  it('should find a group of givers competing for too few recipients', () => {
+    // Sam and Alex can each only give to Pat
+    const result = analyzeFeasibility(['a', 'b', 'c'], {
+      exclusions: [{ participant1Id: 'a', participant2Id: 'c' }],
+    });
+
+    expect(result.feasible).toBe(false);
+    const giverProblem = result.problems.find(p => p.side === 'giver')!;
+    expect(giverProblem.participantIds.sort()).toEqual(['a', 'c']);
+    expect(giverProblem.candidateIds).toEqual(['b']);
+    expect(describeFeasibilityProblem(giverProblem, names)).toBe(
+      'Sam and Alex can only give to Pat, so at least one of them would be left without a recipient'
+    );
+    expect(describeFeasibilityProblem(giverProblem, names, false)).toBe(
+      'Sam and Alex have only 1 eligible recipient between them'
+    );
+  });
+
+  it('should agree with the generator on partial regeneration', () => {
+    // L1 viewed and gives to U1, so an unlocked participant must give to L1 -
+    // but every one of them is excluded from L1
+    const result = analyzePartialFeasibility(
+      ['U1', 'U2', 'U3'],
+      new Map([['L1', 'U1']]),
+      ['L1'],
+      {
+        exclusions: [
+          { participant1Id: 'U1', participant2Id: 'L1' },
+          { participant1Id: 'U2', participant2Id: 'L1' },
+          { participant1Id: 'U3', participant2Id: 'L1' },
+        ],
+      }
+    );
+
+    expect(result.feasible).toBe(false);
+    expect(result.unmatchedGiverIds).toHaveLength(1);
+    expect(() =>
+      generatePartialAssignments(['U1', 'U2', 'U3'], new Map([['L1', 'U1']]), ['L1'], {
+        exclusions: [
+          { participant1Id: 'U1', participant2Id: 'L1' },
+          { participant1Id: 'U2', participant2Id: 'L1' },
+          { participant1Id: 'U3', participant2Id: 'L1' },
+        ],
+      })
+    ).toThrow(AssignmentImpossibleError);
+  });
+});
+
+describe('generateAssignments with groups', () => {
+  it('should never assign anyone within their own group', () => {
+    // Three households of two plus two singles
+    const participantIds = ['a1', 'a2', 'b1', 'b2', 'c1', 'c2', 'd', 'e'];
+    const groups = new Map([
+      ['a1', 'A'],
+      ['a2', 'A'],
+      ['b1', 'B'],
+      ['b2', 'B'],
+      ['c1', 'C'],
+      ['c2', 'C'],
+    ]);
+
+    for (let run = 0; run < 200; run++) {
+      const { assignments } = generateAssignments(participantIds, { groups });
+
+      expect(validateAssignments(participantIds, assignments).valid).toBe(true);
+      for (const [giver, receiver] of assignments) {
+        const giverGroup = groups.get(giver);
+        if (giverGroup) {
+          expect(groups.get(receiver)).not.toBe(giverGroup);
+        }
+      }
+    }
+  });
+
+  it('should throw when one household is more than half the event', () => {
+    // Three of four in one household: they need three outside recipients but only one exists
+    const groups = new Map([
+      ['a', 'A'],
+      ['b', 'A'],
+      ['c', 'A'],
+    ]);
+
+    expect(() => generateAssignments(['a', 'b', 'c', 'd'], { groups })).toThrow(
+      AssignmentImpossibleError
+    );
+  });
+
+  it('should report same-group pairs in validateConstraints', () => {
+    const groups = new Map([
+      ['a', 'A'],
+      ['b', 'A'],
+    ]);
+    const result = validateConstraints(new Map([['a', 'b'], ['b', 'c'], ['c', 'a']]), { groups });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('Same-group pair');
+  });
+});
+
+describe('generateWithHistoryFallback', () => {
+  const participantIds = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should avoid every pairing from past draws when possible', () => {
+    const lastYear = [
+      { giverId: 'a', receiverId: 'b' },
+      { giverId: 'b', receiverId: 'c' },
+      { giverId: 'c', receiverId: 'd' },
+      { giverId: 'd', receiverId: 'e' },
+      { giverId: 'e', receiverId: 'a' },
+    ];
+
+    for (let run = 0; run < 100; run++) {
+      const result = generateWithHistoryFallback([lastYear], (avoidPairs) =>
+        generateAssignments(participantIds, { avoidPairs })
+      );
+
+      expect(result.history).toEqual({ requestedDepth: 1, depthUsed: 1, repeatedPairCount: 0 });
+      for (const { giverId, receiverId } of lastYear) {
+        expect(result.assignments.get(giverId)).not.toBe(receiverId);
+      }
+    }
+  });
+
+  it('should drop the oldest draws first when history blocks the draw', () => {
+    // Among three people there are only two derangements; avoiding both leaves nothing
+    const ids = ['a', 'b', 'c'];
+    const lastYear = [
+      { giverId: 'a', receiverId: 'b' },
+      { giverId: 'b', receiverId: 'c' },
+      { giverId: 'c', receiverId: 'a' },
+    ];
+    const twoYearsAgo = [
+      { giverId: 'a', receiverId: 'c' },
+      { giverId: 'c', receiverId: 'b' },
+      { giverId: 'b', receiverId: 'a' },
+    ];
+
+    const result = generateWithHistoryFallback([lastYear, twoYearsAgo], (avoidPairs) =>
+      generateAssignments(ids, { avoidPairs })
+    );
+
+    expect(result.history).toEqual({ requestedDepth: 2, depthUsed: 1, repeatedPairCount: 3 });
+    expect(result.assignments.get('a')).toBe('c');
+  });
+
+  it('should still throw when the other constraints are impossible', () => {
+    const exclusions = [
+      { participant1Id: 'a', participant2Id: 'b' },
+      { participant1Id: 'a', participant2Id: 'c' },
+    ];
+
+    expect(() =>
+      generateWithHistoryFallback([[{ giverId: 'b', receiverId: 'c' }]], (avoidPairs) =>
+        generateAssignments(['a', 'b', 'c'], { exclusions, avoidPairs })
+      )
+    ).toThrow(AssignmentImpossibleError);
+  });
+});
+
+describe('assignment topology', () => {
+  const participantIds = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+  function countCycles(assignments: Map<string, string>): number[] {
+    const seen = new Set<string>();
+    const lengths: number[] = [];
+    for (const start of assignments.keys()) {
+      if (seen.has(start)) continue;
+      let length = 0;
+      let current = start;
+      while (!seen.has(current)) {
+        seen.add(current);
+        length++;
+        current = assignments.get(current)!;
+      }
+      lengths.push(length);
+    }
+    return lengths;
+  }
+
+  it('should produce a single loop by default', () => {
+    for (let run = 0; run < 100; run++) {
+      const { assignments } = generateAssignments(participantIds);
+      expect(countCycles(assignments)).toEqual([participantIds.length]);
+    }
+  });
+
+  it('should produce every derangement shape with ANY_DERANGEMENT', () => {
+    const shapes = new Set<string>();
+    for (let run = 0; run < 500; run++) {
+      const { assignments } = generateAssignments(['a', 'b', 'c', 'd'], {
+        topology: 'ANY_DERANGEMENT',
+      });
+      expect(validateAssignments(['a', 'b', 'c', 'd'], assignments).valid).toBe(true);
+      shapes.add(countCycles(assignments).sort().join(','));
+    }
+
+    // Four people: either one loop of four or two mutual pairs
+    expect(shapes).toEqual(new Set(['4', '2,2']));
+  });
+
+  it('should never produce mutual pairs with NO_MUTUAL_PAIRS', () => {
+    for (let run = 0; run < 200; run++) {
+      const { assignments } = generateAssignments(participantIds, {
+        topology: 'NO_MUTUAL_PAIRS',
+      });
+      expect(countCycles(assignments).every((length) => length >= 3)).toBe(true);
+    }
+  });
+
+  it('should keep a single loop under tight exclusions', () => {
+    // a can only give to b or c, and b only to c or d - few arrangements remain
+    const exclusions = [
+      { participant1Id: 'a', participant2Id: 'd' },
+      { participant1Id: 'a', participant2Id: 'e' },
+      { participant1Id: 'b', participant2Id: 'e' },
+    ];
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+
+    for (let run = 0; run < 100; run++) {
+      const { assignments } = generateAssignments(ids, { exclusions, topology: 'SINGLE_CYCLE' });
+      expect(countCycles(assignments)).toEqual([ids.length]);
+      expect(validateConstraints(assignments, { exclusions }).valid).toBe(true);
+    }
+  });
+
+  it('should throw when the topology cannot be met', () => {
+    // Two households of two: only the mutual cross pairs or a loop of four remain,
+    // and excluding a↔d and b↔c leaves only a↔c and b↔d
+    const groups = new Map([
+      ['a', 'A'],
+      ['b', 'A'],
+      ['c', 'C'],
+      ['d', 'C'],
+    ]);
+    const exclusions = [
+      { participant1Id: 'a', participant2Id: 'd' },
+      { participant1Id: 'b', participant2Id: 'c' },
+    ];
+
+    expect(() =>
+      generateAssignments(['a', 'b', 'c', 'd'], { groups, exclusions, topology: 'NO_MUTUAL_PAIRS' })
+    ).toThrow(AssignmentImpossibleError);
+    expect(() =>
+      generateAssignments(['a', 'b', 'c', 'd'], { groups, exclusions, topology: 'ANY_DERANGEMENT' })
+    ).not.toThrow();
+  });
+
+  it('should keep the whole event in one loop during partial regeneration', () => {
+    const lockedAssignments = new Map([['L1', 'U1']]);
+
+    for (let run = 0; run < 100; run++) {
+      const { assignments } = generatePartialAssignments(
+        ['U1', 'U2', 'U3', 'U4'],
+        lockedAssignments,
+        ['L1'],
+        { topology: 'SINGLE_CYCLE' }
+      );
+      expect(countCycles(new Map([...lockedAssignments, ...assignments]))).toEqual([5]);
+    }
+  });
+
+  it('should report mutual pairs in validateTopology', () => {
+    const result = validateTopology(
+      new Map([['a', 'b'], ['b', 'a'], ['c', 'd'], ['d', 'c']]),
+      'NO_MUTUAL_PAIRS'
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+});
+
+describe('generateMultiAssignments', () => {
+  const participantIds = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+  function recipientsByGiver(rounds: Map<string, string>[]): Map<string, string[]> {
+    const recipients = new Map<string, string[]>();
+    for (const round of rounds) {
+      for (const [giver, receiver] of round) {
+        recipients.set(giver, [...(recipients.get(giver) ?? []), receiver]);
+      }
+    }
+    return recipients;
+  }
+
+  it('should give everyone k distinct recipients and k gifts', () => {
+    for (let run = 0; run < 100; run++) {
+      const { rounds } = generateMultiAssignments(participantIds, 3);
+
+      expect(rounds).toHaveLength(3);
+      const receivedCounts = new Map<string, number>();
+      for (const [giver, recipients] of recipientsByGiver(rounds)) {
+        expect(new Set(recipients).size).toBe(3);
+        expect(recipients).not.toContain(giver);
+        for (const receiver of recipients) {
+          receivedCounts.set(receiver, (receivedCounts.get(receiver) ?? 0) + 1);
+        }
+      }
+      for (const id of participantIds) {
+        expect(receivedCounts.get(id)).toBe(3);
+      }
+    }
+  });
+
+  it('should respect constraints and topology in every round', () => {
+    const exclusions = [{ participant1Id: 'a', participant2Id: 'b' }];
+
+    for (let run = 0; run < 100; run++) {
+      const { rounds } = generateMultiAssignments(participantIds, 2, {
+        exclusions,
+        topology: 'NO_MUTUAL_PAIRS',
+      });
+
+      for (const round of rounds) {
+        expect(validateConstraints(round, { exclusions }).valid).toBe(true);
+      }
+      // No mutual pairs even across rounds
+      for (const [giver, recipients] of recipientsByGiver(rounds)) {
+        for (const receiver of recipients) {
+          expect(recipientsByGiver(rounds).get(receiver)).not.toContain(giver);
+        }
+      }
+    }
+  });
+
+  it('should require more participants than gifts each', () => {
+    expect(() => generateMultiAssignments(['a', 'b', 'c'], 3)).toThrow('Need more than 3');
+  });
+
+  it('should keep locked rounds when regenerating partially', () => {
+    // L1 viewed: gives to U1 in round 0 and U2 in round 1
+    const lockedRounds = [new Map([['L1', 'U1']]), new Map([['L1', 'U2']])];
+
+    for (let run = 0; run < 100; run++) {
+      const { rounds } = generatePartialMultiAssignments(
+        ['U1', 'U2', 'U3', 'U4'],
+        lockedRounds,
+        ['L1'],
+        { topology: 'ANY_DERANGEMENT' }
+      );
+
+      expect(rounds).toHaveLength(2);
+      rounds.forEach((round, index) => {
+        const full = new Map([...lockedRounds[index]!, ...round]);
+        expect(validateAssignments(['L1', 'U1', 'U2', 'U3', 'U4'], full).valid).toBe(true);
+      });
+      for (const [giver, recipients] of recipientsByGiver(rounds)) {
+        expect(recipients[0]).not.toBe(recipients[1]);
+        expect(recipients).not.toContain(giver);
+      }
+    }
+  });
+});
+
+describe('forced pairs', () => {
+  const participantIds = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+  it('should always keep forced pairs and draw everyone else around them', () => {
+    const forcedPairs = [
+      { giverId: 'a', receiverId: 'b' },
+      { giverId: 'b', receiverId: 'c' },
+      { giverId: 'e', receiverId: 'd' },
+    ];
+
+    for (let run = 0; run < 100; run++) {
+      const { assignments } = generateAssignments(participantIds, {
+        forcedPairs,
+        exclusions: [{ participant1Id: 'c', participant2Id: 'd' }],
+      });
+
+      expect(validateAssignments(participantIds, assignments).valid).toBe(true);
+      expect(validateTopology(assignments, 'SINGLE_CYCLE').valid).toBe(true);
+      for (const { giverId, receiverId } of forcedPairs) {
+        expect(assignments.get(giverId)).toBe(receiverId);
+      }
+      expect(assignments.get('c')).not.toBe('d');
+    }
+  });
+
+  it('should let a forced pair repeat a past pairing', () => {
+    const { assignments } = generateAssignments(participantIds, {
+      forcedPairs: [{ giverId: 'a', receiverId: 'b' }],
+      avoidPairs: [{ giverId: 'a', receiverId: 'b' }],
+    });
+
+    expect(assignments.get('a')).toBe('b');
+  });
+
+  it('should report forced pairs that conflict with each other or the exclusions', () => {
+    const problems = findForcedPairProblems(participantIds, {
+      forcedPairs: [
+        { giverId: 'a', receiverId: 'a' },
+        { giverId: 'b', receiverId: 'c' },
+        { giverId: 'b', receiverId: 'd' },
+        { giverId: 'e', receiverId: 'c' },
+        { giverId: 'f', receiverId: 'e' },
+      ],
+      exclusions: [{ participant1Id: 'e', participant2Id: 'f' }],
+    });
+
+    expect(problems).toEqual([
+      { kind: 'self', participantIds: ['a'] },
+      { kind: 'giver-twice', participantIds: ['b', 'c', 'd'] },
+      { kind: 'receiver-twice', participantIds: ['c', 'b', 'e'] },
+      { kind: 'excluded', participantIds: ['f', 'e'] },
+    ]);
+  });
+
+  it('should report a forced pair that breaks an attribute rule', () => {
+    const rule = { attribute: 'office', relation: 'SAME' as const };
+    const constraints = {
+      forcedPairs: [{ giverId: 'a', receiverId: 'b' }],
+      rules: [rule],
+      attributes: new Map([
+        ['a', { office: 'Paris' }],
+        ['b', { office: 'Berlin' }],
+      ]),
+    };
+
+    const problems = findForcedPairProblems(participantIds, constraints);
+    expect(problems).toEqual([{ kind: 'rule', participantIds: ['a', 'b'], rule }]);
+    expect(() => generateAssignments(participantIds, constraints)).toThrow(
+      AssignmentImpossibleError
+    );
+
+    const names = new Map([['a', 'Ann'], ['b', 'Ben']]);
+    expect(describeForcedPairProblem(problems[0]!, names)).toBe(
+      'Ann must give to Ben, but the rule is to only match within the same office'
+    );
+  });
+
+  it('should reject a forced loop that closes without everyone in a single-loop draw', () => {
+    const forcedPairs = [
+      { giverId: 'a', receiverId: 'b' },
+      { giverId: 'b', receiverId: 'c' },
+      { giverId: 'c', receiverId: 'a' },
+    ];
+
+    expect(() => generateAssignments(participantIds, { forcedPairs })).toThrow(
+      AssignmentImpossibleError
+    );
+    const problems = findForcedPairProblems(participantIds, { forcedPairs });
+    expect(problems).toEqual([{ kind: 'closed-loop', participantIds: ['a', 'b', 'c'] }]);
+
+    const names = new Map([['a', 'Ann'], ['b', 'Ben'], ['c', 'Cat']]);
+    expect(describeForcedPairProblem(problems[0]!, names)).toContain('Ann → Ben → Cat → Ann');
+
+    // Smaller loops are fine when any arrangement is allowed
+    const { assignments } = generateAssignments(participantIds, {
+      forcedPairs,
+      topology: 'ANY_DERANGEMENT',
+    });
+    expect(assignments.get('c')).toBe('a');
+  });
+
+  it('should reject forced mutual pairs when mutual pairs are not allowed', () => {
+    expect(
+      findForcedPairProblems(participantIds, {
+        forcedPairs: [
+          { giverId: 'a', receiverId: 'b' },
+          { giverId: 'b', receiverId: 'a' },
+        ],
+        topology: 'NO_MUTUAL_PAIRS',
+      })
+    ).toEqual([{ kind: 'mutual-pair', participantIds: ['a', 'b'] }]);
+  });
+
+  it('should explain when the rest cannot be finished around the forced pairs', () => {
+    // a -> b -> c is forced, so c must close the loop back to a - which is excluded
+    expect(() =>
+      generateAssignments(['a', 'b', 'c'], {
+        forcedPairs: [
+          { giverId: 'a', receiverId: 'b' },
+          { giverId: 'b', receiverId: 'c' },
+        ],
+        exclusions: [{ participant1Id: 'a', participant2Id: 'c' }],
+      })
+    ).toThrow(AssignmentImpossibleError);
+  });
+
+  it('should apply forced pairs to the first round only', () => {
+    for (let run = 0; run < 50; run++) {
+      const { rounds } = generateMultiAssignments(participantIds, 2, {
+        forcedPairs: [{ giverId: 'a', receiverId: 'b' }],
+      });
+
+      expect(rounds[0]!.get('a')).toBe('b');
+      expect(rounds[1]!.get('a')).not.toBe('b');
+    }
+  });
+});
+
+describe('cross-side exchange', () => {
+  const sides = new Map([
+    ['e1', 'Engineering'],
+    ['e2', 'Engineering'],
+    ['e3', 'Engineering'],
+    ['s1', 'Sales'],
+    ['s2', 'Sales'],
+    ['s3', 'Sales'],
+  ]);
+  const participantIds = [...sides.keys()];
+
+  it('should only assign givers to the other side', () => {
+    for (const topology of ['SINGLE_CYCLE', 'ANY_DERANGEMENT', 'NO_MUTUAL_PAIRS'] as const) {
+      for (let run = 0; run < 50; run++) {
+        const { assignments } = generateAssignments(participantIds, { sides, topology });
+
+        expect(validateAssignments(participantIds, assignments).valid).toBe(true);
+        expect(validateTopology(assignments, topology).valid).toBe(true);
+        for (const [giver, receiver] of assignments) {
+          expect(sides.get(receiver)).not.toBe(sides.get(giver));
+        }
+      }
+    }
+  });
+
+  it('should report same-side pairs in validateConstraints', () => {
+    const assignments = new Map([
+      ['e1', 'e2'],
+      ['e2', 's1'],
+      ['s1', 'e1'],
+    ]);
+    const result = validateConstraints(assignments, { sides });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('Same-side pair');
+  });
+
+  it('should require exactly two sides of equal size', () => {
+    expect(validateSides(participantIds, sides).valid).toBe(true);
+
+    const unequal = new Map([...sides, ['e4', 'Engineering']]);
+    const result = validateSides([...unequal.keys()], unequal);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('Engineering has 4 participant(s) and Sales has 3');
+    expect(() => generateAssignments([...unequal.keys()], { sides: unequal })).toThrow(
+      'The sides are unequal'
+    );
+
+    expect(validateSides(['a', 'b', 'c'], new Map([['a', 'X'], ['b', 'Y'], ['c', 'Z']])).errors)
+      .toEqual(['Exactly 2 sides are needed, but there are 3']);
+  });
+
+  it('should keep partial regeneration across the sides', () => {
+    // e1 viewed and gives to s1
+    const lockedAssignments = new Map([['e1', 's1']]);
+    const unlocked = ['e2', 'e3', 's1', 's2', 's3'];
+
+    for (let run = 0; run < 50; run++) {
+      const { assignments } = generatePartialAssignments(unlocked, lockedAssignments, ['e1'], {
+        sides,
+      });
+      const full = new Map([...lockedAssignments, ...assignments]);
+
+      expect(validateAssignments(participantIds, full).valid).toBe(true);
+      expect(validateTopology(full, 'SINGLE_CYCLE').valid).toBe(true);
+      for (const [giver, receiver] of full) {
+        expect(sides.get(receiver)).not.toBe(sides.get(giver));
+      }
+    }
+  });
+});
+
+describe('attribute rules', () => {
+  const attributes = new Map([
+    ['a', { office: 'PGH', department: 'Sales' }],
+    ['b', { office: 'PGH', department: 'Eng' }],
+    ['c', { office: 'PGH', department: 'Sales' }],
+    ['d', { office: 'NYC', department: 'Eng' }],
+    ['e', { office: 'NYC', department: 'Sales' }],
+    ['f', { office: 'NYC', department: 'Eng' }],
+  ]);
+  const participantIds = [...attributes.keys()];
+
+  it('should only match within the same value for SAME rules', () => {
+    for (let run = 0; run < 50; run++) {
+      const { assignments } = generateAssignments(participantIds, {
+        attributes,
+        rules: [{ attribute: 'office', relation: 'SAME' }],
+        topology: 'ANY_DERANGEMENT',
+      });
+      for (const [giver, receiver] of assignments) {
+        expect(attributes.get(receiver)!.office).toBe(attributes.get(giver)!.office);
+      }
+    }
+  });
+
+  it('should never match within the same value for DIFFERENT rules', () => {
+    for (let run = 0; run < 50; run++) {
+      const { assignments } = generateAssignments(participantIds, {
+        attributes,
+        rules: [{ attribute: 'department', relation: 'DIFFERENT' }],
+      });
+      for (const [giver, receiver] of assignments) {
+        expect(attributes.get(receiver)!.department).not.toBe(attributes.get(giver)!.department);
+      }
+    }
+  });
+
+  it('should ignore rules for participants without the attribute', () => {
+    const partial = new Map<string, Record<string, string>>([...attributes, ['g', {}]]);
+    const { assignments } = generateAssignments([...partial.keys()], {
+      attributes: partial,
+      rules: [{ attribute: 'office', relation: 'SAME' }],
+      topology: 'ANY_DERANGEMENT',
+    });
+    expect(validateAssignments([...partial.keys()], assignments).valid).toBe(true);
+  });
+
+  it('should report rule breaks in validateConstraints', () => {
+    const result = validateConstraints(new Map([['a', 'd']]), {
+      attributes,
+      rules: [{ attribute: 'office', relation: 'SAME' }],
+    });
+    expect(result.errors).toEqual([
+      'Rule broken: a is assigned to d, but the rule is to only match within the same office',
+    ]);
+  });
+
+  it('should count blocked pairs and find the rule that makes the draw impossible', () => {
+    // Splitting by office can't be drawn as one loop through everyone
+    const analysis = analyzeRules(participantIds, {
+      attributes,
+      rules: [
+        { attribute: 'office', relation: 'SAME' },
+        { attribute: 'department', relation: 'DIFFERENT' },
+      ],
+    });
+
+    expect(analysis).toEqual([
+      { rule: { attribute: 'office', relation: 'SAME' }, blockedPairCount: 18, binding: true },
+      { rule: { attribute: 'department', relation: 'DIFFERENT' }, blockedPairCount: 12, binding: false },
+    ]);
+  });
+
+  it('should report no binding rules when the draw is possible', () => {
+    const analysis = analyzeRules(participantIds, {
+      attributes,
+      rules: [{ attribute: 'office', relation: 'SAME' }],
+      topology: 'ANY_DERANGEMENT',
+    });
+    expect(analysis.map((result) => result.binding)).toEqual([false]);
+  });
+});
+
+describe('regeneration with fewer than 3 unviewed participants', () => {
+  // a, c and e have viewed; b and d can only swap targets
+  const cycle = new Map([
+    ['a', 'b'],
+    ['b', 'c'],
+    ['c', 'd'],
+    ['d', 'e'],
+    ['e', 'a'],
+  ]);
+  const participants = ['a', 'b', 'c', 'd', 'e'].map((id) => ({
+    id,
+    hasViewed: ['a', 'c', 'e'].includes(id),
+  }));
+  const lockedAssignments = new Map([
+    ['a', 'b'],
+    ['c', 'd'],
+    ['e', 'a'],
+  ]);
+
+  it('should allow a swap that keeps the draw valid and count it', () => {
+    const analysis = analyzeRegeneration(participants, {
+      rounds: [cycle],
+      constraints: { topology: 'ANY_DERANGEMENT' },
+    });
+
+    expect(analysis.canRegenerate).toBe(true);
+    expect(analysis.alternativeCount).toBe(1);
+  });
+
+  it('should refuse when no other valid arrangement exists', () => {
+    // Swapping splits the single loop in two
+    const analysis = analyzeRegeneration(participants, { rounds: [cycle] });
+
+    expect(analysis.canRegenerate).toBe(false);
+    expect(analysis.alternativeCount).toBe(0);
+    expect(analysis.reason).toContain('no other valid arrangement');
+  });
+
+  it('should refuse a single unviewed participant, who has nobody to swap with', () => {
+    const analysis = analyzeRegeneration(
+      ['a', 'b', 'c', 'd'].map((id) => ({ id, hasViewed: id !== 'b' })),
+      { rounds: [new Map([['a', 'b'], ['b', 'c'], ['c', 'd'], ['d', 'a']])] }
+    );
+
+    expect(analysis.canRegenerate).toBe(false);
+    expect(analysis.alternativeCount).toBe(0);
+  });
+
+  it('should reassign two unlocked givers among the open receivers', () => {
+    for (let run = 0; run < 20; run++) {
+      const { assignments } = generatePartialAssignments(
+        ['b', 'd'],
+        lockedAssignments,
+        ['a', 'c', 'e'],
+        { topology: 'ANY_DERANGEMENT' }
+      );
+
+      expect(new Set(assignments.values())).toEqual(new Set(['c', 'e']));
+      expect(
+        validateAssignments(['a', 'b', 'c', 'd', 'e'], new Map([...lockedAssignments, ...assignments])).valid
+      ).toBe(true);
+    }
+  });
+
+  it('should never hand back the current arrangement', () => {
+    const current = new Map([
+      ['b', 'c'],
+      ['d', 'e'],
+    ]);
+
+    for (let run = 0; run < 20; run++) {
+      const { assignments } = generatePartialAssignments(
+        ['b', 'd'],
+        lockedAssignments,
+        ['a', 'c', 'e'],
+        { topology: 'ANY_DERANGEMENT' },
+        undefined,
+        current
+      );
+
+      expect(assignments).toEqual(new Map([['b', 'e'], ['d', 'c']]));
+    }
+  });
+
+  it('should throw when the current arrangement is the only valid one', () => {
+    expect(() =>
+      generatePartialMultiAssignments(['b', 'd'], [lockedAssignments], ['a', 'c', 'e'], {}, undefined, [cycle])
+    ).toThrow(AssignmentImpossibleError);
+  });
+
+  it('should count only the alternatives the generator can produce with NO_MUTUAL_PAIRS', () => {
+    // The only swap for a and b in one round mirrors a pair of the other round
+    const rounds = [
+      new Map([['a', 'e'], ['b', 'f'], ['c', 'b'], ['d', 'a'], ['e', 'c'], ['f', 'd']]),
+      new Map([['a', 'c'], ['b', 'e'], ['c', 'f'], ['d', 'b'], ['e', 'd'], ['f', 'a']]),
+    ];
+    const locked = ['c', 'd', 'e', 'f'];
+    const lockedRounds = rounds.map(
+      (round) => new Map([...round].filter(([giverId]) => locked.includes(giverId)))
+    );
+    const constraints = { topology: 'NO_MUTUAL_PAIRS' as const };
+
+    const analysis = analyzeRegeneration(
+      ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => ({ id, hasViewed: locked.includes(id) })),
+      { rounds, constraints }
+    );
+
+    expect(analysis.alternativeCount).toBe(0);
+    expect(() =>
+      generatePartialMultiAssignments(['a', 'b'], lockedRounds, locked, constraints, undefined, rounds)
+    ).toThrow(AssignmentImpossibleError);
+  });
+
+  it('should throw when the few unlocked givers have no valid arrangement', () => {
+    expect(() =>
+      generatePartialAssignments(['b', 'd'], lockedAssignments, ['a', 'c', 'e'], {
+        exclusions: [
+          { participant1Id: 'b', participant2Id: 'c' },
+          { participant1Id: 'b', participant2Id: 'e' },
+        ],
+      })
+    ).toThrow(AssignmentImpossibleError);
+  });
+});
+
+describe('spliceParticipant', () => {
+  const cycle = new Map([
+    ['a', 'b'],
+    ['b', 'c'],
+    ['c', 'd'],
+    ['d', 'a'],
+  ]);
+
+  it('should redirect exactly one redirectable giver and keep everyone else', () => {
+    for (let run = 0; run < 50; run++) {
+      const { rounds, redirectedGiverIds } = spliceParticipant('n', [cycle], ['b', 'c']);
+      const [spliced] = rounds;
+
+      expect(redirectedGiverIds).toHaveLength(1);
+      const [giver] = redirectedGiverIds;
+      expect(['b', 'c']).toContain(giver);
+      expect(spliced!.get(giver!)).toBe('n');
+      expect(spliced!.get('n')).toBe(cycle.get(giver!));
+      for (const [other, receiver] of cycle) {
+        if (other !== giver) {
+          expect(spliced!.get(other)).toBe(receiver);
+        }
+      }
+      expect(validateTopology(spliced!, 'SINGLE_CYCLE').valid).toBe(true);
+    }
+  });
+
+  it('should respect constraints on both new edges', () => {
+    // b can't give to the newcomer, and the newcomer can't give to d (c's recipient)
+    const { redirectedGiverIds } = spliceParticipant('n', [cycle], ['b', 'c', 'd'], {
+      exclusions: [{ participant1Id: 'b', participant2Id: 'n' }],
+      avoidPairs: [{ giverId: 'n', receiverId: 'd' }],
+    });
+
+    expect(redirectedGiverIds).toEqual(['d']);
+  });
+
+  it('should use a different giver and recipient in each round', () => {
+    const secondRound = new Map([
+      ['a', 'c'],
+      ['c', 'b'],
+      ['b', 'd'],
+      ['d', 'a'],
+    ]);
+
+    for (let run = 0; run < 50; run++) {
+      const { rounds, redirectedGiverIds } = spliceParticipant(
+        'n',
+        [cycle, secondRound],
+        ['a', 'b', 'c', 'd']
+      );
+
+      expect(new Set(redirectedGiverIds).size).toBe(2);
+      expect(rounds[0]!.get('n')).not.toBe(rounds[1]!.get('n'));
+    }
+  });
+
+  it('should not make the newcomer a mutual pair across rounds without mutual pairs', () => {
+    const firstRound = new Map([
+      ['a', 'b'],
+      ['b', 'c'],
+      ['c', 'd'],
+      ['d', 'e'],
+      ['e', 'a'],
+    ]);
+    const secondRound = new Map([
+      ['a', 'c'],
+      ['b', 'd'],
+      ['c', 'e'],
+      ['d', 'a'],
+      ['e', 'b'],
+    ]);
+
+    // Redirecting a then b would have the newcomer give to b in the first round and
+    // receive from b in the second
+    expect(() =>
+      spliceParticipant('n', [firstRound, secondRound], ['a', 'b'], { topology: 'NO_MUTUAL_PAIRS' })
+    ).toThrow(AssignmentImpossibleError);
+
+    for (let run = 0; run < 50; run++) {
+      const { rounds } = spliceParticipant(
+        'n',
+        [firstRound, secondRound],
+        ['a', 'b', 'c', 'd', 'e'],
+        { topology: 'NO_MUTUAL_PAIRS' }
+      );
+      const pairs = rounds.flatMap(round => [...round]);
+      const pairKeys = new Set(pairs.map(([giver, receiver]) => `${giver}->${receiver}`));
+
+      for (const [giver, receiver] of pairs) {
+        expect(pairKeys.has(`${receiver}->${giver}`)).toBe(false);
+      }
+    }
+  });
+
+  it('should throw when no giver can be redirected', () => {
+    expect(() => spliceParticipant('n', [cycle], [])).toThrow(AssignmentImpossibleError);
+    expect(() =>
+      spliceParticipant('n', [cycle], ['a'], {
+        groups: new Map([
+          ['a', 'household'],
+          ['n', 'household'],
+        ]),
+      })
+    ).toThrow(AssignmentImpossibleError);
+  });
+});
+
+describe('repairWithdrawal', () => {
+  const cycle = new Map([
+    ['a', 'b'],
+    ['b', 'c'],
+    ['c', 'd'],
+    ['d', 'e'],
+    ['e', 'a'],
+  ]);
+
+  it('should reconnect the giver to the recipient when allowed', () => {
+    const { rounds, changedGiverIds, redrawn } = repairWithdrawal('c', [cycle], ['a', 'b']);
+
+    expect(redrawn).toBe(false);
+    expect(changedGiverIds).toEqual(['b']);
+    expect([...rounds[0]!]).toEqual([
+      ['a', 'b'],
+      ['b', 'd'],
+      ['d', 'e'],
+      ['e', 'a'],
+    ]);
+  });
+
+  it('should redraw unviewed participants when reconnecting breaks a rule', () => {
+    const exclusions = [{ participant1Id: 'b', participant2Id: 'd' }];
+
+    for (let run = 0; run < 50; run++) {
+      const { rounds, changedGiverIds, redrawn } = repairWithdrawal(
+        'c',
+        [cycle],
+        ['a', 'b'],
+        { exclusions }
+      );
+      const [repaired] = rounds;
+
+      expect(redrawn).toBe(true);
+      expect(repaired!.has('c')).toBe(false);
+      expect([...repaired!.values()]).not.toContain('c');
+      // a already viewed and keeps their assignment; b has to change even though they viewed
+      expect(repaired!.get('a')).toBe('b');
+      expect(changedGiverIds).toContain('b');
+      expect(changedGiverIds).not.toContain('a');
+      expect(validateAssignments([...repaired!.keys()], repaired!).valid).toBe(true);
+      expect(validateConstraints(repaired!, { exclusions }).valid).toBe(true);
+      expect(validateTopology(repaired!, 'SINGLE_CYCLE').valid).toBe(true);
+    }
+  });
+
+  it('should throw when no valid redraw exists', () => {
+    expect(() =>
+      repairWithdrawal('c', [cycle], ['a', 'b', 'd', 'e'], {
+        exclusions: [{ participant1Id: 'b', participant2Id: 'd' }],
+      })
+    ).toThrow(AssignmentImpossibleError);
+  });
+});
+
+describe('dry-run counts', () => {
+  it('should count the loops in an arrangement', () => {
+    expect(countCycles(new Map([['a', 'b'], ['b', 'c'], ['c', 'a']]))).toBe(1);
+    expect(countCycles(new Map([['a', 'b'], ['b', 'a'], ['c', 'd'], ['d', 'c']]))).toBe(2);
+  });
+
+  it('should only count constraints that rule out a pair among the participants', () => {
+    const counts = countBindingConstraints(['a', 'b', 'c', 'd'], {
+      exclusions: [
+        { participant1Id: 'a', participant2Id: 'b' },
+        { participant1Id: 'a', participant2Id: 'x' }, // x is in another pool
+      ],
+      groups: new Map([
+        ['c', 'home'],
+        ['d', 'home'],
+        ['a', 'solo'],
+        ['x', 'solo'],
+      ]),
+      forcedPairs: [{ giverId: 'b', receiverId: 'c' }],
+      attributes: new Map<string, Record<string, string>>([
+        ['a', { office: 'north' }],
+        ['b', { office: 'north' }],
+        ['c', { team: 'red' }],
+      ]),
+      rules: [
+        { attribute: 'office', relation: 'SAME' }, // a and b already share an office
+        { attribute: 'office', relation: 'DIFFERENT' },
+        { attribute: 'team', relation: 'DIFFERENT' }, // only c has a team
+      ],
+    });
+
+    expect(counts).toEqual({ exclusions: 1, groups: 1, forcedPairs: 1, rules: 1, total: 4 });
+  });
+});
+
+describe('injected randomness', () => {
+  const participantIds = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+
+  it('should reproduce a draw from the same seed', () => {
+    const first = generateAssignments(participantIds, {}, createSeededRandom(2024));
+    const second = generateAssignments(participantIds, {}, createSeededRandom(2024));
+
+    expect([...first.assignments]).toEqual([...second.assignments]);
+  });
+
+  it('should reproduce constrained and multi-gift draws from the same seed', () => {
+    const constraints = {
+      exclusions: [{ participant1Id: 'a', participant2Id: 'b' }],
+      topology: 'NO_MUTUAL_PAIRS' as const,
+    };
+    const first = generateMultiAssignments(participantIds, 2, constraints, createSeededRandom(7));
+    const second = generateMultiAssignments(participantIds, 2, constraints, createSeededRandom(7));
+
+    expect(first.rounds.map((round) => [...round])).toEqual(
+      second.rounds.map((round) => [...round])
+    );
+  });
+
+  it('should reproduce partial regeneration from the same seed', () => {
+    const run = () =>
+      generatePartialAssignments(
+        ['U1', 'U2', 'U3', 'U4'],
+        new Map([['L1', 'U1']]),
+        ['L1'],
+        {},
+        createSeededRandom(99)
+      );
+
+    expect([...run().assignments]).toEqual([...run().assignments]);
+  });
+
+  it('should draw from the injected source', () => {
+    const rng = createSeededRandom(1);
+    const randomInt = jest.spyOn(rng, 'randomInt');
+
+    generateDerangement(participantIds, rng);
+
+    expect(randomInt).toHaveBeenCalledTimes(participantIds.length - 1);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  canonicalizeAssignments,
+  computeDrawCommitment,
+  createCommitmentSalt,
+  isVerificationOpen,
+} from '../draw-commitment';
+
+describe('computeDrawCommitment', () => {
+  const assignments = [
+    { giverId: 'b', receiverId: 'c', round: 0 },
+    { giverId: 'a', receiverId: 'b', round: 0 },
+    { giverId: 'c', receiverId: 'a', round: 0 },
+  ];
+
+  it('should not depend on the order assignments are listed in', () => {
+    const salt = createCommitmentSalt();
+
+    expect(computeDrawCommitment(salt, assignments)).toBe(
+      computeDrawCommitment(salt, [...assignments].reverse())
+    );
+  });
+
+  it('should change when any pairing changes', () => {
+    const salt = createCommitmentSalt();
+    const swapped = [
+      { giverId: 'a', receiverId: 'c', round: 0 },
+      { giverId: 'c', receiverId: 'b', round: 0 },
+      { giverId: 'b', receiverId: 'a', round: 0 },
+    ];
+
+    expect(computeDrawCommitment(salt, assignments)).not.toBe(
+      computeDrawCommitment(salt, swapped)
+    );
+  });
+
+  it('should change with the salt', () => {
+    expect(computeDrawCommitment(createCommitmentSalt(), assignments)).not.toBe(
+      computeDrawCommitment(createCommitmentSalt(), assignments)
+    );
+  });
+
+  it('should list one sorted line per assignment', () => {
+    expect(canonicalizeAssignments(assignments)).toBe('0:a->b\n0:b->c\n0:c->a');
+  });
+});
+
+describe('isVerificationOpen', () => {
+  const now = new Date('2025-12-26T10:00:00Z');
+
+  it('should open the day after the event date', () => {
+    expect(isVerificationOpen({ eventDate: '2025-12-25' }, now)).toBe(true);
+    expect(isVerificationOpen({ eventDate: '2025-12-26' }, now)).toBe(false);
+  });
+
+  it('should keep an undated event closed while it is locked, even once everyone has viewed', () => {
+    expect(isVerificationOpen({ eventDate: null, status: 'NOTIFIED' }, now)).toBe(false);
+  });
+
+  it('should open once the gifts are revealed', () => {
+    expect(isVerificationOpen({ eventDate: '2025-12-26', status: 'REVEALED' }, now)).toBe(true);
+    expect(isVerificationOpen({ eventDate: null, status: 'ARCHIVED' }, now)).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { escapeHtml, renderEmail } from '../email-layout';
+
+const content = {
+  title: '🎄 Secret Santa 🎁',
+  subtitle: 'Tom & Jerry\'s <Party>',
+  heading: 'Hi "Alice"!',
+  paragraphs: ['First line\nsecond line', 'Bring a <b>gift</b>'],
+  details: [{ label: 'Budget', value: '<$25>' }],
+  button: { label: 'Reveal', href: 'https://example.com/reveal/abc?x=1&y=2' },
+};
+
+describe('escapeHtml', () => {
+  it('should escape markup and both kinds of quotes', () => {
+    expect(escapeHtml('<a href="x">Tom\'s & co</a>')).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom&#39;s &amp; co&lt;/a&gt;'
+    );
+  });
+});
+
+describe('renderEmail', () => {
+  it('should escape every value in the HTML part', () => {
+    const { html } = renderEmail(content);
+
+    expect(html).toContain('Tom &amp; Jerry&#39;s &lt;Party&gt;');
+    expect(html).toContain('Hi &quot;Alice&quot;!');
+    expect(html).toContain('First line<br>second line');
+    expect(html).toContain('Bring a &lt;b&gt;gift&lt;/b&gt;');
+    expect(html).toContain('&lt;$25&gt;');
+    expect(html).toContain('href="https://example.com/reveal/abc?x=1&amp;y=2"');
+    expect(html).not.toContain('<b>');
+  });
+
+  it('should write the same content as plain text', () => {
+    const { text } = renderEmail(content);
+
+    expect(text).toBe(
+      [
+        '🎄 Secret Santa 🎁\nTom & Jerry\'s <Party>',
+        'Hi "Alice"!',
+        'First line\nsecond line',
+        'Bring a <b>gift</b>',
+        'Budget: <$25>',
+        'Reveal:\nhttps://example.com/reveal/abc?x=1&y=2',
+      ].join('\n\n')
+    );
+  });
+
+  it('should drop a button whose link is not a web address', () => {
+    const { html, text } = renderEmail({ ...content, button: { label: 'Reveal', href: 'javascript:alert(1)' } });
+
+    expect(html).not.toContain('javascript:');
+    expect(text).not.toContain('javascript:');
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  fillPlaceholders,
+  parseEmailTemplate,
+  renderEmailTemplate,
+  validateEmailTemplate,
+} from '../email-templates';
+
+const inviteValues = {
+  name: 'Alice',
+  eventName: 'Office Party',
+  revealLink: 'https://example.com/reveal/abc',
+  eventDate: 'Friday, December 18, 2026',
+  budget: '$25',
+};
+
+describe('fillPlaceholders', () => {
+  it('should fill placeholders, tolerating spaces inside the braces', () => {
+    expect(fillPlaceholders('Hi {{name}}, welcome to {{ eventName }}!', inviteValues))
+      .toBe('Hi Alice, welcome to Office Party!');
+  });
+
+  it('should leave a placeholder without a value empty', () => {
+    expect(fillPlaceholders('Budget: {{budget}}', {})).toBe('Budget: ');
+  });
+});
+
+describe('validateEmailTemplate', () => {
+  it('should accept the defaults', () => {
+    expect(validateEmailTemplate('INVITE', DEFAULT_EMAIL_TEMPLATES.INVITE)).toBeNull();
+    expect(validateEmailTemplate('ADMIN_LINK', DEFAULT_EMAIL_TEMPLATES.ADMIN_LINK)).toBeNull();
+  });
+
+  it('should reject a placeholder the email does not have', () => {
+    const template = { ...DEFAULT_EMAIL_TEMPLATES.ADMIN_LINK, body: 'Hi {{name}}' };
+
+    expect(validateEmailTemplate('ADMIN_LINK', template)).toMatch(/Unknown placeholder \{\{name\}\}/);
+  });
+
+  it('should reject an empty or multi-line subject', () => {
+    const template = DEFAULT_EMAIL_TEMPLATES.INVITE;
+
+    expect(validateEmailTemplate('INVITE', { ...template, subject: ' ' })).toBe('Subject is required');
+    expect(validateEmailTemplate('INVITE', { ...template, subject: 'Hi\r\nBcc: x@example.com' }))
+      .toBe('Subject must be a single line');
+  });
+});
+
+describe('parseEmailTemplate', () => {
+  it('should require every part to be text', () => {
+    expect(parseEmailTemplate({ subject: 'S', heading: 'H' })).toBeNull();
+    expect(parseEmailTemplate({ subject: 'S', heading: 'H', body: 'a\r\nb' }))
+      .toEqual({ subject: 'S', heading: 'H', body: 'a\nb' });
+  });
+});
+
+describe('renderEmailTemplate', () => {
+  it('should render the subject, paragraphs, details and link', () => {
+    const template = {
+      subject: '{{eventName}} is coming',
+      heading: 'Hey {{name}}',
+      body: 'First line\nsecond line\n\nBring a gift under {{budget}}',
+    };
+
+    const { subject, html, text } = renderEmailTemplate('INVITE', template, inviteValues);
+
+    expect(subject).toBe('Office Party is coming');
+    expect(html).toContain('Hey Alice');
+    expect(html).toContain('First line<br>second line');
+    expect(html).toContain('Bring a gift under $25');
+    expect(html).toContain('Friday, December 18, 2026');
+    expect(html).toContain('href="https://example.com/reveal/abc"');
+    expect(text).toContain('Hey Alice\n\nFirst line\nsecond line\n\nBring a gift under $25');
+  });
+
+  it('should escape the template and the values instead of rendering markup', () => {
+    const template = { subject: 'Hi', heading: '<b>{{name}}</b>', body: 'Hello {{name}}' };
+
+    const { html } = renderEmailTemplate('INVITE', template, {
+      ...inviteValues,
+      name: '<script>alert(1)</script>',
+    });
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+});
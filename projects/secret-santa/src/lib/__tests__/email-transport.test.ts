@@ -0,0 +1,102 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  createEmailTransport,
+  emailTransportProblem,
+  resolveEmailTransportKind,
+} from '../email-transport';
+
+// The Gmail transport needs the database and Google's API - neither is used here
+jest.mock('@/lib/gmail-send', () => ({ sendEmailViaGmail: jest.fn() }));
+
+const ENV_KEYS = ['EMAIL_TRANSPORT', 'EMAIL_OUTBOX_DIR', 'SMTP_HOST', 'SMTP_FROM'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = savedEnv[key];
+    }
+  }
+});
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+});
+
+describe('resolveEmailTransportKind', () => {
+  it('should use the event\'s own choice over the deployment default', () => {
+    process.env.EMAIL_TRANSPORT = 'outbox';
+
+    expect(resolveEmailTransportKind({ emailTransport: 'SMTP' })).toBe('SMTP');
+    expect(resolveEmailTransportKind({ emailTransport: null })).toBe('OUTBOX');
+  });
+
+  it('should fall back to Gmail for an unknown deployment default', () => {
+    process.env.EMAIL_TRANSPORT = 'carrier-pigeon';
+
+    expect(resolveEmailTransportKind({ emailTransport: null })).toBe('GMAIL');
+  });
+});
+
+describe('emailTransportProblem', () => {
+  it('should require a connected, unrevoked Gmail account', () => {
+    const event = { emailTransport: 'GMAIL' };
+
+    expect(emailTransportProblem({ ...event, gmailCredential: null })).toMatch(/Gmail is not connected/);
+    expect(emailTransportProblem({ ...event, gmailCredential: { revokedAt: new Date() } })).not.toBeNull();
+    expect(emailTransportProblem({ ...event, gmailCredential: { revokedAt: null } })).toBeNull();
+  });
+
+  it('should require SMTP_HOST and SMTP_FROM for SMTP', () => {
+    const event = { emailTransport: 'SMTP', gmailCredential: null };
+    expect(emailTransportProblem(event)).toMatch(/SMTP server is not configured/);
+
+    process.env.SMTP_HOST = 'smtp.example.com';
+    process.env.SMTP_FROM = 'santa@example.com';
+    expect(emailTransportProblem(event)).toBeNull();
+  });
+});
+
+describe('outbox transport', () => {
+  it('should write each email as an .eml file', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    process.env.EMAIL_OUTBOX_DIR = directory;
+
+    try {
+      const transport = createEmailTransport({ id: 'event-1', emailTransport: 'OUTBOX' });
+      const result = await transport.send({
+        to: 'alice@example.com',
+        subject: 'Hi',
+        html: '<p>Hello</p>',
+        text: 'Hello',
+      });
+
+      const files = await readdir(directory);
+      expect(result.success).toBe(true);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      const message = await readFile(path.join(directory, files[0]!), 'utf8');
+      expect(message).toContain('To: alice@example.com');
+      expect(message).toContain('Content-Type: multipart/alternative');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should refuse a recipient or subject that would inject headers', async () => {
+    const transport = createEmailTransport({ id: 'event-1', emailTransport: 'OUTBOX' });
+    const email = { to: 'alice@example.com', subject: 'Hi', html: '<p>Hello</p>', text: 'Hello' };
+
+    const badRecipient = await transport.send({ ...email, to: 'alice@example.com\r\nBcc: eve@example.com' });
+    const badSubject = await transport.send({ ...email, subject: 'Hi\r\nBcc: eve@example.com' });
+
+    expect(badRecipient).toEqual({ success: false, error: expect.stringMatching(/not a valid email address/) });
+    expect(badSubject).toEqual({ success: false, error: 'Email subject must be a single line' });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  actionBlockedReason,
+  canPerform,
+  canTransition,
+  isEventLocked,
+  manualTransitions,
+} from '../event-lifecycle';
+
+describe('canPerform', () => {
+  it('should only allow editing before the draw', () => {
+    expect(canPerform('DRAFT', 'EDIT')).toBe(true);
+    expect(canPerform('OPEN', 'EDIT')).toBe(true);
+    expect(canPerform('DRAWN', 'EDIT')).toBe(false);
+  });
+
+  it('should allow redrawing until event day', () => {
+    expect(canPerform('NOTIFIED', 'DRAW')).toBe(true);
+    expect(canPerform('EVENT_DAY', 'DRAW')).toBe(false);
+  });
+
+  it('should keep assignments viewable until the event is archived', () => {
+    expect(canPerform('DRAFT', 'REVEAL')).toBe(false);
+    expect(canPerform('REVEALED', 'REVEAL')).toBe(true);
+    expect(canPerform('ARCHIVED', 'REVEAL')).toBe(false);
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(canPerform('LOCKED', 'EDIT')).toBe(false);
+  });
+});
+
+describe('actionBlockedReason', () => {
+  it('should return null when the action is allowed', () => {
+    expect(actionBlockedReason('DRAWN', 'NOTIFY')).toBeNull();
+  });
+
+  it('should explain why the action is blocked', () => {
+    expect(actionBlockedReason('DRAWN', 'EDIT')).toBe('assignments have already been generated');
+    expect(actionBlockedReason('OPEN', 'NOTIFY')).toBe("assignments haven't been generated yet");
+    expect(actionBlockedReason('EVENT_DAY', 'DRAW')).toBe('it is already event day');
+    expect(actionBlockedReason('ARCHIVED', 'EDIT')).toBe('the event is archived');
+  });
+});
+
+describe('isEventLocked', () => {
+  it('should lock the event from the draw onwards', () => {
+    expect(isEventLocked('OPEN')).toBe(false);
+    expect(isEventLocked('NOTIFIED')).toBe(true);
+    expect(isEventLocked('ARCHIVED')).toBe(true);
+  });
+});
+
+describe('canTransition', () => {
+  it('should follow the lifecycle', () => {
+    expect(canTransition('DRAFT', 'DRAWN')).toBe(true);
+    expect(canTransition('NOTIFIED', 'EVENT_DAY')).toBe(true);
+    expect(canTransition('EVENT_DAY', 'DRAWN')).toBe(false);
+    expect(canTransition('ARCHIVED', 'DRAFT')).toBe(false);
+  });
+
+  it('should allow staying in the same phase', () => {
+    expect(canTransition('NOTIFIED', 'NOTIFIED')).toBe(true);
+  });
+});
+
+describe('manualTransitions', () => {
+  it('should only offer phases the admin moves to by hand', () => {
+    expect(manualTransitions('DRAFT')).toEqual(['OPEN', 'ARCHIVED']);
+    expect(manualTransitions('OPEN')).toEqual(['DRAFT', 'ARCHIVED']);
+    expect(manualTransitions('NOTIFIED')).toEqual(['EVENT_DAY', 'ARCHIVED']);
+    expect(manualTransitions('ARCHIVED')).toEqual([]);
+  });
+});
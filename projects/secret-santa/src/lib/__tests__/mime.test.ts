@@ -0,0 +1,43 @@
+import { createMimeMessage, EmailHeaderError, emailHeadersProblem } from '../mime';
+
+const decodeParts = (message: string) =>
+  message
+    .split(/--boundary_\d+/)
+    .slice(1, 3)
+    .map(part => Buffer.from(part.split('\r\n\r\n')[1]!.replace(/\r\n/g, ''), 'base64').toString('utf8'));
+
+describe('emailHeadersProblem', () => {
+  it('should accept a plain address and a one-line subject', () => {
+    expect(emailHeadersProblem({ to: 'alice@example.com', subject: 'Hello' })).toBeNull();
+  });
+
+  it('should reject line breaks and anything but a single address', () => {
+    expect(emailHeadersProblem({ to: 'alice@example.com\nBcc: eve@example.com', subject: 'Hi' })).not.toBeNull();
+    expect(emailHeadersProblem({ to: 'alice@example.com, eve@example.com', subject: 'Hi' })).not.toBeNull();
+    expect(emailHeadersProblem({ to: 'Alice <alice@example.com>', subject: 'Hi' })).not.toBeNull();
+    expect(emailHeadersProblem({ to: 'alice@example.com', subject: 'Hi\rthere' })).toBe(
+      'Email subject must be a single line'
+    );
+  });
+});
+
+describe('createMimeMessage', () => {
+  it('should carry the given plain-text and HTML parts', () => {
+    const message = createMimeMessage('santa@example.com', 'alice@example.com', 'Hi', '<p>Hello</p>', 'Hello');
+
+    expect(decodeParts(message)).toEqual(['Hello', '<p>Hello</p>']);
+  });
+
+  it('should wrap base64 lines at 76 characters', () => {
+    const message = createMimeMessage('santa@example.com', 'alice@example.com', 'Hi', 'x'.repeat(500), 'y'.repeat(500));
+
+    expect(message.split('\r\n').every(line => line.length <= 998)).toBe(true);
+    expect(Math.max(...message.split('\r\n').filter(line => /^[A-Za-z0-9+/=]+$/.test(line)).map(l => l.length))).toBe(76);
+  });
+
+  it('should throw rather than build a message with injected headers', () => {
+    expect(() =>
+      createMimeMessage('santa@example.com\r\nBcc: eve@example.com', 'alice@example.com', 'Hi', '', '')
+    ).toThrow(EmailHeaderError);
+  });
+});
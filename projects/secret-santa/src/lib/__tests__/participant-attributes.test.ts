@@ -0,0 +1,29 @@
+import { parseAttributesInput, readAttributes } from '../participant-attributes';
+
+describe('readAttributes', () => {
+  it('should keep only string values', () => {
+    expect(readAttributes({ office: 'Pittsburgh', floor: 3, team: null })).toEqual({
+      office: 'Pittsburgh',
+    });
+  });
+
+  it('should treat anything but an object as no attributes', () => {
+    expect(readAttributes(null)).toEqual({});
+    expect(readAttributes(['office'])).toEqual({});
+    expect(readAttributes('office')).toEqual({});
+  });
+});
+
+describe('parseAttributesInput', () => {
+  it('should trim names and values and drop blank values', () => {
+    expect(parseAttributesInput({ ' office ': ' Pittsburgh ', department: '  ' })).toEqual({
+      attributes: { office: 'Pittsburgh' },
+    });
+  });
+
+  it('should reject non-text values and blank names', () => {
+    expect(parseAttributesInput({ office: 3 })).toEqual({ error: 'Attribute "office" must be text' });
+    expect(parseAttributesInput({ ' ': 'x' })).toEqual({ error: "Attribute names can't be blank" });
+    expect(parseAttributesInput('office=Pittsburgh')).toHaveProperty('error');
+  });
+});
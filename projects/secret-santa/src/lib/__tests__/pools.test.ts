@@ -0,0 +1,61 @@
+import { MAIN_DRAW_NAME, participantBudget, poolMessage, splitIntoPools } from '../pools';
+
+const pools = [
+  { id: 'kids', name: 'Kids', budget: '$20' },
+  { id: 'empty', name: 'Empty', budget: null },
+];
+
+describe('splitIntoPools', () => {
+  it('should put participants without a pool in the main draw, first', () => {
+    const draws = splitIntoPools(
+      [
+        { id: 'a', poolId: 'kids' },
+        { id: 'b', poolId: null },
+        { id: 'c', poolId: 'kids' },
+      ],
+      pools
+    );
+
+    expect(draws.map(d => d.name)).toEqual([MAIN_DRAW_NAME, 'Kids']);
+    expect(draws[0]!.participants.map(p => p.id)).toEqual(['b']);
+    expect(draws[1]).toEqual({
+      id: 'kids',
+      name: 'Kids',
+      budget: '$20',
+      participants: [
+        { id: 'a', poolId: 'kids' },
+        { id: 'c', poolId: 'kids' },
+      ],
+    });
+  });
+
+  it('should skip pools nobody is in', () => {
+    const draws = splitIntoPools([{ id: 'a', poolId: 'kids' }], pools);
+    expect(draws.map(d => d.id)).toEqual(['kids']);
+  });
+
+  it('should keep an empty main draw when there are no participants', () => {
+    expect(splitIntoPools([], pools)).toEqual([
+      { id: null, name: MAIN_DRAW_NAME, budget: null, participants: [] },
+    ]);
+  });
+});
+
+describe('poolMessage', () => {
+  it('should name the pool only when there is more than one draw', () => {
+    expect(poolMessage({ name: 'Kids' }, 2, 'Need at least 3')).toBe('Kids: Need at least 3');
+    expect(poolMessage({ name: 'Kids' }, 1, 'Need at least 3')).toBe('Need at least 3');
+  });
+});
+
+describe('participantBudget', () => {
+  it('should use the pool\'s own budget over the event\'s', () => {
+    expect(participantBudget({ budget: '$10' }, '$50')).toBe('$10');
+  });
+
+  it('should fall back to the event\'s budget', () => {
+    expect(participantBudget({ budget: null }, '$50')).toBe('$50');
+    expect(participantBudget(null, '$50')).toBe('$50');
+    expect(participantBudget(null, null)).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { createSeededRandom, secureRandom } from '../random';
+
+describe('createSeededRandom', () => {
+  it('should replay the same sequence for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+
+    for (let i = 0; i < 100; i++) {
+      expect(first.randomInt(1000)).toBe(second.randomInt(1000));
+    }
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const first = createSeededRandom(1);
+    const second = createSeededRandom(2);
+    const firstValues = Array.from({ length: 20 }, () => first.randomInt(1000));
+    const secondValues = Array.from({ length: 20 }, () => second.randomInt(1000));
+
+    expect(firstValues).not.toEqual(secondValues);
+  });
+
+  it('should stay within [0, max)', () => {
+    const rng = createSeededRandom(7);
+    const seen = new Set<number>();
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.randomInt(5);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(5);
+      seen.add(value);
+    }
+    expect(seen.size).toBe(5);
+  });
+});
+
+describe('secureRandom', () => {
+  it('should stay within [0, max)', () => {
+    for (let i = 0; i < 100; i++) {
+      const value = secureRandom.randomInt(3);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(3);
+    }
+  });
+});
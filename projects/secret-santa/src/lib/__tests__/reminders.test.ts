@@ -0,0 +1,71 @@
+import {
+  describeReminderSchedule,
+  isReminderDue,
+  reminderDueAt,
+  validateReminderSchedule,
+} from '../reminders';
+
+const invitedAt = new Date('2026-12-01T10:00:00Z');
+const invited = { notifiedAt: invitedAt, viewedAt: null };
+
+describe('validateReminderSchedule', () => {
+  it('should accept a known anchor and a whole number of days', () => {
+    expect(validateReminderSchedule('AFTER_INVITE', 3)).toBeNull();
+    expect(validateReminderSchedule('BEFORE_EVENT', 60)).toBeNull();
+  });
+
+  it('should reject an unknown anchor or out-of-range days', () => {
+    expect(validateReminderSchedule('AFTER_VIEW', 3)).toMatch(/Anchor must be/);
+    expect(validateReminderSchedule('AFTER_INVITE', 0)).toMatch(/Days must be/);
+    expect(validateReminderSchedule('AFTER_INVITE', 1.5)).toMatch(/Days must be/);
+    expect(validateReminderSchedule('AFTER_INVITE', '3')).toMatch(/Days must be/);
+  });
+});
+
+describe('describeReminderSchedule', () => {
+  it('should describe both anchors', () => {
+    expect(describeReminderSchedule({ anchor: 'AFTER_INVITE', days: 3 })).toBe('3 days after the invite');
+    expect(describeReminderSchedule({ anchor: 'BEFORE_EVENT', days: 1 })).toBe('1 day before the event');
+  });
+});
+
+describe('reminderDueAt', () => {
+  it('should count from the invite or back from the event date', () => {
+    expect(reminderDueAt({ anchor: 'AFTER_INVITE', days: 3 }, invitedAt, null))
+      .toEqual(new Date('2026-12-04T10:00:00Z'));
+    expect(reminderDueAt({ anchor: 'BEFORE_EVENT', days: 7 }, invitedAt, '2026-12-20'))
+      .toEqual(new Date('2026-12-13T00:00:00Z'));
+  });
+
+  it('should never be due before an event without a date', () => {
+    expect(reminderDueAt({ anchor: 'BEFORE_EVENT', days: 7 }, invitedAt, null)).toBeNull();
+  });
+});
+
+describe('isReminderDue', () => {
+  const afterInvite = { anchor: 'AFTER_INVITE', days: 3 };
+
+  it('should be due once the time has come', () => {
+    expect(isReminderDue(afterInvite, invited, '2026-12-20', new Date('2026-12-04T09:00:00Z'))).toBe(false);
+    expect(isReminderDue(afterInvite, invited, '2026-12-20', new Date('2026-12-04T10:00:00Z'))).toBe(true);
+  });
+
+  it('should skip participants who viewed or were never invited', () => {
+    const now = new Date('2026-12-10T00:00:00Z');
+
+    expect(isReminderDue(afterInvite, { notifiedAt: invitedAt, viewedAt: new Date() }, null, now)).toBe(false);
+    expect(isReminderDue(afterInvite, { notifiedAt: null, viewedAt: null }, null, now)).toBe(false);
+  });
+
+  it('should send nothing on or after the event day', () => {
+    expect(isReminderDue(afterInvite, invited, '2026-12-03', new Date('2026-12-04T12:00:00Z'))).toBe(false);
+  });
+
+  it('should skip a reminder that fell due before the invite', () => {
+    const beforeEvent = { anchor: 'BEFORE_EVENT', days: 7 };
+    const now = new Date('2026-12-05T00:00:00Z');
+
+    expect(isReminderDue(beforeEvent, invited, '2026-12-07', now)).toBe(false);
+    expect(isReminderDue(beforeEvent, invited, '2026-12-12', now)).toBe(true);
+  });
+});
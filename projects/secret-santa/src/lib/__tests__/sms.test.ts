@@ -0,0 +1,108 @@
+import { inviteChannel } from '../notification-channel';
+import { inviteSmsBody, sendInviteSms, sendRedrawNoticeSms } from '../sms';
+import { createSmsProvider, normalizePhoneNumber, smsProviderProblem, type SmsProvider } from '../sms-provider';
+
+const ENV_KEYS = ['SMS_PROVIDER', 'SMS_COUNTRY_CODE', 'TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'TWILIO_FROM'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = savedEnv[key];
+    }
+  }
+});
+
+describe('normalizePhoneNumber', () => {
+  it('should keep an international number', () => {
+    expect(normalizePhoneNumber('+44 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhoneNumber('0044 20 7946 0958')).toBe('+442079460958');
+  });
+
+  it('should add the default country code to a national number', () => {
+    expect(normalizePhoneNumber('(415) 555-0123')).toBe('+14155550123');
+
+    process.env.SMS_COUNTRY_CODE = '44';
+    expect(normalizePhoneNumber('020 7946 0958')).toBe('+442079460958');
+  });
+
+  it('should reject something that is not a phone number', () => {
+    expect(normalizePhoneNumber('call me')).toBeNull();
+    expect(normalizePhoneNumber('+1 234')).toBeNull();
+  });
+});
+
+describe('inviteChannel', () => {
+  it('should prefer email and text only participants without one', () => {
+    expect(inviteChannel({ email: 'a@example.com', phone: '4155550123' })).toBe('EMAIL');
+    expect(inviteChannel({ email: null, phone: '4155550123' })).toBe('SMS');
+    expect(inviteChannel({ email: null, phone: '  ' })).toBeNull();
+  });
+});
+
+describe('smsProviderProblem', () => {
+  it('should report SMS as off until a provider is chosen and configured', () => {
+    expect(smsProviderProblem()).toMatch(/not set up/);
+    expect(createSmsProvider()).toBeNull();
+
+    process.env.SMS_PROVIDER = 'twilio';
+    expect(smsProviderProblem()).toMatch(/TWILIO_ACCOUNT_SID/);
+
+    process.env.TWILIO_ACCOUNT_SID = 'AC123';
+    process.env.TWILIO_AUTH_TOKEN = 'secret';
+    process.env.TWILIO_FROM = '+15005550006';
+    expect(smsProviderProblem()).toBeNull();
+  });
+});
+
+describe('sendInviteSms', () => {
+  it('should text the reveal link with the event details', async () => {
+    const send = jest.fn().mockResolvedValue({ success: true });
+    const provider: SmsProvider = { kind: 'STUB', send };
+
+    const result = await sendInviteSms(
+      provider, '415-555-0123', 'Alice', 'Office Party', 'https://example.com/reveal/abc', '2026-12-18', '$25'
+    );
+
+    expect(result.success).toBe(true);
+    expect(send).toHaveBeenCalledWith({
+      to: '+14155550123',
+      body: inviteSmsBody('Alice', 'Office Party', 'https://example.com/reveal/abc', '2026-12-18', '$25'),
+    });
+    const { body } = send.mock.calls[0][0];
+    expect(body).toContain('Hi Alice!');
+    expect(body).toContain('Budget: $25');
+    expect(body).toContain('Fri, Dec 18');
+  });
+
+  it('should fail without sending to an invalid number', async () => {
+    const send = jest.fn();
+
+    const result = await sendInviteSms({ kind: 'STUB', send }, 'n/a', 'Alice', 'Office Party', 'https://x');
+
+    expect(result.success).toBe(false);
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe('sendRedrawNoticeSms', () => {
+  it('should say the assignment will change without voiding the link', async () => {
+    const send = jest.fn().mockResolvedValue({ success: true });
+
+    const result = await sendRedrawNoticeSms({ kind: 'STUB', send }, '415-555-0123', 'Alice', 'Office Party');
+
+    expect(result.success).toBe(true);
+    const { to, body } = send.mock.calls[0][0];
+    expect(to).toBe('+14155550123');
+    expect(body).toContain('your assignment will change');
+    expect(body).not.toMatch(/ignore/i);
+  });
+});
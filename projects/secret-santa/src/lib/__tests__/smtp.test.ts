@@ -0,0 +1,87 @@
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { sendEmailViaSmtp } from '../smtp';
+
+const email = { to: 'alice@example.com', subject: 'Hi', html: '<p>Hello</p>', text: 'Hello' };
+
+/**
+ * A plain-text SMTP server that offers no STARTTLS and records every command it receives
+ */
+async function startPlainServer(): Promise<{ port: number; commands: string[]; close: () => Promise<void> }> {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    socket.write('220 test ready\r\n');
+    let buffer = '';
+    let inData = false;
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+          continue;
+        }
+        commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+        else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('sendEmailViaSmtp', () => {
+  it('should refuse to send the password over a connection without STARTTLS', async () => {
+    const server = await startPlainServer();
+
+    try {
+      const result = await sendEmailViaSmtp(
+        {
+          host: '127.0.0.1',
+          port: server.port,
+          secure: false,
+          user: 'santa',
+          password: 'hunter2',
+          from: 'santa@example.com',
+        },
+        email
+      );
+
+      expect(result).toEqual({ success: false, error: expect.stringMatching(/does not offer STARTTLS/) });
+      expect(server.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should send without STARTTLS when no password is involved', async () => {
+    const server = await startPlainServer();
+
+    try {
+      const result = await sendEmailViaSmtp(
+        { host: '127.0.0.1', port: server.port, secure: false, from: 'santa@example.com' },
+        email
+      );
+
+      expect(result).toEqual({ success: true });
+      expect(server.commands).toContain('RCPT TO:<alice@example.com>');
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,317 @@
+import {
+  buildAssignmentFilter,
+  generatePartialMultiAssignments,
+  validateTopology,
+  type AssignmentConstraints,
+} from "@/lib/derangement";
+import type { CommittedAssignment } from "@/lib/draw-commitment";
+import { buildConstraints } from "@/lib/event-constraints";
+import { poolMessage, splitIntoPools } from "@/lib/pools";
+import { secureRandom, type RandomSource } from "@/lib/random";
+
+/**
+ * What can be wrong with the stored assignments
+ * - STRAY: an assignment whose giver isn't in the event
+ * - EXTRA: a giver with more than one assignment in a round, or one past the last round
+ * - MISSING: a participant who gives nothing in a round
+ * - SELF: a participant assigned to themselves
+ * - OUTSIDE_DRAW: a receiver who isn't in the giver's pool (or the event)
+ * - DUPLICATE_RECEIVER: more than one giver assigned to the same receiver
+ * - NO_GIVER: a participant nobody gives to
+ * - REPEATED_PAIR: the same receiver in more than one round
+ * - RULE: an exclusion, household, side, must-give-to pair or matching rule broken
+ * - TOPOLOGY: the loops don't have the event's draw style
+ */
+export type IntegrityProblemKind =
+  | "STRAY"
+  | "EXTRA"
+  | "MISSING"
+  | "SELF"
+  | "OUTSIDE_DRAW"
+  | "DUPLICATE_RECEIVER"
+  | "NO_GIVER"
+  | "REPEATED_PAIR"
+  | "RULE"
+  | "TOPOLOGY";
+
+/**
+ * One kind of problem in one round of one draw - a count only, never who is involved
+ */
+export interface IntegrityProblem {
+  kind: IntegrityProblemKind;
+  /** Pool name, or null for assignments that belong to no draw */
+  pool: string | null;
+  round: number;
+  count: number;
+}
+
+export interface IntegrityReport {
+  valid: boolean;
+  problems: IntegrityProblem[];
+  /** Givers whose assignments have to be redrawn to fix the problems */
+  affectedGiverIds: string[];
+  /** Assignments to delete outright, since their giver isn't in the event */
+  strayCount: number;
+}
+
+export interface IntegrityDraw {
+  name: string;
+  participantIds: string[];
+  constraints: AssignmentConstraints;
+}
+
+/**
+ * One draw per pool, with the constraints its assignments must follow
+ */
+export function buildIntegrityDraws<
+  P extends Parameters<typeof buildConstraints>[0]["participants"][number] & { poolId: string | null }
+>(
+  event: Omit<Parameters<typeof buildConstraints>[0], "participants"> & {
+    participants: P[];
+    pools: { id: string; name: string; budget: string | null }[];
+  }
+): IntegrityDraw[] {
+  return splitIntoPools(event.participants, event.pools).map(draw => ({
+    name: draw.name,
+    participantIds: draw.participants.map(p => p.id),
+    constraints: buildConstraints({ ...event, participants: draw.participants }),
+  }));
+}
+
+const PROBLEM_DESCRIPTIONS: Record<IntegrityProblemKind, (count: number) => string> = {
+  STRAY: (count) => `${count} assignment(s) belong to someone who isn't in the event`,
+  EXTRA: (count) => `${count} participant(s) have more assignments than they should`,
+  MISSING: (count) => `${count} participant(s) have no recipient`,
+  SELF: (count) => `${count} participant(s) are assigned to themselves`,
+  OUTSIDE_DRAW: (count) => `${count} participant(s) are assigned to someone outside their draw`,
+  DUPLICATE_RECEIVER: (count) => `${count} participant(s) share their recipient with another giver`,
+  NO_GIVER: (count) => `${count} participant(s) receive no gift`,
+  REPEATED_PAIR: (count) => `${count} participant(s) have the same recipient as in an earlier round`,
+  RULE: (count) => `${count} assignment(s) break an exclusion, household, side, must-give-to pair or rule`,
+  TOPOLOGY: () => "The loops don't match the draw style",
+};
+
+/**
+ * Human-readable problem for the admin, naming the pool and round only when there is more than one
+ */
+export function describeIntegrityProblem(
+  problem: IntegrityProblem,
+  drawCount: number,
+  giftsPerParticipant: number
+): string {
+  let message = PROBLEM_DESCRIPTIONS[problem.kind](problem.count);
+  if (giftsPerParticipant > 1 && problem.kind !== "STRAY") {
+    message = `Gift ${problem.round + 1}: ${message}`;
+  }
+  return problem.pool === null ? message : poolMessage({ name: problem.pool }, drawCount, message);
+}
+
+/**
+ * Re-validates stored assignments against the event: every draw (pool) must have, in every
+ * round, one recipient per giver that follows the constraints and the draw style.
+ *
+ * Problems are attributed to the givers whose assignment has to change. When several givers
+ * share a receiver one of them keeps it - someone who already viewed, if possible - and a
+ * broken loop shape can't be pinned on anyone, so every unviewed giver in that draw is
+ * affected.
+ *
+ * @param viewedIds - Participants who already viewed their assignment
+ */
+export function checkAssignmentIntegrity(
+  draws: IntegrityDraw[],
+  assignments: CommittedAssignment[],
+  giftsPerParticipant: number,
+  viewedIds: ReadonlySet<string> = new Set()
+): IntegrityReport {
+  const problems: IntegrityProblem[] = [];
+  const affected = new Set<string>();
+  const report = (kind: IntegrityProblemKind, pool: string | null, round: number, givers: string[]) => {
+    if (givers.length > 0) {
+      problems.push({ kind, pool, round, count: givers.length });
+      givers.forEach((giverId) => affected.add(giverId));
+    }
+  };
+
+  const drawOf = new Map<string, IntegrityDraw>();
+  for (const draw of draws) {
+    draw.participantIds.forEach((id) => drawOf.set(id, draw));
+  }
+
+  const strayCount = assignments.filter((a) => !drawOf.has(a.giverId)).length;
+  if (strayCount > 0) {
+    problems.push({ kind: "STRAY", pool: null, round: 0, count: strayCount });
+  }
+
+  for (const draw of draws) {
+    const members = new Set(draw.participantIds);
+    const rounds: Map<string, string>[] = [];
+
+    for (let round = 0; round < giftsPerParticipant; round++) {
+      const isAllowed = buildAssignmentFilter({
+        ...draw.constraints,
+        forcedPairs: round === 0 ? draw.constraints.forcedPairs : undefined,
+      });
+      const byGiver = new Map<string, string[]>();
+      for (const a of assignments) {
+        if (a.round === round && members.has(a.giverId)) {
+          byGiver.set(a.giverId, [...(byGiver.get(a.giverId) ?? []), a.receiverId]);
+        }
+      }
+
+      const extra = [...byGiver].filter(([, receivers]) => receivers.length > 1).map(([id]) => id);
+      const missing = draw.participantIds.filter((id) => !byGiver.has(id));
+      const single = [...byGiver]
+        .filter(([, receivers]) => receivers.length === 1)
+        .map(([giverId, receivers]) => [giverId, receivers[0]!] as const);
+
+      const self = single.filter(([giverId, receiverId]) => giverId === receiverId);
+      const outside = single.filter(([, receiverId]) => !members.has(receiverId));
+      const repeated = single.filter(([giverId, receiverId]) =>
+        assignments.some((a) => a.round < round && a.giverId === giverId && a.receiverId === receiverId)
+      );
+      const broken = single.filter(
+        ([giverId, receiverId]) =>
+          giverId !== receiverId && members.has(receiverId) && !isAllowed(giverId, receiverId)
+      );
+
+      // Of the givers sharing a receiver, the first viewer (or else the first) keeps it
+      const givers = new Map<string, string[]>();
+      for (const [giverId, receiverId] of single) {
+        if (members.has(receiverId)) {
+          givers.set(receiverId, [...(givers.get(receiverId) ?? []), giverId]);
+        }
+      }
+      const duplicates = [...givers.values()]
+        .filter((ids) => ids.length > 1)
+        .flatMap((ids) => {
+          const keeper = ids.find((id) => viewedIds.has(id)) ?? ids[0]!;
+          return ids.filter((id) => id !== keeper);
+        });
+      const noGiver = draw.participantIds.filter((id) => !givers.has(id));
+
+      report("EXTRA", draw.name, round, extra);
+      report("MISSING", draw.name, round, missing);
+      report("SELF", draw.name, round, self.map(([id]) => id));
+      report("OUTSIDE_DRAW", draw.name, round, outside.map(([id]) => id));
+      report("DUPLICATE_RECEIVER", draw.name, round, duplicates);
+      report("REPEATED_PAIR", draw.name, round, repeated.map(([id]) => id));
+      report("RULE", draw.name, round, broken.map(([id]) => id));
+      if (noGiver.length > 0) {
+        problems.push({ kind: "NO_GIVER", pool: draw.name, round, count: noGiver.length });
+      }
+
+      rounds.push(new Map(single));
+    }
+
+    // Assignments past the last round are extra too
+    const pastLastRound = assignments.filter(
+      (a) => a.round >= giftsPerParticipant && members.has(a.giverId)
+    );
+    for (const round of new Set(pastLastRound.map((a) => a.round))) {
+      report(
+        "EXTRA",
+        draw.name,
+        round,
+        [...new Set(pastLastRound.filter((a) => a.round === round).map((a) => a.giverId))]
+      );
+    }
+
+    // The loop shape only means something once every giver has exactly one recipient
+    const complete = rounds.every(
+      (round) => round.size === draw.participantIds.length
+    );
+    if (complete && problems.every((p) => p.pool !== draw.name)) {
+      const brokenRounds = [...rounds.keys()].filter(
+        (round) => !validateTopology(rounds[round]!, draw.constraints.topology).valid
+      );
+      for (const round of brokenRounds) {
+        problems.push({ kind: "TOPOLOGY", pool: draw.name, round, count: 1 });
+      }
+      if (brokenRounds.length > 0) {
+        draw.participantIds.filter((id) => !viewedIds.has(id)).forEach((id) => affected.add(id));
+      }
+    }
+  }
+
+  return {
+    valid: problems.length === 0,
+    problems,
+    affectedGiverIds: [...affected],
+    strayCount,
+  };
+}
+
+/**
+ * Whether the integrity repair can fix the report without touching an assignment someone
+ * already saw
+ */
+export function analyzeIntegrityRepair(
+  report: IntegrityReport,
+  viewedIds: ReadonlySet<string>
+): { canRepair: boolean; reason?: string } {
+  if (report.valid) {
+    return { canRepair: false, reason: "No problems found - nothing to repair" };
+  }
+
+  const viewedCount = report.affectedGiverIds.filter((id) => viewedIds.has(id)).length;
+  if (viewedCount > 0) {
+    return {
+      canRepair: false,
+      reason:
+        `${viewedCount} participant(s) with a broken assignment already viewed it, so it can't ` +
+        "be redrawn behind their back. Regenerate the assignments instead.",
+    };
+  }
+  return { canRepair: true };
+}
+
+/**
+ * Redraws only the affected givers, keeping every other assignment as it is
+ * In each draw the affected givers are treated like the unlocked participants of a partial
+ * regeneration: they are reassigned to whoever is left without a giver, following the
+ * constraints and the draw style.
+ *
+ * @returns The new assignments of the affected givers, every round
+ * @throws AssignmentImpossibleError when the affected givers can't be redrawn on their own
+ */
+export function repairAssignments(
+  draws: IntegrityDraw[],
+  assignments: CommittedAssignment[],
+  giftsPerParticipant: number,
+  affectedGiverIds: string[],
+  rng: RandomSource = secureRandom
+): CommittedAssignment[] {
+  const affected = new Set(affectedGiverIds);
+  const repaired: CommittedAssignment[] = [];
+
+  for (const draw of draws) {
+    const unlocked = draw.participantIds.filter((id) => affected.has(id));
+    if (unlocked.length === 0) {
+      continue;
+    }
+
+    const locked = draw.participantIds.filter((id) => !affected.has(id));
+    const lockedSet = new Set(locked);
+    const lockedRounds = Array.from({ length: giftsPerParticipant }, () => new Map<string, string>());
+    for (const a of assignments) {
+      if (lockedSet.has(a.giverId)) {
+        lockedRounds[a.round]?.set(a.giverId, a.receiverId);
+      }
+    }
+
+    const { rounds } = generatePartialMultiAssignments(
+      unlocked,
+      lockedRounds,
+      locked,
+      draw.constraints,
+      rng
+    );
+    rounds.forEach((round, index) => {
+      for (const [giverId, receiverId] of round) {
+        repaired.push({ giverId, receiverId, round: index });
+      }
+    });
+  }
+
+  return repaired;
+}
@@ -0,0 +1,187 @@
+import type { Prisma } from "@prisma/client";
+import type { CommittedAssignment } from "@/lib/draw-commitment";
+
+/**
+ * What produced an assignment version
+ * - FULL / PARTIAL: a (re)generation, PARTIAL when anyone kept their assignment
+ * - LATE_ADDITION / WITHDRAWAL: the draw was repaired around one participant
+ * - REPAIR: broken stored assignments were redrawn by the integrity check
+ */
+export type AssignmentVersionKind =
+  | "FULL"
+  | "PARTIAL"
+  | "LATE_ADDITION"
+  | "WITHDRAWAL"
+  | "REPAIR";
+
+export const MAX_GENERATED_BY_LENGTH = 100;
+
+/**
+ * Reads a version's snapshot from the stored JSON, skipping anything malformed
+ */
+export function readVersionAssignments(value: unknown): CommittedAssignment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (item): item is CommittedAssignment =>
+      typeof item === "object" &&
+      item !== null &&
+      typeof item.giverId === "string" &&
+      typeof item.receiverId === "string" &&
+      typeof item.round === "number"
+  );
+}
+
+function assignmentKey(assignment: { giverId: string; round: number }): string {
+  return `${assignment.round}:${assignment.giverId}`;
+}
+
+/**
+ * Givers whose recipient (in any round) differs between two snapshots, or who are only in one
+ */
+export function findChangedGivers(
+  from: CommittedAssignment[],
+  to: CommittedAssignment[]
+): string[] {
+  const before = new Map(from.map(a => [assignmentKey(a), a.receiverId]));
+  const after = new Map(to.map(a => [assignmentKey(a), a.receiverId]));
+  const changed = new Set<string>();
+
+  for (const assignment of from) {
+    if (after.get(assignmentKey(assignment)) !== assignment.receiverId) {
+      changed.add(assignment.giverId);
+    }
+  }
+  for (const assignment of to) {
+    if (!before.has(assignmentKey(assignment))) {
+      changed.add(assignment.giverId);
+    }
+  }
+  return [...changed];
+}
+
+export interface RollbackAnalysis {
+  canRollBack: boolean;
+  reason?: string;
+  /** Givers whose recipient the rollback changes - they need a fresh notification */
+  changedGiverIds: string[];
+}
+
+/**
+ * Checks whether the current assignments can be replaced by the previous version
+ *
+ * The participants must be the same people (a latecomer or a withdrawal in between makes
+ * the old snapshot incomplete), and nobody whose assignment would change may have viewed
+ * it - someone who viewed but keeps the same recipient in both versions is fine.
+ */
+export function analyzeRollback(
+  current: CommittedAssignment[],
+  previous: CommittedAssignment[],
+  participants: { id: string; name: string; viewedAt: Date | null }[]
+): RollbackAnalysis {
+  const participantIds = new Set(participants.map(p => p.id));
+  const previousIds = new Set(previous.flatMap(a => [a.giverId, a.receiverId]));
+
+  const joined = participants.filter(p => !previousIds.has(p.id));
+  const left = [...previousIds].filter(id => !participantIds.has(id));
+  if (joined.length > 0 || left.length > 0) {
+    const names = joined.map(p => p.name);
+    return {
+      canRollBack: false,
+      reason:
+        names.length > 0
+          ? `${names.join(", ")} joined after the previous version, so it no longer covers everyone`
+          : "Someone withdrew after the previous version, so it no longer matches the participants",
+      changedGiverIds: [],
+    };
+  }
+
+  const changedGiverIds = findChangedGivers(current, previous);
+  const changed = new Set(changedGiverIds);
+  const viewed = participants.filter(p => changed.has(p.id) && p.viewedAt !== null);
+  if (viewed.length > 0) {
+    return {
+      canRollBack: false,
+      reason:
+        `${viewed.map(p => p.name).join(", ")} already viewed ` +
+        `${viewed.length === 1 ? "an assignment" : "assignments"} that the rollback would change`,
+      changedGiverIds,
+    };
+  }
+
+  return { canRollBack: true, changedGiverIds };
+}
+
+interface StoredVersion {
+  number: number;
+  rolledBackAt: Date | null;
+  assignments: unknown;
+}
+
+/**
+ * Finds the version in effect and the one before it (skipping rolled-back versions), and
+ * checks whether the stored assignments can go back to the earlier one
+ */
+export function planRollback<V extends StoredVersion>(
+  versions: V[],
+  currentAssignments: CommittedAssignment[],
+  participants: { id: string; name: string; viewedAt: Date | null }[]
+): RollbackAnalysis & { current?: V; previous?: V } {
+  const live = versions
+    .filter(version => version.rolledBackAt === null)
+    .sort((a, b) => b.number - a.number);
+  const [current, previous] = live;
+
+  if (!current || !previous) {
+    return {
+      canRollBack: false,
+      reason: "There is no earlier version to roll back to",
+      changedGiverIds: [],
+      current,
+    };
+  }
+
+  return {
+    ...analyzeRollback(currentAssignments, readVersionAssignments(previous.assignments), participants),
+    current,
+    previous,
+  };
+}
+
+/**
+ * Records the event's complete assignments as they are now stored as a new version
+ * Call inside the transaction that changed them, after every change is written
+ *
+ * @param db - Prisma client or transaction client
+ */
+export async function recordAssignmentVersion(
+  db: Prisma.TransactionClient,
+  eventId: string,
+  version: {
+    kind: AssignmentVersionKind;
+    lockedParticipantIds: string[];
+    generatedBy?: string | null;
+  }
+) {
+  const assignments = await db.assignment.findMany({
+    where: { eventId },
+    select: { giverId: true, receiverId: true, round: true },
+  });
+  const latest = await db.assignmentVersion.findFirst({
+    where: { eventId },
+    orderBy: { number: "desc" },
+    select: { number: true },
+  });
+
+  return db.assignmentVersion.create({
+    data: {
+      eventId,
+      number: (latest?.number ?? 0) + 1,
+      kind: version.kind,
+      generatedBy: version.generatedBy || null,
+      lockedParticipantIds: version.lockedParticipantIds,
+      assignments,
+    },
+  });
+}
@@ -1,3 +1,5 @@
+import { secureRandom, type RandomSource } from "@/lib/random";
+
 /**
  * Validation result for assignment checking
  */
@@ -15,6 +17,207 @@ export interface RegenerationAnalysis {
   lockedParticipants: string[];
   unlockedParticipants: string[];
   reason?: string;
+  /**
+   * Valid reassignments of the unlocked givers other than the current one - only counted
+   * when fewer than MIN_PARTICIPANTS_FOR_REGENERATION are unlocked and the current draw is given
+   */
+  alternativeCount?: number;
+}
+
+/**
+ * A pair of participants who must not draw each other (in either direction)
+ */
+export interface ExclusionPair {
+  participant1Id: string;
+  participant2Id: string;
+}
+
+/**
+ * A single giver -> receiver pairing (e.g. one from a previous year's draw)
+ */
+export interface DirectedPair {
+  giverId: string;
+  receiverId: string;
+}
+
+/**
+ * Shape of the gift-giving loop(s) a draw may produce
+ * - SINGLE_CYCLE: everyone forms one big loop (A->B->C->...->A)
+ * - ANY_DERANGEMENT: any arrangement where nobody draws themselves, picked uniformly
+ * - NO_MUTUAL_PAIRS: any arrangement without two people drawing each other (A->B and B->A)
+ */
+export type AssignmentTopology = "SINGLE_CYCLE" | "ANY_DERANGEMENT" | "NO_MUTUAL_PAIRS";
+
+export const ASSIGNMENT_TOPOLOGIES: readonly AssignmentTopology[] = [
+  "SINGLE_CYCLE",
+  "ANY_DERANGEMENT",
+  "NO_MUTUAL_PAIRS",
+];
+
+export const DEFAULT_ASSIGNMENT_TOPOLOGY: AssignmentTopology = "SINGLE_CYCLE";
+
+export function isAssignmentTopology(value: unknown): value is AssignmentTopology {
+  return ASSIGNMENT_TOPOLOGIES.includes(value as AssignmentTopology);
+}
+
+/**
+ * Who may draw whom across the event:
+ * - OPEN: anyone, subject to the other constraints
+ * - CROSS_SIDES: participants are split into two equal sides (e.g. two departments)
+ *   and everyone gives to someone on the other side
+ */
+export type ExchangeMode = "OPEN" | "CROSS_SIDES";
+
+export const EXCHANGE_MODES: readonly ExchangeMode[] = ["OPEN", "CROSS_SIDES"];
+
+export const DEFAULT_EXCHANGE_MODE: ExchangeMode = "OPEN";
+
+export function isExchangeMode(value: unknown): value is ExchangeMode {
+  return EXCHANGE_MODES.includes(value as ExchangeMode);
+}
+
+/**
+ * A declarative rule over a participant attribute, e.g. { attribute: "office", relation: "SAME" }
+ * - SAME: givers only draw receivers with the same value ("kids draw kids")
+ * - DIFFERENT: givers never draw receivers with the same value ("never your own department")
+ * A rule only applies between two participants who both have a value for the attribute
+ */
+export interface AttributeRule {
+  attribute: string;
+  relation: "SAME" | "DIFFERENT";
+}
+
+export function isAttributeRuleRelation(value: unknown): value is AttributeRule["relation"] {
+  return value === "SAME" || value === "DIFFERENT";
+}
+
+/**
+ * Rules that restrict who may be assigned to whom, on top of "never yourself"
+ */
+export interface AssignmentConstraints {
+  exclusions?: ExclusionPair[];
+  /** Participant ID -> group (household) ID; members of a group never draw each other */
+  groups?: Map<string, string>;
+  /** One-way pairs to avoid, such as previous draws - see generateWithHistoryFallback */
+  avoidPairs?: DirectedPair[];
+  /** Required loop shape; defaults to DEFAULT_ASSIGNMENT_TOPOLOGY */
+  topology?: AssignmentTopology;
+  /** Fixed "must give to" edges; the rest of the arrangement is drawn around them */
+  forcedPairs?: DirectedPair[];
+  /** Participant ID -> side for a CROSS_SIDES exchange; everyone gives to the other side */
+  sides?: Map<string, string>;
+  /** Participant ID -> custom attributes (attribute name -> value) that the rules refer to */
+  attributes?: Map<string, Record<string, string>>;
+  rules?: AttributeRule[];
+}
+
+/**
+ * How an attribute rule affects the draw, as counts only so the admin stays blind
+ */
+export interface RuleAnalysis {
+  rule: AttributeRule;
+  /** Giver -> receiver pairs the rule rules out on its own */
+  blockedPairCount: number;
+  /** The draw is impossible with every rule, but possible once this one is dropped */
+  binding: boolean;
+}
+
+/**
+ * Constraints that ruled out at least one pairing among the participants of a draw,
+ * as counts only so a preview can't reveal who was kept apart
+ */
+export interface BindingConstraintCounts {
+  exclusions: number;
+  /** Groups (households) with at least two members in the draw */
+  groups: number;
+  forcedPairs: number;
+  rules: number;
+  total: number;
+}
+
+/**
+ * Assignments for a k-gift exchange: one complete arrangement per round
+ * Every participant gives once and receives once in each round
+ */
+export interface MultiAssignmentResult {
+  rounds: Map<string, string>[];
+  attempts: number;
+}
+
+/**
+ * Outcome of avoiding past pairings, reported as counts only so the admin stays blind
+ */
+export interface HistoryAvoidanceResult {
+  /** How many past draws we were asked to avoid repeating */
+  requestedDepth: number;
+  /** How many of the most recent past draws were actually avoided */
+  depthUsed: number;
+  /** New assignments that repeat a pairing from any of the requested past draws */
+  repeatedPairCount: number;
+}
+
+/**
+ * A set of participants on one side of the matching who cannot all be matched,
+ * because between them they have fewer eligible partners than members
+ */
+export interface FeasibilityProblem {
+  side: "giver" | "receiver";
+  participantIds: string[];
+  /** Everyone they may be matched with - always fewer than participantIds */
+  candidateIds: string[];
+}
+
+/**
+ * Result of checking whether the constraints allow a complete assignment
+ */
+export interface FeasibilityAnalysis {
+  feasible: boolean;
+  /** Givers left without a recipient in the best possible matching */
+  unmatchedGiverIds: string[];
+  problems: FeasibilityProblem[];
+}
+
+/**
+ * A reason the forced pairs can't all be honored, whoever else is in the draw
+ * - self: participantIds is [giver]
+ * - giver-twice: [giver, first receiver, second receiver]
+ * - receiver-twice: [receiver, first giver, second giver]
+ * - excluded: [giver, receiver], kept apart by an exclusion, a shared group or a shared side
+ * - rule: [giver, receiver], kept apart by the attribute rule in rule
+ * - closed-loop: the loop in giving order, closed without everyone under SINGLE_CYCLE
+ * - mutual-pair: [giver, receiver], forced to give to each other under NO_MUTUAL_PAIRS
+ */
+export interface ForcedPairProblem {
+  kind:
+    | "self"
+    | "giver-twice"
+    | "receiver-twice"
+    | "excluded"
+    | "rule"
+    | "closed-loop"
+    | "mutual-pair";
+  participantIds: string[];
+  rule?: AttributeRule;
+}
+
+/**
+ * Thrown when the constraints leave no valid way to assign everyone
+ * Retrying cannot help - the admin has to relax the constraints
+ */
+export class AssignmentImpossibleError extends Error {
+  feasibility?: FeasibilityAnalysis;
+  forcedPairProblems?: ForcedPairProblem[];
+
+  constructor(
+    message: string,
+    feasibility?: FeasibilityAnalysis,
+    forcedPairProblems?: ForcedPairProblem[]
+  ) {
+    super(message);
+    this.name = "AssignmentImpossibleError";
+    this.feasibility = feasibility;
+    this.forcedPairProblems = forcedPairProblems;
+  }
 }
 
 /**
@@ -92,38 +295,868 @@ export function validatePartialAssignments(
     }
   }
 
-  // Check: No self-assignments
-  for (const [giver, receiver] of assignments) {
-    if (giver === receiver) {
-      errors.push(`Self-assignment detected: ${giver}`);
+  // Check: No self-assignments
+  for (const [giver, receiver] of assignments) {
+    if (giver === receiver) {
+      errors.push(`Self-assignment detected: ${giver}`);
+    }
+  }
+
+  // Check: Each participant in the group receives from exactly one person in the group
+  const receivers = Array.from(assignments.values());
+  const receiverCounts = new Map<string, number>();
+  for (const receiver of receivers) {
+    receiverCounts.set(receiver, (receiverCounts.get(receiver) || 0) + 1);
+  }
+
+  for (const participant of participants) {
+    const count = receiverCounts.get(participant) || 0;
+    if (count !== 1) {
+      errors.push(`Participant ${participant} receives ${count} gifts (should be 1)`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Builds a predicate answering "may this giver be assigned to this receiver?"
+ * Nobody draws themselves; exclusions apply both ways and avoided pairs one way
+ * Nobody draws from their own group, with sides everyone draws from the other side, and
+ * attribute rules must hold
+ * A forced pair is the only option for its giver and its receiver and wins over avoided pairs -
+ * conflicts with the other rules are reported by findForcedPairProblems
+ */
+export function buildAssignmentFilter(
+  constraints: AssignmentConstraints = {}
+): (giver: string, receiver: string) => boolean {
+  const excludedPairs = new Set<string>();
+  for (const { participant1Id, participant2Id } of constraints.exclusions ?? []) {
+    excludedPairs.add(pairKey(participant1Id, participant2Id));
+    excludedPairs.add(pairKey(participant2Id, participant1Id));
+  }
+  for (const { giverId, receiverId } of constraints.avoidPairs ?? []) {
+    excludedPairs.add(pairKey(giverId, receiverId));
+  }
+  const groups = constraints.groups ?? new Map<string, string>();
+  const sides = constraints.sides;
+  const rules = constraints.rules ?? [];
+  const attributes = constraints.attributes ?? new Map<string, Record<string, string>>();
+  const forcedReceivers = new Map<string, string>();
+  const forcedGivers = new Set<string>();
+  for (const { giverId, receiverId } of constraints.forcedPairs ?? []) {
+    forcedReceivers.set(giverId, receiverId);
+    forcedGivers.add(receiverId);
+  }
+
+  return (giver, receiver) => {
+    if (giver === receiver) {
+      return false;
+    }
+    if (forcedReceivers.has(giver) || forcedGivers.has(receiver)) {
+      return forcedReceivers.get(giver) === receiver;
+    }
+    if (excludedPairs.has(pairKey(giver, receiver))) {
+      return false;
+    }
+    if (sides && sides.get(giver) === sides.get(receiver)) {
+      return false;
+    }
+    if (rules.some((rule) => breaksRule(rule, attributes.get(giver), attributes.get(receiver)))) {
+      return false;
+    }
+    const giverGroup = groups.get(giver);
+    return giverGroup === undefined || giverGroup !== groups.get(receiver);
+  };
+}
+
+/**
+ * Whether assigning a giver with these attributes to this receiver breaks the rule
+ */
+function breaksRule(
+  rule: AttributeRule,
+  giverAttributes: Record<string, string> | undefined,
+  receiverAttributes: Record<string, string> | undefined
+): boolean {
+  const giverValue = giverAttributes?.[rule.attribute];
+  const receiverValue = receiverAttributes?.[rule.attribute];
+  if (giverValue === undefined || receiverValue === undefined) {
+    return false;
+  }
+  return rule.relation === "SAME" ? giverValue !== receiverValue : giverValue === receiverValue;
+}
+
+/**
+ * Describes a rule for the organizer, e.g. "only match within the same office"
+ */
+export function describeAttributeRule(rule: AttributeRule): string {
+  return rule.relation === "SAME"
+    ? `only match within the same ${rule.attribute}`
+    : `never match within the same ${rule.attribute}`;
+}
+
+function pairKey(giver: string, receiver: string): string {
+  return `${giver}->${receiver}`;
+}
+
+/**
+ * Validates that assignments respect the given constraints (exclusions, groups, avoided
+ * pairs, forced pairs, sides, attribute rules). Self-assignment is reported by validateAssignments, so it is skipped here
+ */
+export function validateConstraints(
+  assignments: Map<string, string>,
+  constraints: AssignmentConstraints
+): ValidationResult {
+  const errors: string[] = [];
+  const isAllowed = buildAssignmentFilter(constraints);
+
+  for (const [giver, receiver] of assignments) {
+    if (giver !== receiver && !isAllowed(giver, receiver)) {
+      const giverGroup = constraints.groups?.get(giver);
+      const isAvoided = constraints.avoidPairs?.some(
+        (pair) => pair.giverId === giver && pair.receiverId === receiver
+      );
+      const forced = constraints.forcedPairs?.find(
+        (pair) => pair.giverId === giver || pair.receiverId === receiver
+      );
+      const giverSide = constraints.sides?.get(giver);
+      const brokenRule = constraints.rules?.find((rule) =>
+        breaksRule(rule, constraints.attributes?.get(giver), constraints.attributes?.get(receiver))
+      );
+      if (forced) {
+        errors.push(
+          `Forced pair broken: ${forced.giverId} must give to ${forced.receiverId}, ` +
+            `but ${giver} is assigned to ${receiver}`
+        );
+      } else if (brokenRule) {
+        errors.push(
+          `Rule broken: ${giver} is assigned to ${receiver}, but the rule is to ${describeAttributeRule(brokenRule)}`
+        );
+      } else if (constraints.sides && giverSide === constraints.sides.get(receiver)) {
+        errors.push(`Same-side pair: ${giver} is assigned to ${receiver} on side ${giverSide}`);
+      } else if (giverGroup !== undefined && giverGroup === constraints.groups?.get(receiver)) {
+        errors.push(`Same-group pair: ${giver} is assigned to ${receiver} from group ${giverGroup}`);
+      } else if (isAvoided) {
+        errors.push(`Avoided pair: ${giver} is assigned to ${receiver} again`);
+      } else {
+        errors.push(`Excluded pair: ${giver} is assigned to ${receiver}`);
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates that participants are split into two equal sides for a CROSS_SIDES exchange
+ * Everyone gives to and receives from the other side, so the sides must match in size
+ */
+export function validateSides(
+  participantIds: string[],
+  sides: Map<string, string>
+): ValidationResult {
+  const errors: string[] = [];
+  const members = new Map<string, string[]>();
+
+  for (const id of participantIds) {
+    const side = sides.get(id);
+    if (side === undefined) {
+      errors.push(`Participant ${id} has no side`);
+      continue;
+    }
+    members.set(side, [...(members.get(side) ?? []), id]);
+  }
+
+  const sizes = [...members].map(([side, ids]) => ({ side, size: ids.length }));
+  if (sizes.length !== 2) {
+    errors.push(`Exactly 2 sides are needed, but there ${sizes.length === 1 ? "is" : "are"} ${sizes.length}`);
+  } else if (sizes[0]!.size !== sizes[1]!.size) {
+    errors.push(
+      `The sides are unequal: ${sizes[0]!.side} has ${sizes[0]!.size} participant(s) and ` +
+      `${sizes[1]!.side} has ${sizes[1]!.size}, but each side must have the same number`
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Splits assignments into their giver -> receiver loops
+ * A chain that runs off the map (a giver's receiver has no assignment) ends its list early
+ */
+function findCycles(assignments: Map<string, string>): string[][] {
+  const seen = new Set<string>();
+  const cycles: string[][] = [];
+
+  for (const start of assignments.keys()) {
+    if (seen.has(start)) continue;
+
+    const cycle: string[] = [];
+    let current: string | undefined = start;
+    while (current !== undefined && !seen.has(current)) {
+      seen.add(current);
+      cycle.push(current);
+      current = assignments.get(current);
+    }
+    cycles.push(cycle);
+  }
+
+  return cycles;
+}
+
+/**
+ * Validates that a complete set of assignments has the required loop shape
+ * Pass every assignment in the event, including locked ones, since loops span both
+ */
+export function validateTopology(
+  assignments: Map<string, string>,
+  topology: AssignmentTopology = DEFAULT_ASSIGNMENT_TOPOLOGY
+): ValidationResult {
+  const errors: string[] = [];
+  const cycles = findCycles(assignments);
+
+  if (topology === "SINGLE_CYCLE" && cycles.length > 1) {
+    errors.push(`Expected a single loop but found ${cycles.length}`);
+  }
+
+  if (topology === "NO_MUTUAL_PAIRS") {
+    for (const cycle of cycles) {
+      if (cycle.length === 2) {
+        errors.push(`Mutual pair: ${cycle[0]} and ${cycle[1]} are assigned to each other`);
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Returns a shuffled copy of the items (Fisher-Yates)
+ */
+function shuffle<T>(items: T[], rng: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = rng.randomInt(i + 1);
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+/**
+ * Random proposal pairing each giver with a receiver from the other side
+ * Two independent shuffles, so it is uniform over arrangements that respect the sides.
+ * Falls back to a plain shuffle when the sides don't line up - the caller rejects it.
+ */
+function shuffleAcrossSides(
+  givers: string[],
+  receivers: string[],
+  sides: Map<string, string>,
+  rng: RandomSource
+): Map<string, string> {
+  const giversBySide = new Map<string | undefined, string[]>();
+  for (const giver of givers) {
+    const side = sides.get(giver);
+    giversBySide.set(side, [...(giversBySide.get(side) ?? []), giver]);
+  }
+
+  const proposal = new Map<string, string>();
+  if (giversBySide.size <= 2) {
+    for (const [side, sideGivers] of giversBySide) {
+      const pool = shuffle(receivers.filter((receiver) => sides.get(receiver) !== side), rng);
+      if (pool.length !== sideGivers.length) break;
+      sideGivers.forEach((giver, i) => proposal.set(giver, pool[i]!));
+    }
+  }
+  if (proposal.size === givers.length) {
+    return proposal;
+  }
+
+  const shuffledReceivers = shuffle(receivers, rng);
+  return new Map(givers.map((giver, i) => [giver, shuffledReceivers[i]!]));
+}
+
+/**
+ * Finds a random maximum matching of givers to receivers using only allowed pairs
+ *
+ * Uses augmenting paths (Kuhn's algorithm) over shuffled givers and candidate lists,
+ * so unlike rejection sampling it always finds a complete matching when one exists.
+ * The returned map is incomplete (fewer entries than givers) when none exists.
+ */
+function findRandomMatching(
+  givers: string[],
+  receivers: string[],
+  isAllowed: (giver: string, receiver: string) => boolean,
+  rng: RandomSource
+): Map<string, string> {
+  const candidates = new Map<string, string[]>();
+  for (const giver of givers) {
+    candidates.set(giver, shuffle(receivers.filter((receiver) => isAllowed(giver, receiver)), rng));
+  }
+
+  // receiver -> giver currently holding them
+  const holders = new Map<string, string>();
+
+  function tryAssign(giver: string, visited: Set<string>): boolean {
+    for (const receiver of candidates.get(giver) ?? []) {
+      if (visited.has(receiver)) continue;
+      visited.add(receiver);
+
+      // Take a free receiver, or move the current holder to another of their options
+      const holder = holders.get(receiver);
+      if (holder === undefined || tryAssign(holder, visited)) {
+        holders.set(receiver, giver);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  for (const giver of shuffle(givers, rng)) {
+    tryAssign(giver, new Set());
+  }
+
+  const matching = new Map<string, string>();
+  for (const [receiver, giver] of holders) {
+    matching.set(giver, receiver);
+  }
+  return matching;
+}
+
+/**
+ * Explains why a maximum matching is incomplete
+ *
+ * By König's theorem, following alternating paths from an unmatched giver reaches a
+ * set of givers whose eligible receivers are all matched to others in that same set -
+ * so the set has one receiver fewer than it has givers (a Hall violation). Givers with
+ * no eligible receivers at all are reported on their own since they are the common case.
+ */
+function findUnmatchableSets(
+  givers: string[],
+  receivers: string[],
+  isAllowed: (giver: string, receiver: string) => boolean,
+  matching: Map<string, string>
+): FeasibilityProblem[] {
+  const holders = new Map<string, string>();
+  for (const [giver, receiver] of matching) {
+    holders.set(receiver, giver);
+  }
+
+  const candidatesOf = (giver: string) => receivers.filter((receiver) => isAllowed(giver, receiver));
+  const unmatched = givers.filter((giver) => !matching.has(giver));
+
+  const problems: FeasibilityProblem[] = [];
+
+  const stranded = unmatched.filter((giver) => candidatesOf(giver).length === 0);
+  if (stranded.length > 0) {
+    problems.push({ side: "giver", participantIds: stranded, candidateIds: [] });
+  }
+
+  const seen = new Set<string>();
+  for (const start of unmatched) {
+    if (stranded.includes(start)) continue;
+
+    const setGivers = new Set([start]);
+    const setReceivers = new Set<string>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const giver = queue.shift()!;
+      for (const receiver of candidatesOf(giver)) {
+        if (setReceivers.has(receiver)) continue;
+        setReceivers.add(receiver);
+
+        // Every reachable receiver is matched, otherwise the matching was not maximum
+        const holder = holders.get(receiver);
+        if (holder !== undefined && !setGivers.has(holder)) {
+          setGivers.add(holder);
+          queue.push(holder);
+        }
+      }
+    }
+
+    const participantIds = givers.filter((giver) => setGivers.has(giver));
+    const key = participantIds.join(",");
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    problems.push({
+      side: "giver",
+      participantIds,
+      candidateIds: receivers.filter((receiver) => setReceivers.has(receiver)),
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Checks whether every giver can be matched to a distinct eligible receiver, and if
+ * not, which participants are stuck - from the givers' side (too few recipients) and
+ * from the receivers' side (too few people allowed to give to them)
+ */
+function analyzeMatching(
+  givers: string[],
+  receivers: string[],
+  isAllowed: (giver: string, receiver: string) => boolean,
+  matching: Map<string, string>
+): FeasibilityAnalysis {
+  if (matching.size === givers.length && givers.length === receivers.length) {
+    return { feasible: true, unmatchedGiverIds: [], problems: [] };
+  }
+
+  // Same analysis with the roles swapped finds receivers nobody can give to
+  const reversed = new Map<string, string>();
+  for (const [giver, receiver] of matching) {
+    reversed.set(receiver, giver);
+  }
+  const isAllowedReversed = (receiver: string, giver: string) => isAllowed(giver, receiver);
+
+  return {
+    feasible: false,
+    unmatchedGiverIds: givers.filter((giver) => !matching.has(giver)),
+    problems: [
+      ...findUnmatchableSets(givers, receivers, isAllowed, matching),
+      ...findUnmatchableSets(receivers, givers, isAllowedReversed, reversed).map((problem) => ({
+        ...problem,
+        side: "receiver" as const,
+      })),
+    ],
+  };
+}
+
+/**
+ * Checks whether the constraints allow a complete assignment of all participants
+ */
+export function analyzeFeasibility(
+  participantIds: string[],
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom
+): FeasibilityAnalysis {
+  const isAllowed = buildAssignmentFilter(constraints);
+  return analyzeMatching(
+    participantIds,
+    participantIds,
+    isAllowed,
+    findRandomMatching(participantIds, participantIds, isAllowed, rng)
+  );
+}
+
+/**
+ * Checks whether the unlocked participants can be reassigned around the locked ones
+ * Takes the same arguments as generatePartialAssignments
+ */
+export function analyzePartialFeasibility(
+  unlockedParticipantIds: string[],
+  lockedAssignments: Map<string, string>,
+  lockedGiverIds: string[] = [],
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom
+): FeasibilityAnalysis {
+  const availableReceivers = getAvailableReceivers(
+    unlockedParticipantIds,
+    lockedAssignments,
+    lockedGiverIds
+  );
+  const isAllowed = buildAssignmentFilter(constraints);
+  return analyzeMatching(
+    unlockedParticipantIds,
+    availableReceivers,
+    isAllowed,
+    findRandomMatching(unlockedParticipantIds, availableReceivers, isAllowed, rng)
+  );
+}
+
+/**
+ * Formats names as "A", "A and B" or "A, B and C"
+ */
+function formatNameList(names: string[], conjunction: "and" | "or" = "and"): string {
+  if (names.length <= 1) return names[0] ?? "";
+  return `${names.slice(0, -1).join(", ")} ${conjunction} ${names[names.length - 1]}`;
+}
+
+/**
+ * Turns a feasibility problem into a sentence for the organizer
+ *
+ * @param names - Participant ID -> display name
+ * @param revealCandidates - Whether to name the eligible partners. Pass false during
+ *   partial regeneration: which receivers are still available would hint at what the
+ *   locked participants drew, so only a count is given.
+ */
+export function describeFeasibilityProblem(
+  problem: FeasibilityProblem,
+  names: Map<string, string>,
+  revealCandidates: boolean = true
+): string {
+  const nameOf = (id: string) => names.get(id) ?? "Unknown participant";
+  const who = formatNameList(problem.participantIds.map(nameOf));
+  const plural = problem.participantIds.length > 1;
+  const count = problem.candidateIds.length;
+
+  if (problem.side === "giver") {
+    if (count === 0) {
+      return `${who} ${plural ? "have" : "has"} no eligible recipients left`;
+    }
+    if (!revealCandidates) {
+      return `${who} have only ${count} eligible recipient${count === 1 ? "" : "s"} between them`;
+    }
+    return (
+      `${who} can only give to ${formatNameList(problem.candidateIds.map(nameOf))}, ` +
+      `so at least one of them would be left without a recipient`
+    );
+  }
+
+  if (count === 0) {
+    return `Nobody is allowed to give to ${formatNameList(problem.participantIds.map(nameOf), "or")}`;
+  }
+  if (!revealCandidates) {
+    return `${who} have only ${count} eligible giver${count === 1 ? "" : "s"} between them`;
+  }
+  return (
+    `${who} can only receive from ${formatNameList(problem.candidateIds.map(nameOf))}, ` +
+    `so at least one of them would be left without a gift`
+  );
+}
+
+/**
+ * Checks the forced pairs on their own, before anyone else is drawn around them:
+ * each giver and receiver may be forced once, a forced pair must not break an exclusion,
+ * group or attribute rule, and the forced edges must not close a loop the topology forbids
+ *
+ * @param participantIds - Everyone in the draw, including locked participants
+ */
+export function findForcedPairProblems(
+  participantIds: string[],
+  constraints: AssignmentConstraints
+): ForcedPairProblem[] {
+  const problems: ForcedPairProblem[] = [];
+  const isAllowed = buildAssignmentFilter({
+    exclusions: constraints.exclusions,
+    groups: constraints.groups,
+    sides: constraints.sides,
+  });
+  const attributes = constraints.attributes ?? new Map<string, Record<string, string>>();
+  const forcedReceivers = new Map<string, string>();
+  const forcedGivers = new Map<string, string>();
+
+  for (const { giverId, receiverId } of constraints.forcedPairs ?? []) {
+    if (giverId === receiverId) {
+      problems.push({ kind: "self", participantIds: [giverId] });
+      continue;
+    }
+    const brokenRule = (constraints.rules ?? []).find((rule) =>
+      breaksRule(rule, attributes.get(giverId), attributes.get(receiverId))
+    );
+    if (!isAllowed(giverId, receiverId)) {
+      problems.push({ kind: "excluded", participantIds: [giverId, receiverId] });
+    } else if (brokenRule) {
+      problems.push({ kind: "rule", participantIds: [giverId, receiverId], rule: brokenRule });
+    }
+
+    const otherReceiver = forcedReceivers.get(giverId);
+    const otherGiver = forcedGivers.get(receiverId);
+    if (otherReceiver !== undefined) {
+      problems.push({ kind: "giver-twice", participantIds: [giverId, otherReceiver, receiverId] });
+    } else if (otherGiver !== undefined) {
+      problems.push({ kind: "receiver-twice", participantIds: [receiverId, otherGiver, giverId] });
+    } else {
+      forcedReceivers.set(giverId, receiverId);
+      forcedGivers.set(receiverId, giverId);
+    }
+  }
+
+  const topology = constraints.topology ?? DEFAULT_ASSIGNMENT_TOPOLOGY;
+  for (const cycle of findCycles(forcedReceivers)) {
+    // Chains are fine - only a loop that closes on itself can't be extended
+    if (forcedReceivers.get(cycle[cycle.length - 1]!) !== cycle[0]) continue;
+
+    if (topology === "SINGLE_CYCLE" && cycle.length < participantIds.length) {
+      problems.push({ kind: "closed-loop", participantIds: cycle });
+    } else if (topology === "NO_MUTUAL_PAIRS" && cycle.length === 2) {
+      problems.push({ kind: "mutual-pair", participantIds: cycle });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Turns a forced pair problem into a sentence for the organizer
+ * Forced pairs are set by the admin, so naming everyone involved reveals nothing new
+ */
+export function describeForcedPairProblem(
+  problem: ForcedPairProblem,
+  names: Map<string, string>
+): string {
+  const [first, second, third] = problem.participantIds.map(
+    (id) => names.get(id) ?? "Unknown participant"
+  );
+
+  switch (problem.kind) {
+    case "self":
+      return `${first} is set to give to themselves`;
+    case "giver-twice":
+      return `${first} is set to give to both ${second} and ${third}`;
+    case "receiver-twice":
+      return `${first} is set to receive from both ${second} and ${third}`;
+    case "excluded":
+      return `${first} must give to ${second}, but an exclusion, shared household or shared team keeps them apart`;
+    case "rule":
+      return `${first} must give to ${second}, but the rule is to ${describeAttributeRule(problem.rule!)}`;
+    case "mutual-pair":
+      return `${first} and ${second} must give to each other, which the draw style doesn't allow`;
+    case "closed-loop": {
+      const loop = [...problem.participantIds, problem.participantIds[0]!]
+        .map((id) => names.get(id) ?? "Unknown participant")
+        .join(" → ");
+      return (
+        `The must-give-to pairs ${loop} close a loop without everyone else, ` +
+        `but the draw style needs a single loop through everyone`
+      );
+    }
+  }
+}
+
+/**
+ * Throws when the forced pairs can't be honored, naming every problem
+ */
+function assertForcedPairsPossible(
+  participantIds: string[],
+  constraints: AssignmentConstraints
+): void {
+  const problems = findForcedPairProblems(participantIds, constraints);
+  if (problems.length > 0) {
+    throw new AssignmentImpossibleError(
+      "Assignment impossible: the must-give-to pairs cannot all be honored",
+      undefined,
+      problems
+    );
+  }
+}
+
+/**
+ * Throws when a CROSS_SIDES draw is set up with anything but two equal sides
+ */
+function assertSidesBalanced(
+  participantIds: string[],
+  constraints: AssignmentConstraints
+): void {
+  if (!constraints.sides) return;
+
+  const validation = validateSides(participantIds, constraints.sides);
+  if (!validation.valid) {
+    throw new AssignmentImpossibleError(`Assignment impossible: ${validation.errors.join("; ")}`);
+  }
+}
+
+/**
+ * Merges one loop into another by swapping the receivers of two free givers, one on each loop
+ * Swapping the receivers of givers on different loops always joins the loops into one
+ *
+ * @returns false when no allowed swap exists for this loop
+ */
+function mergeCycle(
+  assignments: Map<string, string>,
+  cycle: string[],
+  freeGivers: Set<string>,
+  isAllowed: (giver: string, receiver: string) => boolean,
+  rng: RandomSource
+): boolean {
+  const inCycle = new Set(cycle);
+  const outside = shuffle([...freeGivers].filter((giver) => !inCycle.has(giver)), rng);
+
+  for (const giver of shuffle(cycle.filter((id) => freeGivers.has(id)), rng)) {
+    const receiver = assignments.get(giver)!;
+    for (const other of outside) {
+      const otherReceiver = assignments.get(other)!;
+      if (isAllowed(giver, otherReceiver) && isAllowed(other, receiver)) {
+        assignments.set(giver, otherReceiver);
+        assignments.set(other, receiver);
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Reshapes a complete arrangement into the required topology by merging loops,
+ * changing only the receivers of free givers
+ *
+ * @returns The reshaped arrangement, or null if the merges got stuck
+ */
+function arrangeTopology(
+  assignments: Map<string, string>,
+  freeGivers: Set<string>,
+  isAllowed: (giver: string, receiver: string) => boolean,
+  topology: AssignmentTopology,
+  rng: RandomSource
+): Map<string, string> | null {
+  const result = new Map(assignments);
+
+  // Each merge removes a loop, so this ends after at most one pass per loop
+  for (;;) {
+    const cycles = findCycles(result).sort((a, b) => a.length - b.length);
+    const target =
+      topology === "SINGLE_CYCLE"
+        ? cycles.length > 1 ? cycles[0] : undefined
+        : topology === "NO_MUTUAL_PAIRS"
+          ? cycles.find((cycle) => cycle.length === 2)
+          : undefined;
+
+    if (!target) {
+      return result;
+    }
+    if (!mergeCycle(result, target, freeGivers, isAllowed, rng)) {
+      return null;
+    }
+  }
+}
+
+const TOPOLOGY_DESCRIPTIONS: Record<AssignmentTopology, string> = {
+  SINGLE_CYCLE: "in a single loop",
+  ANY_DERANGEMENT: "",
+  NO_MUTUAL_PAIRS: "without anyone drawing each other",
+};
+
+/**
+ * How many random arrangements to try before falling back to matching
+ * Rejection sampling is exactly uniform over valid arrangements, so it is preferred
+ * whenever the constraints are loose enough for it to succeed
+ */
+const SAMPLING_ATTEMPTS = 1000;
+
+/**
+ * Draws assignments for givers from receivers that respect the constraints and topology
+ *
+ * Rejection sampling comes first, as it picks uniformly among valid arrangements: Sattolo
+ * proposals for a full single-loop draw, per-side shuffles with sides, shuffles otherwise.
+ * When the constraints are too tight for that, a random maximum matching takes over - it finds
+ * an arrangement whenever one exists - and its loops are merged to reach the topology.
+ *
+ * @param lockedAssignments - Assignments that must stay as they are; loops are checked across them
+ * @param impossibleMessage - Message for the AssignmentImpossibleError when no matching exists
+ * @returns Assignments for the givers only
+ * @throws AssignmentImpossibleError when no valid arrangement can be found
+ */
+function drawArrangement(
+  givers: string[],
+  receivers: string[],
+  lockedAssignments: Map<string, string>,
+  constraints: AssignmentConstraints,
+  impossibleMessage: string,
+  rng: RandomSource
+): Map<string, string> {
+  // Forced pairs are fixed edges, so draw everyone else around them like locked assignments
+  const forced = new Map(
+    (constraints.forcedPairs ?? [])
+      .filter((pair) => givers.includes(pair.giverId) && receivers.includes(pair.receiverId))
+      .map((pair) => [pair.giverId, pair.receiverId])
+  );
+  if (forced.size > 0) {
+    const forcedReceivers = new Set(forced.values());
+    const rest = drawArrangement(
+      givers.filter((giver) => !forced.has(giver)),
+      receivers.filter((receiver) => !forcedReceivers.has(receiver)),
+      new Map([...lockedAssignments, ...forced]),
+      { ...constraints, forcedPairs: undefined },
+      impossibleMessage,
+      rng
+    );
+    return new Map([...forced, ...rest]);
+  }
+
+  const topology = constraints.topology ?? DEFAULT_ASSIGNMENT_TOPOLOGY;
+  const isAllowed = buildAssignmentFilter(constraints);
+  const withLocked = (assignments: Map<string, string>) =>
+    new Map([...lockedAssignments, ...assignments]);
+
+  const useSattolo =
+    topology === "SINGLE_CYCLE" && lockedAssignments.size === 0 && !constraints.sides;
+  for (let sample = 0; sample < SAMPLING_ATTEMPTS; sample++) {
+    let proposal: Map<string, string>;
+    if (useSattolo) {
+      proposal = generateDerangement(givers, rng);
+    } else if (constraints.sides) {
+      proposal = shuffleAcrossSides(givers, receivers, constraints.sides, rng);
+    } else {
+      const shuffledReceivers = shuffle(receivers, rng);
+      proposal = new Map(givers.map((giver, i) => [giver, shuffledReceivers[i]!]));
+    }
+
+    const allAllowed = [...proposal].every(([giver, receiver]) => isAllowed(giver, receiver));
+    if (allAllowed && validateTopology(withLocked(proposal), topology).valid) {
+      return proposal;
+    }
+  }
+
+  const freeGivers = new Set(givers);
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const matching = findRandomMatching(givers, receivers, isAllowed, rng);
+    if (matching.size !== givers.length) {
+      throw new AssignmentImpossibleError(
+        impossibleMessage,
+        analyzeMatching(givers, receivers, isAllowed, matching)
+      );
     }
-  }
 
-  // Check: Each participant in the group receives from exactly one person in the group
-  const receivers = Array.from(assignments.values());
-  const receiverCounts = new Map<string, number>();
-  for (const receiver of receivers) {
-    receiverCounts.set(receiver, (receiverCounts.get(receiver) || 0) + 1);
+    const arranged = arrangeTopology(withLocked(matching), freeGivers, isAllowed, topology, rng);
+    if (arranged) {
+      return new Map(givers.map((giver) => [giver, arranged.get(giver)!]));
+    }
   }
 
-  for (const participant of participants) {
-    const count = receiverCounts.get(participant) || 0;
-    if (count !== 1) {
-      errors.push(`Participant ${participant} receives ${count} gifts (should be 1)`);
-    }
+  throw new AssignmentImpossibleError(
+    `Assignment impossible: no valid way was found to arrange everyone ${TOPOLOGY_DESCRIPTIONS[topology]}`
+  );
+}
+
+/**
+ * Generates a derangement that respects the given constraints and topology
+ *
+ * @throws AssignmentImpossibleError when the constraints cannot be satisfied
+ */
+export function generateConstrainedDerangement(
+  items: string[],
+  constraints: AssignmentConstraints,
+  rng: RandomSource = secureRandom
+): Map<string, string> {
+  if (items.length < 2) {
+    throw new Error("Need at least 2 items to generate a derangement");
   }
+  assertSidesBalanced(items, constraints);
+  assertForcedPairsPossible(items, constraints);
 
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+  return drawArrangement(
+    items,
+    items,
+    new Map(),
+    constraints,
+    "Assignment impossible: the constraints leave no valid way to assign everyone",
+    rng
+  );
 }
 
 /**
  * Generates a derangement (permutation where no element appears in its original position)
  * Uses Sattolo's algorithm which guarantees a single cycle derangement in O(n) time
+ *
+ * Every generator here takes an optional RandomSource as its last argument. It defaults
+ * to crypto.randomInt so real draws can't be predicted; tests pass a seeded source.
  */
-export function generateDerangement<T>(items: T[]): Map<T, T> {
+export function generateDerangement<T>(items: T[], rng: RandomSource = secureRandom): Map<T, T> {
   if (items.length < 2) {
     throw new Error("Need at least 2 items to generate a derangement");
   }
@@ -137,7 +1170,7 @@ export function generateDerangement<T>(items: T[]): Map<T, T> {
   for (let i = n - 1; i > 0; i--) {
     // Key difference from Fisher-Yates: j is strictly less than i (not i+1)
     // This guarantees a derangement
-    const j = Math.floor(Math.random() * i);
+    const j = rng.randomInt(i);
 
     // Swap elements - we know these indices are valid since i < n and j < i
     const temp = result[i]!;
@@ -167,11 +1200,14 @@ const MIN_PARTICIPANTS_FOR_REGENERATION = 3;
  * Rules:
  * - If no one has viewed: full regeneration is allowed
  * - If some have viewed: only regenerate among those who haven't viewed
- * - Need at least 3 participants who haven't viewed for partial regeneration
+ * - With fewer than 3 who haven't viewed, regeneration needs some other valid arrangement of
+ *   them (e.g. two givers swapping targets) - pass the current draw to count the alternatives;
+ *   without it such a regeneration is refused
  * - Participants who viewed are "locked" - their assignments cannot change
  */
 export function analyzeRegeneration(
-  participants: { id: string; hasViewed: boolean }[]
+  participants: { id: string; hasViewed: boolean }[],
+  current?: { rounds: Map<string, string>[]; constraints?: AssignmentConstraints }
 ): RegenerationAnalysis {
   const lockedParticipants = participants.filter(p => p.hasViewed).map(p => p.id);
   const unlockedParticipants = participants.filter(p => !p.hasViewed).map(p => p.id);
@@ -189,7 +1225,28 @@ export function analyzeRegeneration(
     };
   }
 
-  // Some have viewed - check if partial regeneration is possible
+  // Some have viewed - with only a few left, any valid reassignment of them will do
+  if (unlockedParticipants.length < MIN_PARTICIPANTS_FOR_REGENERATION && current) {
+    const alternativeCount = countPartialAlternatives(
+      unlockedParticipants,
+      lockedParticipants,
+      current.rounds,
+      current.constraints ?? {}
+    );
+    return {
+      canRegenerate: alternativeCount > 0,
+      isFullRegeneration: false,
+      lockedParticipants,
+      unlockedParticipants,
+      alternativeCount,
+      reason: alternativeCount === 0
+        ? `Cannot regenerate: ${lockedParticipants.length} participant(s) have already viewed their assignments, ` +
+          `and there is no other valid arrangement for the ${unlockedParticipants.length} who haven't. ` +
+          `Add more participants to enable regeneration.`
+        : undefined,
+    };
+  }
+
   if (unlockedParticipants.length < MIN_PARTICIPANTS_FOR_REGENERATION) {
     return {
       canRegenerate: false,
@@ -213,10 +1270,14 @@ export function analyzeRegeneration(
 /**
  * Generates assignments for participants with validation and retry logic
  * Returns a Map of participantId -> assignedToId
+ * The loop shape follows constraints.topology (a single cycle by default)
  * Throws an error if valid assignments cannot be generated after MAX_ATTEMPTS tries
+ * @throws AssignmentImpossibleError when the constraints cannot be satisfied
  */
 export function generateAssignments(
-  participantIds: string[]
+  participantIds: string[],
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom
 ): { assignments: Map<string, string>; attempts: number } {
   if (participantIds.length < 2) {
     throw new Error("Need at least 2 participants to generate assignments");
@@ -225,17 +1286,23 @@ export function generateAssignments(
   const allErrors: string[][] = [];
 
   for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    const assignments = generateDerangement(participantIds);
+    const assignments = generateConstrainedDerangement(participantIds, constraints, rng);
     const validation = validateAssignments(participantIds, assignments);
+    const constraintValidation = validateConstraints(assignments, constraints);
+    const topologyValidation = validateTopology(assignments, constraints.topology);
 
-    if (validation.valid) {
+    if (validation.valid && constraintValidation.valid && topologyValidation.valid) {
       return { assignments, attempts: attempt };
     }
 
-    allErrors.push(validation.errors);
+    allErrors.push([
+      ...validation.errors,
+      ...constraintValidation.errors,
+      ...topologyValidation.errors,
+    ]);
   }
 
-  // All attempts failed - this should theoretically never happen with Sattolo's algorithm
+  // All attempts failed - this should theoretically never happen since every draw is checked
   const error = new Error(
     `Failed to generate valid assignments after ${MAX_ATTEMPTS} attempts`
   );
@@ -243,13 +1310,121 @@ export function generateAssignments(
   throw error;
 }
 
+/**
+ * Reports how each attribute rule affects a full draw
+ *
+ * Whether the draw is possible is decided by running the generator itself, so conflicts
+ * with the loop shape count too (e.g. "same office" splits the event into groups that a
+ * single loop can't span). Nothing about the resulting assignments is returned.
+ */
+export function analyzeRules(
+  participantIds: string[],
+  constraints: AssignmentConstraints,
+  giftsPerParticipant: number = 1,
+  rng: RandomSource = secureRandom
+): RuleAnalysis[] {
+  const rules = constraints.rules ?? [];
+  const attributes = constraints.attributes ?? new Map<string, Record<string, string>>();
+
+  const canDraw = (withRules: AttributeRule[]) => {
+    try {
+      generateMultiAssignments(
+        participantIds,
+        giftsPerParticipant,
+        { ...constraints, rules: withRules },
+        rng
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof AssignmentImpossibleError) {
+        return false;
+      }
+      throw error;
+    }
+  };
+  const possible = rules.length === 0 || canDraw(rules);
+
+  return rules.map((rule, index) => {
+    let blockedPairCount = 0;
+    for (const giver of participantIds) {
+      for (const receiver of participantIds) {
+        if (giver !== receiver && breaksRule(rule, attributes.get(giver), attributes.get(receiver))) {
+          blockedPairCount++;
+        }
+      }
+    }
+
+    return {
+      rule,
+      blockedPairCount,
+      binding: !possible && canDraw(rules.filter((_, i) => i !== index)),
+    };
+  });
+}
+
+/**
+ * Counts the constraints that bind among these participants - those that rule out at least
+ * one giver -> receiver pair. Constraints involving someone outside the draw (another pool,
+ * a withdrawn participant) don't count. Past pairings are reported separately.
+ */
+export function countBindingConstraints(
+  participantIds: string[],
+  constraints: AssignmentConstraints
+): BindingConstraintCounts {
+  const ids = new Set(participantIds);
+  const attributes = constraints.attributes ?? new Map<string, Record<string, string>>();
+
+  const exclusions = (constraints.exclusions ?? []).filter(
+    ({ participant1Id, participant2Id }) => ids.has(participant1Id) && ids.has(participant2Id)
+  ).length;
+
+  const groupSizes = new Map<string, number>();
+  for (const [participantId, groupId] of constraints.groups ?? []) {
+    if (ids.has(participantId)) {
+      groupSizes.set(groupId, (groupSizes.get(groupId) ?? 0) + 1);
+    }
+  }
+  const groups = [...groupSizes.values()].filter(size => size >= 2).length;
+
+  const forcedPairs = (constraints.forcedPairs ?? []).filter(
+    ({ giverId, receiverId }) => ids.has(giverId) && ids.has(receiverId)
+  ).length;
+
+  const rules = (constraints.rules ?? []).filter(rule =>
+    participantIds.some(giver =>
+      participantIds.some(
+        receiver =>
+          giver !== receiver && breaksRule(rule, attributes.get(giver), attributes.get(receiver))
+      )
+    )
+  ).length;
+
+  return {
+    exclusions,
+    groups,
+    forcedPairs,
+    rules,
+    total: exclusions + groups + forcedPairs + rules,
+  };
+}
+
+/**
+ * Counts the loops in a complete arrangement (one round)
+ */
+export function countCycles(assignments: Map<string, string>): number {
+  return findCycles(assignments).length;
+}
+
 /**
  * Generates a bipartite assignment (givers -> receivers where sets may differ)
- * Uses Fisher-Yates shuffle to create a random bijection
+ * The locked assignments are taken into account so the combined loops have the required topology
  */
 function generateBipartiteAssignment(
   givers: string[],
-  receivers: string[]
+  receivers: string[],
+  lockedAssignments: Map<string, string>,
+  constraints: AssignmentConstraints,
+  rng: RandomSource
 ): Map<string, string> {
   if (givers.length !== receivers.length) {
     throw new Error(
@@ -257,19 +1432,14 @@ function generateBipartiteAssignment(
     );
   }
 
-  // Shuffle receivers to create random assignment
-  const shuffledReceivers = [...receivers];
-  for (let i = shuffledReceivers.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffledReceivers[i], shuffledReceivers[j]] = [shuffledReceivers[j]!, shuffledReceivers[i]!];
-  }
-
-  const assignments = new Map<string, string>();
-  for (let i = 0; i < givers.length; i++) {
-    assignments.set(givers[i]!, shuffledReceivers[i]!);
-  }
-
-  return assignments;
+  return drawArrangement(
+    givers,
+    receivers,
+    lockedAssignments,
+    constraints,
+    "Assignment impossible: the constraints leave no valid way to reassign the remaining participants",
+    rng
+  );
 }
 
 /**
@@ -322,6 +1492,198 @@ function validateBipartiteAssignments(
   };
 }
 
+function assignmentRounds(
+  result: { assignments: Map<string, string> } | MultiAssignmentResult
+): Map<string, string>[] {
+  return "rounds" in result ? result.rounds : [result.assignments];
+}
+
+/**
+ * Runs a generator while avoiding pairings from past draws, relaxing gracefully
+ *
+ * Tries to avoid every pairing from all requested past draws; if the other constraints
+ * make that impossible, drops the oldest draw and tries again, down to ignoring history
+ * altogether. Only an AssignmentImpossibleError with no history left is thrown.
+ *
+ * @param history - Pairings from past draws, most recent draw first
+ * @param generate - Generator to run with the pairs to avoid (e.g. generateAssignments)
+ */
+export function generateWithHistoryFallback<
+  R extends { assignments: Map<string, string> } | MultiAssignmentResult
+>(
+  history: DirectedPair[][],
+  generate: (avoidPairs: DirectedPair[]) => R
+): R & { history: HistoryAvoidanceResult } {
+  const allPastPairs = new Set(history.flat().map((pair) => pairKey(pair.giverId, pair.receiverId)));
+
+  const withReport = (result: R, depthUsed: number) => {
+    let repeatedPairCount = 0;
+    for (const round of assignmentRounds(result)) {
+      for (const [giver, receiver] of round) {
+        if (allPastPairs.has(pairKey(giver, receiver))) {
+          repeatedPairCount++;
+        }
+      }
+    }
+    return {
+      ...result,
+      history: { requestedDepth: history.length, depthUsed, repeatedPairCount },
+    };
+  };
+
+  for (let depth = history.length; depth > 0; depth--) {
+    try {
+      return withReport(generate(history.slice(0, depth).flat()), depth);
+    } catch (error) {
+      if (!(error instanceof AssignmentImpossibleError)) {
+        throw error;
+      }
+    }
+  }
+
+  return withReport(generate([]), 0);
+}
+
+/**
+ * Receivers still open to unlocked givers during partial regeneration:
+ * 1. Locked givers who are NOT already receiving from another locked giver
+ * 2. Unlocked participants who are NOT already receiving from locked givers
+ *
+ * Key insight: A locked giver might be the target of another locked giver
+ * (e.g., L1→L2 where both L1 and L2 are locked). In that case, L2 is already
+ * receiving and cannot receive again.
+ */
+function getAvailableReceivers(
+  unlockedParticipantIds: string[],
+  lockedAssignments: Map<string, string>,
+  lockedGiverIds: string[]
+): string[] {
+  // Participants already receiving from locked givers - cannot receive again
+  const lockedReceivers = new Set(lockedAssignments.values());
+
+  return [
+    ...lockedGiverIds.filter(id => !lockedReceivers.has(id)), // Locked givers not already receiving
+    ...unlockedParticipantIds.filter(id => !lockedReceivers.has(id)),
+  ];
+}
+
+/**
+ * Every ordering of the items
+ */
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) {
+    return [items];
+  }
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+/**
+ * Every valid assignment of a few unlocked givers to the receivers the locked assignments
+ * leave open, found by trying each permutation
+ * Only for small groups (below MIN_PARTICIPANTS_FOR_REGENERATION) - the count grows factorially
+ */
+function enumeratePartialAssignments(
+  unlockedParticipantIds: string[],
+  lockedAssignments: Map<string, string>,
+  lockedGiverIds: string[],
+  constraints: AssignmentConstraints
+): Map<string, string>[] {
+  const availableReceivers = getAvailableReceivers(
+    unlockedParticipantIds,
+    lockedAssignments,
+    lockedGiverIds
+  );
+  if (availableReceivers.length !== unlockedParticipantIds.length) {
+    return [];
+  }
+
+  const isAllowed = buildAssignmentFilter(constraints);
+  return permutations(availableReceivers)
+    .map(receivers => new Map(unlockedParticipantIds.map((giverId, i) => [giverId, receivers[i]!])))
+    .filter(
+      assignments =>
+        [...assignments].every(([giverId, receiverId]) => isAllowed(giverId, receiverId)) &&
+        validateTopology(new Map([...lockedAssignments, ...assignments]), constraints.topology).valid
+    );
+}
+
+/**
+ * Whether a reassignment of the unlocked givers gives each of them their current receiver
+ */
+function isCurrentAssignment(assignments: Map<string, string>, current: Map<string, string> | undefined): boolean {
+  return !!current && [...assignments].every(([giverId, receiverId]) => current.get(giverId) === receiverId);
+}
+
+/**
+ * Every valid reassignment of a few unlocked givers across all rounds, except the current one
+ * Each round is reassigned among the receivers its locked assignments leave open, avoiding the
+ * pairs of the other rounds as generatePartialMultiAssignments does (with NO_MUTUAL_PAIRS their
+ * reverse pairs too). Forced pairs apply to the first round.
+ *
+ * @param currentRounds - The complete current assignments, one map per round
+ */
+function enumeratePartialAlternatives(
+  unlockedParticipantIds: string[],
+  lockedRounds: Map<string, string>[],
+  lockedGiverIds: string[],
+  constraints: AssignmentConstraints,
+  currentRounds?: Map<string, string>[]
+): Map<string, string>[][] {
+  const topology = constraints.topology ?? DEFAULT_ASSIGNMENT_TOPOLOGY;
+  const alternatives: Map<string, string>[][] = [];
+
+  function extend(chosen: Map<string, string>[]) {
+    const round = chosen.length;
+    if (round === lockedRounds.length) {
+      if (!chosen.every((assignments, index) => isCurrentAssignment(assignments, currentRounds?.[index]))) {
+        alternatives.push(chosen);
+      }
+      return;
+    }
+
+    const options = enumeratePartialAssignments(unlockedParticipantIds, lockedRounds[round]!, lockedGiverIds, {
+      ...constraints,
+      avoidPairs: [
+        ...(constraints.avoidPairs ?? []),
+        ...pairsUsedInRounds([...lockedRounds, ...chosen], topology),
+      ],
+      forcedPairs: round === 0 ? constraints.forcedPairs : undefined,
+    });
+    for (const option of options) {
+      extend([...chosen, option]);
+    }
+  }
+
+  extend([]);
+  return alternatives;
+}
+
+/**
+ * Counts the valid reassignments of a few unlocked givers other than the current one
+ *
+ * @param currentRounds - The complete current assignments, one map per round
+ */
+function countPartialAlternatives(
+  unlockedParticipantIds: string[],
+  lockedGiverIds: string[],
+  currentRounds: Map<string, string>[],
+  constraints: AssignmentConstraints
+): number {
+  const locked = new Set(lockedGiverIds);
+  const lockedRounds = currentRounds.map(
+    assignments => new Map([...assignments].filter(([giverId]) => locked.has(giverId)))
+  );
+  return enumeratePartialAlternatives(
+    unlockedParticipantIds,
+    lockedRounds,
+    lockedGiverIds,
+    constraints,
+    currentRounds
+  ).length;
+}
+
 /**
  * Generates partial assignments for a subset of participants
  * Used when some participants have already viewed their assignments (locked)
@@ -336,34 +1698,47 @@ function validateBipartiteAssignments(
  * @param unlockedParticipantIds - IDs of participants who haven't viewed (can be reassigned)
  * @param lockedAssignments - Map of locked assignments (viewed participants -> their targets)
  * @param lockedGiverIds - IDs of participants who have viewed (their outgoing is fixed)
+ * @param constraints - Exclusions, groups, avoided pairs and the loop shape the new assignments must respect
+ * @param rng - Source of randomness (cryptographically secure by default)
+ * @param currentAssignments - The current draw; a small group is never handed it back
  * @returns New assignments for unlocked participants only
+ * @throws AssignmentImpossibleError when the constraints cannot be satisfied
  */
 export function generatePartialAssignments(
   unlockedParticipantIds: string[],
   lockedAssignments: Map<string, string>,
-  lockedGiverIds: string[] = []
+  lockedGiverIds: string[] = [],
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom,
+  currentAssignments?: Map<string, string>
 ): { assignments: Map<string, string>; attempts: number } {
+  const allParticipantIds = [
+    ...new Set([...unlockedParticipantIds, ...lockedAssignments.keys(), ...lockedGiverIds]),
+  ];
+  assertSidesBalanced(allParticipantIds, constraints);
+  assertForcedPairsPossible(allParticipantIds, constraints);
+
+  // Too few givers for the random search to have room - try every option instead
   if (unlockedParticipantIds.length < MIN_PARTICIPANTS_FOR_REGENERATION) {
-    throw new Error(
-      `Need at least ${MIN_PARTICIPANTS_FOR_REGENERATION} unlocked participants to regenerate assignments. ` +
-      `Only ${unlockedParticipantIds.length} available.`
-    );
+    const options = enumeratePartialAssignments(
+      unlockedParticipantIds,
+      lockedAssignments,
+      lockedGiverIds,
+      constraints
+    ).filter(assignments => !isCurrentAssignment(assignments, currentAssignments));
+    if (options.length === 0) {
+      throw new AssignmentImpossibleError(
+        "Assignment impossible: there is no other valid way to reassign the participants who haven't viewed"
+      );
+    }
+    return { assignments: options[rng.randomInt(options.length)]!, attempts: 1 };
   }
 
-  // Participants already receiving from locked givers - cannot receive again
-  const lockedReceivers = new Set(lockedAssignments.values());
-
-  // Available receivers for unlocked givers:
-  // 1. Locked givers who are NOT already receiving from another locked giver
-  // 2. Unlocked participants who are NOT already receiving from locked givers
-  //
-  // Key insight: A locked giver might be the target of another locked giver
-  // (e.g., L1→L2 where both L1 and L2 are locked). In that case, L2 is already
-  // receiving and cannot receive again.
-  const availableReceivers = [
-    ...lockedGiverIds.filter(id => !lockedReceivers.has(id)), // Locked givers not already receiving
-    ...unlockedParticipantIds.filter(id => !lockedReceivers.has(id)),
-  ];
+  const availableReceivers = getAvailableReceivers(
+    unlockedParticipantIds,
+    lockedAssignments,
+    lockedGiverIds
+  );
 
   // Givers are all unlocked participants
   const givers = [...unlockedParticipantIds];
@@ -379,14 +1754,29 @@ export function generatePartialAssignments(
   const allErrors: string[][] = [];
 
   for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    const newAssignments = generateBipartiteAssignment(givers, availableReceivers);
+    const newAssignments = generateBipartiteAssignment(
+      givers,
+      availableReceivers,
+      lockedAssignments,
+      constraints,
+      rng
+    );
     const validation = validateBipartiteAssignments(givers, availableReceivers, newAssignments);
+    const constraintValidation = validateConstraints(newAssignments, constraints);
+    const topologyValidation = validateTopology(
+      new Map([...lockedAssignments, ...newAssignments]),
+      constraints.topology
+    );
 
-    if (validation.valid) {
+    if (validation.valid && constraintValidation.valid && topologyValidation.valid) {
       return { assignments: newAssignments, attempts: attempt };
     }
 
-    allErrors.push(validation.errors);
+    allErrors.push([
+      ...validation.errors,
+      ...constraintValidation.errors,
+      ...topologyValidation.errors,
+    ]);
   }
 
   const error = new Error(
@@ -396,3 +1786,348 @@ export function generatePartialAssignments(
   (error as Error & { validationErrors: string[][] }).validationErrors = allErrors;
   throw error;
 }
+
+/**
+ * Pairs already used in other rounds, so no giver draws the same receiver twice
+ * With NO_MUTUAL_PAIRS the reverse pairs are blocked too
+ */
+function pairsUsedInRounds(
+  rounds: Map<string, string>[],
+  topology: AssignmentTopology
+): DirectedPair[] {
+  const pairs: DirectedPair[] = [];
+  for (const round of rounds) {
+    for (const [giverId, receiverId] of round) {
+      pairs.push({ giverId, receiverId });
+      if (topology === "NO_MUTUAL_PAIRS") {
+        pairs.push({ giverId: receiverId, receiverId: giverId });
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Generates a k-gift exchange: everyone gives to k different people and receives k gifts
+ *
+ * Built as k rounds, each a complete arrangement following the constraints and topology
+ * (see generateAssignments), with each round avoiding the pairs drawn in earlier rounds.
+ * Forced pairs fix one gift, so they apply to the first round only.
+ * A later round can paint itself into a corner, so the whole draw is retried a few times.
+ *
+ * @throws AssignmentImpossibleError when the constraints cannot be satisfied
+ */
+export function generateMultiAssignments(
+  participantIds: string[],
+  giftsPerParticipant: number,
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom
+): MultiAssignmentResult {
+  if (giftsPerParticipant < 1) {
+    throw new Error("Each participant must give at least 1 gift");
+  }
+  if (participantIds.length <= giftsPerParticipant) {
+    throw new Error(
+      `Need more than ${giftsPerParticipant} participants for everyone to give ${giftsPerParticipant} gifts`
+    );
+  }
+
+  const topology = constraints.topology ?? DEFAULT_ASSIGNMENT_TOPOLOGY;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const rounds: Map<string, string>[] = [];
+    try {
+      for (let round = 0; round < giftsPerParticipant; round++) {
+        const { assignments } = generateAssignments(
+          participantIds,
+          {
+            ...constraints,
+            avoidPairs: [...(constraints.avoidPairs ?? []), ...pairsUsedInRounds(rounds, topology)],
+            forcedPairs: round === 0 ? constraints.forcedPairs : undefined,
+          },
+          rng
+        );
+        rounds.push(assignments);
+      }
+      return { rounds, attempts: attempt };
+    } catch (error) {
+      // The first round only faces the caller's constraints, so failing there is final
+      if (!(error instanceof AssignmentImpossibleError) || rounds.length === 0) {
+        throw error;
+      }
+    }
+  }
+
+  throw new AssignmentImpossibleError(
+    `Assignment impossible: no valid way was found for everyone to give ${giftsPerParticipant} gifts`
+  );
+}
+
+/**
+ * Partial regeneration for a k-gift exchange, one round at a time
+ * Each round keeps its locked assignments and is regenerated with generatePartialAssignments,
+ * avoiding pairs already drawn in the other rounds. Forced pairs apply to the first round only.
+ *
+ * @param lockedRounds - Locked assignments (viewed participants -> their targets) for each round
+ * @param currentRounds - The current draw, one map per round; a small group is never handed it back
+ * @returns New assignments for unlocked participants only, one map per round
+ * @throws AssignmentImpossibleError when the constraints cannot be satisfied
+ */
+export function generatePartialMultiAssignments(
+  unlockedParticipantIds: string[],
+  lockedRounds: Map<string, string>[],
+  lockedGiverIds: string[] = [],
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom,
+  currentRounds?: Map<string, string>[]
+): MultiAssignmentResult {
+  const topology = constraints.topology ?? DEFAULT_ASSIGNMENT_TOPOLOGY;
+
+  // Too few givers for the random search to have room - pick from every other option instead
+  if (unlockedParticipantIds.length < MIN_PARTICIPANTS_FOR_REGENERATION) {
+    const alternatives = enumeratePartialAlternatives(
+      unlockedParticipantIds,
+      lockedRounds,
+      lockedGiverIds,
+      constraints,
+      currentRounds
+    );
+    if (alternatives.length === 0) {
+      throw new AssignmentImpossibleError(
+        "Assignment impossible: there is no other valid way to reassign the participants who haven't viewed"
+      );
+    }
+    return { rounds: alternatives[rng.randomInt(alternatives.length)]!, attempts: 1 };
+  }
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const rounds: Map<string, string>[] = [];
+    try {
+      for (const [round, lockedAssignments] of lockedRounds.entries()) {
+        const { assignments } = generatePartialAssignments(
+          unlockedParticipantIds,
+          lockedAssignments,
+          lockedGiverIds,
+          {
+            ...constraints,
+            avoidPairs: [
+              ...(constraints.avoidPairs ?? []),
+              ...pairsUsedInRounds([...lockedRounds, ...rounds], topology),
+            ],
+            forcedPairs: round === 0 ? constraints.forcedPairs : undefined,
+          },
+          rng
+        );
+        rounds.push(assignments);
+      }
+      return { rounds, attempts: attempt };
+    } catch (error) {
+      if (!(error instanceof AssignmentImpossibleError) || rounds.length === 0) {
+        throw error;
+      }
+    }
+  }
+
+  throw new AssignmentImpossibleError(
+    "Assignment impossible: no valid way was found to reassign every gift of the remaining participants"
+  );
+}
+
+/**
+ * A late participant spliced into an existing draw
+ */
+export interface SpliceResult {
+  /** Every round with the newcomer spliced in */
+  rounds: Map<string, string>[];
+  /** The giver redirected to the newcomer, one per round - they need a fresh notification */
+  redirectedGiverIds: string[];
+}
+
+/**
+ * Adds a late participant to an existing draw without redrawing it
+ * In each round one redirectable giver G (with G→R) is chosen at random and the newcomer is
+ * spliced into G's loop: G→newcomer→R. Everyone else keeps their assignment, and loops only
+ * grow, so the draw style still holds. Each round redirects a different giver and gives the
+ * newcomer a different recipient, since no pair may repeat across rounds - and with
+ * NO_MUTUAL_PAIRS nobody may give to the newcomer in one round and receive from them in another.
+ * Forced pairs apply to the first round only, as in generateMultiAssignments.
+ *
+ * @param redirectableGiverIds - Givers whose assignment may change (those who haven't viewed)
+ * @throws AssignmentImpossibleError when no giver can be redirected without breaking a rule
+ */
+export function spliceParticipant(
+  newcomerId: string,
+  rounds: Map<string, string>[],
+  redirectableGiverIds: string[],
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom
+): SpliceResult {
+  const filters = rounds.map((_, round) =>
+    buildAssignmentFilter({
+      ...constraints,
+      forcedPairs: round === 0 ? constraints.forcedPairs : undefined,
+    })
+  );
+  const topology = constraints.topology ?? DEFAULT_ASSIGNMENT_TOPOLOGY;
+  const chosen: string[] = [];
+
+  function chooseGiver(round: number): boolean {
+    if (round === rounds.length) {
+      return true;
+    }
+
+    const assignments = rounds[round]!;
+    const isAllowed = filters[round]!;
+    // Only the newcomer's pairs are new, so they are the only ones that can clash across rounds
+    const newcomerPairs = chosen.map(
+      (giverId, r) =>
+        new Map([
+          [giverId, newcomerId],
+          [newcomerId, rounds[r]!.get(giverId)!],
+        ])
+    );
+    const usedPairs = new Set(
+      pairsUsedInRounds(newcomerPairs, topology).map(pair => pairKey(pair.giverId, pair.receiverId))
+    );
+    const candidates = redirectableGiverIds.filter(giverId => {
+      const receiverId = assignments.get(giverId);
+      return (
+        receiverId !== undefined &&
+        giverId !== newcomerId &&
+        !usedPairs.has(pairKey(giverId, newcomerId)) &&
+        !usedPairs.has(pairKey(newcomerId, receiverId)) &&
+        isAllowed(giverId, newcomerId) &&
+        isAllowed(newcomerId, receiverId)
+      );
+    });
+
+    for (const giverId of shuffle(candidates, rng)) {
+      chosen.push(giverId);
+      if (chooseGiver(round + 1)) {
+        return true;
+      }
+      chosen.pop();
+    }
+    return false;
+  }
+
+  if (rounds.length === 0 || !chooseGiver(0)) {
+    throw new AssignmentImpossibleError(
+      "Assignment impossible: no participant who hasn't viewed yet can give to the newcomer " +
+        "without breaking a rule"
+    );
+  }
+
+  return {
+    rounds: rounds.map((assignments, round) => {
+      const giverId = chosen[round]!;
+      const spliced = new Map(assignments);
+      spliced.set(newcomerId, assignments.get(giverId)!);
+      spliced.set(giverId, newcomerId);
+      return spliced;
+    }),
+    redirectedGiverIds: chosen,
+  };
+}
+
+/**
+ * A draw repaired after a participant withdrew
+ */
+export interface WithdrawalRepairResult {
+  /** Every round without the withdrawn participant */
+  rounds: Map<string, string>[];
+  /** Givers whose recipient changed in any round - they need a fresh notification */
+  changedGiverIds: string[];
+  /** Whether the simple reconnection failed and unviewed participants were redrawn */
+  redrawn: boolean;
+}
+
+/**
+ * Removes a withdrawn participant from an existing draw
+ * First tries to close the gap in each round by reconnecting their giver to their
+ * recipient (P→withdrawn→R becomes P→R), which changes one assignment per round.
+ * When that breaks a rule, the draw style or repeats a pair, the withdrawn participant's
+ * givers and everyone not locked are redrawn with generatePartialMultiAssignments.
+ * The givers of the withdrawn participant always change, even if they already viewed.
+ *
+ * @param lockedGiverIds - Givers whose assignment must stay (those who already viewed)
+ * @throws AssignmentImpossibleError when neither repair satisfies the constraints
+ */
+export function repairWithdrawal(
+  withdrawnId: string,
+  rounds: Map<string, string>[],
+  lockedGiverIds: string[],
+  constraints: AssignmentConstraints = {},
+  rng: RandomSource = secureRandom
+): WithdrawalRepairResult {
+  const topology = constraints.topology ?? DEFAULT_ASSIGNMENT_TOPOLOGY;
+  const giversOfWithdrawn = rounds.map(assignments =>
+    [...assignments].find(([, receiverId]) => receiverId === withdrawnId)?.[0]
+  );
+
+  const reconnected = rounds.map((assignments, round) => {
+    const repaired = new Map(assignments);
+    repaired.delete(withdrawnId);
+    const giverId = giversOfWithdrawn[round];
+    const receiverId = assignments.get(withdrawnId);
+    if (giverId !== undefined && receiverId !== undefined) {
+      repaired.set(giverId, receiverId);
+    }
+    return repaired;
+  });
+
+  const canReconnect = reconnected.every((assignments, round) => {
+    const giverId = giversOfWithdrawn[round];
+    if (giverId === undefined) {
+      return true;
+    }
+    const receiverId = assignments.get(giverId)!;
+    const isAllowed = buildAssignmentFilter({
+      ...constraints,
+      forcedPairs: round === 0 ? constraints.forcedPairs : undefined,
+    });
+    const repeatsPair = reconnected.some(
+      (other, otherRound) => otherRound !== round && other.get(giverId) === receiverId
+    );
+    return (
+      isAllowed(giverId, receiverId) &&
+      !repeatsPair &&
+      validateTopology(assignments, topology).valid
+    );
+  });
+
+  if (canReconnect) {
+    return {
+      rounds: reconnected,
+      changedGiverIds: [...new Set(giversOfWithdrawn.filter(id => id !== undefined))],
+      redrawn: false,
+    };
+  }
+
+  const mustChange = new Set(giversOfWithdrawn.filter(id => id !== undefined));
+  const locked = lockedGiverIds.filter(id => id !== withdrawnId && !mustChange.has(id));
+  const lockedSet = new Set(locked);
+  const unlocked = [...reconnected[0]?.keys() ?? []].filter(id => !lockedSet.has(id));
+  const lockedRounds = rounds.map(
+    assignments => new Map([...assignments].filter(([giverId]) => lockedSet.has(giverId)))
+  );
+
+  const { rounds: redrawnRounds } = generatePartialMultiAssignments(
+    unlocked,
+    lockedRounds,
+    locked,
+    constraints,
+    rng
+  );
+
+  const repaired = redrawnRounds.map(
+    (assignments, round) => new Map([...lockedRounds[round]!, ...assignments])
+  );
+  return {
+    rounds: repaired,
+    changedGiverIds: unlocked.filter(giverId =>
+      repaired.some((assignments, round) => assignments.get(giverId) !== rounds[round]!.get(giverId))
+    ),
+    redrawn: true,
+  };
+}
@@ -0,0 +1,82 @@
+import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
+
+const SALT_BYTES = 32;
+
+/**
+ * How the commitment is computed, returned by the verification endpoint so anyone
+ * can recompute it independently
+ */
+export const COMMITMENT_ALGORITHM =
+  'sha256(salt + "\\n" + lines), hex encoded. Each line is "round:giverId->receiverId"; ' +
+  "lines are sorted and joined with \\n";
+
+export interface CommittedAssignment {
+  giverId: string;
+  receiverId: string;
+  round: number;
+}
+
+/**
+ * Random salt so the commitment can't be brute-forced by trying every possible
+ * arrangement of a small event before the salt is published
+ */
+export function createCommitmentSalt(): string {
+  return crypto.randomBytes(SALT_BYTES).toString("hex");
+}
+
+/**
+ * Lists assignments in a stable order that doesn't depend on how they were stored
+ */
+export function canonicalizeAssignments(assignments: CommittedAssignment[]): string {
+  return assignments
+    .map((a) => `${a.round}:${a.giverId}->${a.receiverId}`)
+    .sort()
+    .join("\n");
+}
+
+/**
+ * Commits to a complete set of assignments without revealing them
+ */
+export function computeDrawCommitment(salt: string, assignments: CommittedAssignment[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${salt}\n${canonicalizeAssignments(assignments)}`)
+    .digest("hex");
+}
+
+/**
+ * Records a commitment to the event's complete assignments as they are now stored
+ * Call inside the transaction that changed them, after every change is written
+ *
+ * @param db - Prisma client or transaction client
+ */
+export async function recordDrawCommitment(db: Prisma.TransactionClient, eventId: string) {
+  const salt = createCommitmentSalt();
+  const assignments = await db.assignment.findMany({
+    where: { eventId },
+    select: { giverId: true, receiverId: true, round: true },
+  });
+  return db.drawCommitment.create({
+    data: {
+      eventId,
+      commitment: computeDrawCommitment(salt, assignments),
+      salt,
+    },
+  });
+}
+
+/**
+ * Whether the draw can be opened up for verification: once the gifts are revealed, or once
+ * the event date has passed - undated events stay closed until the admin reveals the gifts,
+ * since having viewed their own assignment doesn't entitle anyone to see the others
+ */
+export function isVerificationOpen(
+  event: { eventDate: string | null; status?: string },
+  now: Date = new Date()
+): boolean {
+  if (event.status === "REVEALED" || event.status === "ARCHIVED") {
+    return true;
+  }
+  return !!event.eventDate && event.eventDate < now.toISOString().slice(0, 10);
+}
@@ -0,0 +1,179 @@
+/**
+ * Safe rendering of the app's emails
+ * Every email is described as plain text (EmailContent) and rendered here into both the HTML
+ * and the plain-text part, so user-provided values are escaped in exactly one place and the
+ * two parts always say the same thing.
+ */
+
+export interface EmailContent {
+  /** Banner at the top, e.g. "🎄 Secret Santa 🎁" */
+  title: string;
+  /** Under the banner - usually the event name */
+  subtitle: string;
+  heading?: string;
+  /** Plain text; single newlines become line breaks */
+  paragraphs: string[];
+  /** Shown as boxes after the paragraphs, e.g. the event date and budget */
+  details?: { label: string; value: string }[];
+  button?: { label: string; href: string };
+  /** Small print at the bottom; defaults to the button's link for clients that can't click it */
+  footer?: string;
+}
+
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+/**
+ * Escapes text for use in HTML content and double- or single-quoted attributes
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Only web links are allowed on the button - anything else (javascript:, data:) is dropped
+ */
+function safeHref(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function textToHtml(value: string): string {
+  return escapeHtml(value).replace(/\r?\n/g, "<br>");
+}
+
+function renderHtml(content: EmailContent, href: string | null, footer: string | null): string {
+  const paragraphs = content.paragraphs
+    .map(
+      (paragraph) => `
+              <p style="color: #666666; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+                ${textToHtml(paragraph)}
+              </p>`
+    )
+    .join("");
+
+  const details = (content.details ?? [])
+    .map(
+      (detail) => `
+              <div style="background-color: #f8f8f8; padding: 15px 20px; border-radius: 8px; margin: 0 0 20px 0;">
+                <p style="color: #333333; margin: 0; font-size: 14px;">
+                  <strong>${escapeHtml(detail.label)}:</strong> ${escapeHtml(detail.value)}
+                </p>
+              </div>`
+    )
+    .join("");
+
+  const button =
+    content.button && href
+      ? `
+              <!-- CTA Button -->
+              <table width="100%" cellpadding="0" cellspacing="0" style="margin: 30px 0;">
+                <tr>
+                  <td align="center">
+                    <a href="${escapeHtml(href)}"
+                       style="display: inline-block; background: linear-gradient(135deg, #c41e3a 0%, #8b0000 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 18px; font-weight: bold; box-shadow: 0 4px 15px rgba(196, 30, 58, 0.3);">
+                      ${escapeHtml(content.button.label)}
+                    </a>
+                  </td>
+                </tr>
+              </table>`
+      : "";
+
+  const footerRow = footer
+    ? `
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 30px; background-color: #f8f8f8; border-radius: 0 0 12px 12px; text-align: center;">
+              <p style="color: #999999; font-size: 12px; margin: 0;">
+                ${textToHtml(footer)}
+              </p>
+            </td>
+          </tr>`
+    : "";
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #c41e3a 0%, #8b0000 100%); padding: 40px 30px; text-align: center; border-radius: 12px 12px 0 0;">
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: bold;">
+                ${escapeHtml(content.title)}
+              </h1>
+              <p style="color: #ffcccc; margin: 10px 0 0 0; font-size: 16px;">
+                ${escapeHtml(content.subtitle)}
+              </p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">${
+              content.heading
+                ? `
+              <h2 style="color: #333333; margin: 0 0 20px 0; font-size: 22px;">
+                ${escapeHtml(content.heading)}
+              </h2>`
+                : ""
+            }${paragraphs}${details}${button}
+            </td>
+          </tr>${footerRow}
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+function renderText(content: EmailContent, href: string | null): string {
+  const blocks = [
+    [content.title, content.subtitle].filter(Boolean).join("\n"),
+    content.heading,
+    ...content.paragraphs,
+    (content.details ?? []).map((detail) => `${detail.label}: ${detail.value}`).join("\n"),
+    content.button && href ? `${content.button.label}:\n${href}` : "",
+    // The link is spelled out above, so the default "if the button doesn't work" footer is left out
+    content.footer,
+  ];
+
+  return blocks
+    .map((block) => block?.replace(/\r\n/g, "\n").trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Renders an email's HTML and plain-text parts, escaping every value in the HTML
+ */
+export function renderEmail(content: EmailContent): RenderedEmail {
+  const href = content.button ? safeHref(content.button.href) : null;
+  const footer = content.footer ?? (href ? `If the button doesn't work, copy this link: ${href}` : null);
+
+  return {
+    html: renderHtml(content, href, footer),
+    text: renderText(content, href),
+  };
+}
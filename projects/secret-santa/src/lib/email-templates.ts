@@ -0,0 +1,192 @@
+import type { Prisma } from "@prisma/client";
+import { renderEmail, type RenderedEmail } from "@/lib/email-layout";
+
+/**
+ * The emails an organizer can reword
+ * - INVITE: a participant's reveal link, sent by notify and resend
+ * - ADMIN_LINK: the organizer's own admin link
+ */
+export type EmailTemplateKind = "INVITE" | "ADMIN_LINK";
+
+export const EMAIL_TEMPLATE_KINDS: readonly EmailTemplateKind[] = ["INVITE", "ADMIN_LINK"];
+
+export function isEmailTemplateKind(value: unknown): value is EmailTemplateKind {
+  return typeof value === "string" && (EMAIL_TEMPLATE_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * The editable parts of an email; the layout, button and link footer stay fixed
+ */
+export interface EmailTemplateContent {
+  subject: string;
+  heading: string;
+  /** Plain text - blank lines separate paragraphs */
+  body: string;
+}
+
+export type TemplatePlaceholder =
+  | "name"
+  | "eventName"
+  | "revealLink"
+  | "budget"
+  | "eventDate"
+  | "adminLink";
+
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
+
+export const TEMPLATE_PLACEHOLDERS: Record<EmailTemplateKind, readonly TemplatePlaceholder[]> = {
+  INVITE: ["name", "eventName", "revealLink", "budget", "eventDate"],
+  ADMIN_LINK: ["eventName", "adminLink"],
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKind, EmailTemplateContent> = {
+  INVITE: {
+    subject: "You're invited to {{eventName}} - Secret Santa Gift Exchange!",
+    heading: "Hi {{name}}! 👋",
+    body:
+      "You've been invited to participate in a Secret Santa gift exchange! Click the button below to find out who you'll be getting a gift for.\n\n" +
+      "🤫 Remember: Keep your assignment a secret! That's what makes it fun.",
+  },
+  ADMIN_LINK: {
+    subject: "Your Secret Santa Admin Link - {{eventName}}",
+    heading: "Your Admin Dashboard Link",
+    body:
+      "⚠️ Important: This link is your only way to access the admin dashboard. Save it somewhere safe and don't share it with participants!",
+  },
+};
+
+const TEMPLATE_LAYOUT: Record<
+  EmailTemplateKind,
+  { title: string; button: string; link: "revealLink" | "adminLink" }
+> = {
+  INVITE: { title: "🎄 Secret Santa 🎁", button: "🎁 Reveal My Assignment", link: "revealLink" },
+  ADMIN_LINK: { title: "🎄 Secret Santa Admin 🎁", button: "🔐 Go to Admin Dashboard", link: "adminLink" },
+};
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_HEADING_LENGTH = 200;
+const MAX_BODY_LENGTH = 5000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * The event date as it reads in emails ("Friday, December 18, 2026"), or null if unset
+ */
+export function formatEventDate(eventDate: string | null | undefined): string | null {
+  return eventDate
+    ? new Date(eventDate + "T12:00:00").toLocaleDateString("en-US", {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      })
+    : null;
+}
+
+/**
+ * Replaces {{placeholder}}s with their values; a placeholder without a value becomes empty
+ */
+export function fillPlaceholders(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, key: string) => values[key as TemplatePlaceholder] ?? "");
+}
+
+/**
+ * Reads a template from a request body, or null when a part is missing or not text
+ */
+export function parseEmailTemplate(value: unknown): EmailTemplateContent | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const { subject, heading, body } = value as Record<string, unknown>;
+  if (typeof subject !== "string" || typeof heading !== "string" || typeof body !== "string") {
+    return null;
+  }
+  return { subject, heading, body: body.replace(/\r\n/g, "\n") };
+}
+
+/**
+ * Why a template can't be saved, or null if it can
+ */
+export function validateEmailTemplate(
+  kind: EmailTemplateKind,
+  template: EmailTemplateContent
+): string | null {
+  if (!template.subject.trim()) {
+    return "Subject is required";
+  }
+  if (/[\r\n]/.test(template.subject)) {
+    return "Subject must be a single line";
+  }
+  if (template.subject.length > MAX_SUBJECT_LENGTH) {
+    return `Subject must be ${MAX_SUBJECT_LENGTH} characters or less`;
+  }
+  if (template.heading.length > MAX_HEADING_LENGTH) {
+    return `Heading must be ${MAX_HEADING_LENGTH} characters or less`;
+  }
+  if (!template.body.trim()) {
+    return "Body is required";
+  }
+  if (template.body.length > MAX_BODY_LENGTH) {
+    return `Body must be ${MAX_BODY_LENGTH} characters or less`;
+  }
+
+  const allowed: readonly string[] = TEMPLATE_PLACEHOLDERS[kind];
+  const text = `${template.subject}\n${template.heading}\n${template.body}`;
+  const unknown = [...text.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1]!)
+    .filter((key) => !allowed.includes(key));
+  if (unknown.length > 0) {
+    return `Unknown placeholder {{${unknown[0]}}} - use ${allowed.map((key) => `{{${key}}}`).join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Renders a template into the email's subject, HTML and plain text; the template text and
+ * placeholder values are escaped, so they never become markup
+ */
+export function renderEmailTemplate(
+  kind: EmailTemplateKind,
+  template: EmailTemplateContent,
+  values: TemplateValues
+): { subject: string } & RenderedEmail {
+  const layout = TEMPLATE_LAYOUT[kind];
+  const details =
+    kind === "INVITE"
+      ? [
+          { label: "📅 Event Date", value: values.eventDate ?? "" },
+          { label: "💰 Budget", value: values.budget ?? "" },
+        ].filter((detail) => detail.value)
+      : [];
+
+  const rendered = renderEmail({
+    title: layout.title,
+    subtitle: values.eventName ?? "",
+    heading: fillPlaceholders(template.heading, values).trim(),
+    // Blank lines separate paragraphs
+    paragraphs: fillPlaceholders(template.body, values)
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean),
+    details,
+    button: { label: layout.button, href: values[layout.link] ?? "" },
+  });
+
+  return { subject: fillPlaceholders(template.subject, values).trim(), ...rendered };
+}
+
+/**
+ * The event's template of a kind - the organizer's version, or the built-in default
+ */
+export async function loadEmailTemplate(
+  db: Prisma.TransactionClient,
+  eventId: string,
+  kind: EmailTemplateKind
+): Promise<EmailTemplateContent> {
+  const stored = await db.emailTemplate.findUnique({
+    where: { eventId_kind: { eventId, kind } },
+    select: { subject: true, heading: true, body: true },
+  });
+  return stored ?? DEFAULT_EMAIL_TEMPLATES[kind];
+}
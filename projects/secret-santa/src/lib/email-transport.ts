@@ -0,0 +1,154 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { sendEmailViaGmail } from "@/lib/gmail-send";
+import { logError, logInfo, logWarn } from "@/lib/logger";
+import { createMimeMessage, emailHeadersProblem } from "@/lib/mime";
+import { readSmtpConfig, sendEmailViaSmtp } from "@/lib/smtp";
+
+/**
+ * How emails leave the app
+ * - GMAIL: the organizer's Gmail account, connected per event with OAuth
+ * - SMTP: the deployment's mail server (SMTP_* environment variables)
+ * - OUTBOX: nothing is sent - emails are written as .eml files to EMAIL_OUTBOX_DIR,
+ *   or logged when it isn't set (for development, tests and self-hosters without mail)
+ */
+export type EmailTransportKind = "GMAIL" | "SMTP" | "OUTBOX";
+
+export const EMAIL_TRANSPORT_KINDS: readonly EmailTransportKind[] = ["GMAIL", "SMTP", "OUTBOX"];
+
+export function isEmailTransportKind(value: unknown): value is EmailTransportKind {
+  return typeof value === "string" && (EMAIL_TRANSPORT_KINDS as readonly string[]).includes(value);
+}
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text part - see renderEmail, which produces both */
+  text: string;
+}
+
+export interface SendEmailResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface EmailTransport {
+  kind: EmailTransportKind;
+  send(email: OutgoingEmail): Promise<SendEmailResult>;
+}
+
+const OUTBOX_FROM = "Secret Santa <secret-santa@localhost>";
+
+/**
+ * The deployment's transport, from EMAIL_TRANSPORT (gmail, smtp or outbox) - Gmail by default
+ */
+export function defaultEmailTransportKind(): EmailTransportKind {
+  const configured = process.env.EMAIL_TRANSPORT?.toUpperCase();
+  return isEmailTransportKind(configured) ? configured : "GMAIL";
+}
+
+/**
+ * The transport an event sends with: its own choice, or the deployment's default
+ */
+export function resolveEmailTransportKind(event: { emailTransport: string | null }): EmailTransportKind {
+  return isEmailTransportKind(event.emailTransport)
+    ? event.emailTransport
+    : defaultEmailTransportKind();
+}
+
+/**
+ * Why the event can't send email right now, for error messages, or null if it can
+ */
+export function emailTransportProblem(event: {
+  emailTransport: string | null;
+  gmailCredential: { revokedAt: Date | null } | null;
+}): string | null {
+  switch (resolveEmailTransportKind(event)) {
+    case "GMAIL":
+      return !event.gmailCredential || event.gmailCredential.revokedAt
+        ? "Gmail is not connected. Please connect your Gmail account to send emails."
+        : null;
+    case "SMTP":
+      return readSmtpConfig()
+        ? null
+        : "The SMTP server is not configured. Set SMTP_HOST and SMTP_FROM, or choose another way to send emails.";
+    case "OUTBOX":
+      return null;
+  }
+}
+
+async function sendToOutbox(email: OutgoingEmail): Promise<SendEmailResult> {
+  const directory = process.env.EMAIL_OUTBOX_DIR;
+  if (!directory) {
+    logInfo("Email written to the console outbox", {
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+    });
+    return { success: true };
+  }
+
+  try {
+    await mkdir(directory, { recursive: true });
+    const file = path.join(directory, `${Date.now()}-${randomUUID()}.eml`);
+    await writeFile(file, createMimeMessage(OUTBOX_FROM, email.to, email.subject, email.html, email.text));
+    logInfo("Email written to the outbox", { to: email.to, file });
+    return { success: true };
+  } catch (error) {
+    logError("Failed to write email to the outbox", error, { to: email.to, directory });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to write email",
+    };
+  }
+}
+
+/**
+ * Refuses emails whose recipient or subject could inject headers before they reach a transport
+ */
+function withHeaderCheck(transport: EmailTransport): EmailTransport {
+  return {
+    kind: transport.kind,
+    send: async (email) => {
+      const problem = emailHeadersProblem(email);
+      if (problem) {
+        logWarn("Refused to send email with unsafe headers", { kind: transport.kind, problem });
+        return { success: false, error: problem };
+      }
+      return transport.send(email);
+    },
+  };
+}
+
+/**
+ * The transport to send an event's emails with
+ * Check emailTransportProblem first - an unconfigured transport fails every send.
+ * The Gmail transport still throws GmailNotConnectedError / GmailTokenRevokedError.
+ */
+export function createEmailTransport(event: {
+  id: string;
+  emailTransport: string | null;
+}): EmailTransport {
+  const kind = resolveEmailTransportKind(event);
+  switch (kind) {
+    case "GMAIL":
+      return withHeaderCheck({
+        kind,
+        send: (email) => sendEmailViaGmail(event.id, email.to, email.subject, email.html, email.text),
+      });
+    case "SMTP":
+      return withHeaderCheck({
+        kind,
+        send: async (email) => {
+          const config = readSmtpConfig();
+          return config
+            ? sendEmailViaSmtp(config, email)
+            : { success: false, error: "The SMTP server is not configured" };
+        },
+      });
+    case "OUTBOX":
+      return withHeaderCheck({ kind, send: sendToOutbox });
+  }
+}
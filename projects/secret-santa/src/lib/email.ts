@@ -0,0 +1,99 @@
+import type { EmailTransport, SendEmailResult } from "@/lib/email-transport";
+import { renderEmail } from "@/lib/email-layout";
+import { formatEventDate, renderEmailTemplate, type EmailTemplateContent } from "@/lib/email-templates";
+
+/**
+ * Send an invite email to a participant, worded by the event's invite template
+ */
+export async function sendInviteEmail(
+  transport: EmailTransport,
+  template: EmailTemplateContent,
+  recipientEmail: string,
+  recipientName: string,
+  eventName: string,
+  revealLink: string,
+  eventDate?: string | null,
+  budget?: string | null
+): Promise<SendEmailResult> {
+  const { subject, html, text } = renderEmailTemplate("INVITE", template, {
+    name: recipientName,
+    eventName,
+    revealLink,
+    eventDate: formatEventDate(eventDate) ?? "",
+    budget: budget ?? "",
+  });
+
+  return transport.send({ to: recipientEmail, subject, html, text });
+}
+
+/**
+ * Send the admin link email, worded by the event's admin-link template
+ */
+export async function sendAdminLinkEmail(
+  transport: EmailTransport,
+  template: EmailTemplateContent,
+  recipientEmail: string,
+  eventName: string,
+  adminLink: string
+): Promise<SendEmailResult> {
+  const { subject, html, text } = renderEmailTemplate("ADMIN_LINK", template, { eventName, adminLink });
+
+  return transport.send({ to: recipientEmail, subject, html, text });
+}
+
+/**
+ * Tell a participant that the draw is being redone and their assignment will change
+ */
+export async function sendRedrawNoticeEmail(
+  transport: EmailTransport,
+  recipientEmail: string,
+  recipientName: string,
+  eventName: string
+): Promise<SendEmailResult> {
+  const subject = `${eventName} - the Secret Santa draw is being redone`;
+
+  const { html, text } = renderEmail({
+    title: "🎄 Secret Santa 🎁",
+    subtitle: eventName,
+    heading: `Hi ${recipientName}! 👋`,
+    paragraphs: [
+      "The organizer is redoing the draw for this gift exchange, so your assignment will change.",
+      "You'll get a new invitation once the new draw is ready - use the link in that one to see who you're getting a gift for.",
+    ],
+    footer: "Nothing has been revealed yet - nobody had opened their link.",
+  });
+
+  return transport.send({ to: recipientEmail, subject, html, text });
+}
+
+/**
+ * Remind a participant who hasn't opened their invite yet
+ */
+export async function sendReminderEmail(
+  transport: EmailTransport,
+  recipientEmail: string,
+  recipientName: string,
+  eventName: string,
+  revealLink: string,
+  eventDate?: string | null,
+  budget?: string | null
+): Promise<SendEmailResult> {
+  const subject = `Reminder: your ${eventName} Secret Santa assignment is waiting`;
+  const formattedDate = formatEventDate(eventDate);
+
+  const { html, text } = renderEmail({
+    title: "🎄 Secret Santa 🎁",
+    subtitle: eventName,
+    heading: `Hi ${recipientName}! 👋`,
+    paragraphs: [
+      "You haven't opened your Secret Santa invitation yet - find out who you're getting a gift for.",
+    ],
+    details: [
+      ...(formattedDate ? [{ label: "📅 Event Date", value: formattedDate }] : []),
+      ...(budget ? [{ label: "💰 Budget", value: budget }] : []),
+    ],
+    button: { label: "🎁 Reveal My Assignment", href: revealLink },
+  });
+
+  return transport.send({ to: recipientEmail, subject, html, text });
+}
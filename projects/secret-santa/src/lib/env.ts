@@ -97,6 +97,38 @@ export function validateEnv(): void {
     warnings.push("OAUTH_TOKEN_ENCRYPTION_KEY is required for Gmail integration");
   }
 
+  // Check the SMTP server when it is the deployment's email transport
+  const emailTransport = process.env.EMAIL_TRANSPORT?.toUpperCase();
+  if (emailTransport && !["GMAIL", "SMTP", "OUTBOX"].includes(emailTransport)) {
+    warnings.push("EMAIL_TRANSPORT must be gmail, smtp or outbox - falling back to gmail");
+  }
+  if (emailTransport === "SMTP") {
+    if (!process.env.SMTP_HOST) {
+      warnings.push("SMTP_HOST is required when EMAIL_TRANSPORT=smtp");
+    }
+    if (!process.env.SMTP_FROM) {
+      warnings.push("SMTP_FROM is required when EMAIL_TRANSPORT=smtp");
+    }
+  }
+
+  // Check the SMS provider when one is chosen
+  const smsProvider = process.env.SMS_PROVIDER?.toUpperCase();
+  if (smsProvider && !["TWILIO", "STUB"].includes(smsProvider)) {
+    warnings.push("SMS_PROVIDER must be twilio or stub - text messages are disabled");
+  }
+  if (smsProvider === "TWILIO") {
+    for (const key of ["TWILIO_ACCOUNT_SID", "TWILIO_AUTH_TOKEN", "TWILIO_FROM"]) {
+      if (!process.env[key]) {
+        warnings.push(`${key} is required when SMS_PROVIDER=twilio`);
+      }
+    }
+  }
+
+  // Scheduled reminders are only sent when the job runner can authenticate
+  if (!process.env.CRON_SECRET) {
+    warnings.push("CRON_SECRET is required for scheduled reminders (/api/cron/reminders)");
+  }
+
   if (errors.length > 0) {
     console.error("Environment validation failed:");
     errors.forEach((e) => console.error(`  - ${e}`));
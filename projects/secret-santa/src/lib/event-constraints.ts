@@ -0,0 +1,63 @@
+import {
+  DEFAULT_ASSIGNMENT_TOPOLOGY,
+  isAssignmentTopology,
+  isAttributeRuleRelation,
+  type AssignmentConstraints,
+} from "@/lib/derangement";
+import { readAttributes } from "@/lib/participant-attributes";
+
+/**
+ * Builds generator constraints from an event's exclusions, group memberships, forced pairs,
+ * attribute rules, topology and (for a CROSS_SIDES exchange) sides
+ * Pass one pool's participants to get that pool's constraints: forced pairs reaching
+ * outside it are left out, so callers must report those themselves
+ */
+export function buildConstraints(event: {
+  topology: string;
+  exchangeMode: string;
+  participants: {
+    id: string;
+    groupId: string | null;
+    side: string | null;
+    attributes: unknown;
+  }[];
+  exclusions: { participant1Id: string; participant2Id: string }[];
+  forcedPairs: { giverId: string; receiverId: string }[];
+  matchingRules: { attribute: string; relation: string }[];
+}): AssignmentConstraints {
+  const groups = new Map<string, string>();
+  for (const p of event.participants) {
+    if (p.groupId) {
+      groups.set(p.id, p.groupId);
+    }
+  }
+  const topology = isAssignmentTopology(event.topology)
+    ? event.topology
+    : DEFAULT_ASSIGNMENT_TOPOLOGY;
+  const participantIds = new Set(event.participants.map(p => p.id));
+  const constraints: AssignmentConstraints = {
+    exclusions: event.exclusions,
+    groups,
+    topology,
+    forcedPairs: event.forcedPairs.filter(
+      pair => participantIds.has(pair.giverId) && participantIds.has(pair.receiverId)
+    ),
+    attributes: new Map(event.participants.map(p => [p.id, readAttributes(p.attributes)])),
+    rules: event.matchingRules.flatMap(rule =>
+      isAttributeRuleRelation(rule.relation)
+        ? [{ attribute: rule.attribute, relation: rule.relation }]
+        : []
+    ),
+  };
+
+  if (event.exchangeMode === "CROSS_SIDES") {
+    const sides = new Map<string, string>();
+    for (const p of event.participants) {
+      if (p.side) {
+        sides.set(p.id, p.side);
+      }
+    }
+    constraints.sides = sides;
+  }
+  return constraints;
+}
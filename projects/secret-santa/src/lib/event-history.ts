@@ -0,0 +1,101 @@
+import { prisma } from "@/lib/db";
+import type { DirectedPair } from "@/lib/derangement";
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Date used to decide which linked events are most recent
+ * Falls back to the creation date for events without an event date
+ */
+function seriesDate(event: { eventDate: string | null; createdAt: Date }): string {
+  return event.eventDate ?? event.createdAt.toISOString().slice(0, 10);
+}
+
+/**
+ * Pulls an admin token out of whatever the admin pasted - a full admin link or the bare token
+ */
+export function extractAdminToken(input: string): string | null {
+  const matches = input.match(UUID_PATTERN);
+  return matches ? matches[matches.length - 1]!.toLowerCase() : null;
+}
+
+/**
+ * Loads giver -> receiver pairings from an event's linked prior events, translated to
+ * this event's participant IDs by matching email addresses (case-insensitive)
+ *
+ * Pairs where either person is not in this event (or has no email) are dropped.
+ * The result never leaves the server - callers only report counts to the admin.
+ *
+ * @param participants - This event's participants
+ * @param depth - How many of the most recent linked events to include
+ * @returns One list of pairs per prior event, most recent event first
+ */
+export async function loadPastPairings(
+  eventId: string,
+  participants: { id: string; email: string | null }[],
+  depth: number
+): Promise<DirectedPair[][]> {
+  if (depth <= 0) {
+    return [];
+  }
+
+  const links = await prisma.eventLink.findMany({
+    where: { eventId },
+    include: {
+      priorEvent: {
+        select: {
+          eventDate: true,
+          createdAt: true,
+          assignments: {
+            select: {
+              giver: { select: { email: true } },
+              receiver: { select: { email: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const idsByEmail = new Map<string, string>();
+  for (const p of participants) {
+    if (p.email) {
+      idsByEmail.set(normalizeEmail(p.email), p.id);
+    }
+  }
+
+  return links
+    .map((link) => link.priorEvent)
+    .sort((a, b) => seriesDate(b).localeCompare(seriesDate(a)))
+    .slice(0, depth)
+    .map((priorEvent) => {
+      const pairs: DirectedPair[] = [];
+      for (const { giver, receiver } of priorEvent.assignments) {
+        if (!giver.email || !receiver.email) continue;
+
+        const giverId = idsByEmail.get(normalizeEmail(giver.email));
+        const receiverId = idsByEmail.get(normalizeEmail(receiver.email));
+        if (giverId && receiverId && giverId !== receiverId) {
+          pairs.push({ giverId, receiverId });
+        }
+      }
+      return pairs;
+    });
+}
+
+/**
+ * Counts how many of this event's participants also took part in a prior event
+ */
+export function countMatchedParticipants(
+  participants: { email: string | null }[],
+  priorParticipants: { email: string | null }[]
+): number {
+  const priorEmails = new Set(
+    priorParticipants.filter((p) => p.email).map((p) => normalizeEmail(p.email!))
+  );
+  return participants.filter((p) => p.email && priorEmails.has(normalizeEmail(p.email))).length;
+}
@@ -0,0 +1,185 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Event lifecycle: every event is in exactly one phase, and what the admin (or a
+ * participant) may do depends only on that phase
+ *
+ * DRAFT -> OPEN (collecting participants) -> DRAWN -> NOTIFIED -> EVENT_DAY -> REVEALED,
+ * and any phase can be ARCHIVED. Undoing the draw goes back to DRAFT.
+ */
+
+export type EventStatus =
+  | "DRAFT"
+  | "OPEN"
+  | "DRAWN"
+  | "NOTIFIED"
+  | "EVENT_DAY"
+  | "REVEALED"
+  | "ARCHIVED";
+
+export const EVENT_STATUSES: readonly EventStatus[] = [
+  "DRAFT",
+  "OPEN",
+  "DRAWN",
+  "NOTIFIED",
+  "EVENT_DAY",
+  "REVEALED",
+  "ARCHIVED",
+];
+
+export const DEFAULT_EVENT_STATUS: EventStatus = "DRAFT";
+
+export function isEventStatus(value: unknown): value is EventStatus {
+  return typeof value === "string" && (EVENT_STATUSES as readonly string[]).includes(value);
+}
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  DRAFT: "Draft",
+  OPEN: "Open for signup",
+  DRAWN: "Drawn",
+  NOTIFIED: "Notified",
+  EVENT_DAY: "Event day",
+  REVEALED: "Revealed",
+  ARCHIVED: "Archived",
+};
+
+/**
+ * What can be done to an event
+ * - EDIT: change settings, participants, constraints and linked events
+ * - DRAW: generate or regenerate assignments
+ * - CHANGE_DRAW: add a latecomer, withdraw a participant or roll back a version
+ * - UNDO_DRAW: throw the draw away and go back to DRAFT
+ * - NOTIFY: send or resend invites
+ * - REVEAL: a participant views their assignment
+ */
+export type EventAction = "EDIT" | "DRAW" | "CHANGE_DRAW" | "UNDO_DRAW" | "NOTIFY" | "REVEAL";
+
+const ACTION_PHASES: Record<EventAction, readonly EventStatus[]> = {
+  EDIT: ["DRAFT", "OPEN"],
+  DRAW: ["DRAFT", "OPEN", "DRAWN", "NOTIFIED"],
+  CHANGE_DRAW: ["DRAWN", "NOTIFIED"],
+  UNDO_DRAW: ["DRAWN", "NOTIFIED"],
+  NOTIFY: ["DRAWN", "NOTIFIED", "EVENT_DAY"],
+  REVEAL: ["DRAWN", "NOTIFIED", "EVENT_DAY", "REVEALED"],
+};
+
+/**
+ * Allowed phase changes. NOTIFIED -> DRAWN happens when a full regeneration resets
+ * everyone's invites; -> DRAFT only by undoing the draw.
+ */
+const TRANSITIONS: Record<EventStatus, readonly EventStatus[]> = {
+  DRAFT: ["OPEN", "DRAWN", "ARCHIVED"],
+  OPEN: ["DRAFT", "DRAWN", "ARCHIVED"],
+  DRAWN: ["DRAFT", "NOTIFIED", "EVENT_DAY", "ARCHIVED"],
+  NOTIFIED: ["DRAFT", "DRAWN", "EVENT_DAY", "ARCHIVED"],
+  EVENT_DAY: ["REVEALED", "ARCHIVED"],
+  REVEALED: ["ARCHIVED"],
+  ARCHIVED: [],
+};
+
+/**
+ * Phases the admin moves to directly; the others follow from drawing, sending invites
+ * or undoing the draw
+ */
+const MANUAL_TARGETS: readonly EventStatus[] = ["OPEN", "EVENT_DAY", "REVEALED", "ARCHIVED"];
+
+/**
+ * Thrown when an event is asked to move to a phase it can't reach from its current one
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: EventStatus
+  ) {
+    super(
+      `Can't move the event from ${isEventStatus(from) ? EVENT_STATUS_LABELS[from] : from} ` +
+        `to ${EVENT_STATUS_LABELS[to]}`
+    );
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export function canPerform(status: string, action: EventAction): boolean {
+  return isEventStatus(status) && ACTION_PHASES[action].includes(status);
+}
+
+/**
+ * Why an action isn't possible in this phase, for error messages, or null if it is
+ */
+export function actionBlockedReason(status: string, action: EventAction): string | null {
+  if (canPerform(status, action)) {
+    return null;
+  }
+  if (status === "ARCHIVED") {
+    return "the event is archived";
+  }
+  if (status === "DRAFT" || status === "OPEN") {
+    return "assignments haven't been generated yet";
+  }
+  if (action === "EDIT") {
+    return "assignments have already been generated";
+  }
+  if (status === "EVENT_DAY") {
+    return "it is already event day";
+  }
+  return "the gifts have already been revealed";
+}
+
+/**
+ * Whether the participant list and constraints are frozen - true from the draw onwards
+ */
+export function isEventLocked(status: string): boolean {
+  return !canPerform(status, "EDIT");
+}
+
+export function canTransition(from: string, to: EventStatus): boolean {
+  return from === to || (isEventStatus(from) && TRANSITIONS[from].includes(to));
+}
+
+/**
+ * Phases the admin can move the event to from here, in lifecycle order
+ */
+export function manualTransitions(status: string): EventStatus[] {
+  return EVENT_STATUSES.filter(
+    (to) =>
+      to !== status &&
+      canTransition(status, to) &&
+      (MANUAL_TARGETS.includes(to) || (to === "DRAFT" && status === "OPEN"))
+  );
+}
+
+/**
+ * Moves the event to a new phase, or keeps it where it is if it is already there
+ * The update only applies if the event is still in the phase it was read in, so a
+ * concurrent change can't be silently overwritten
+ *
+ * @param db - Prisma client or transaction client
+ * @throws InvalidTransitionError if the transition isn't allowed or the phase changed
+ */
+export async function transitionEvent(
+  db: Prisma.TransactionClient,
+  event: { id: string; status: string },
+  to: EventStatus
+): Promise<void> {
+  if (!canTransition(event.status, to)) {
+    throw new InvalidTransitionError(event.status, to);
+  }
+  if (event.status === to) {
+    return;
+  }
+
+  const { count } = await db.event.updateMany({
+    where: { id: event.id, status: event.status },
+    data: { status: to },
+  });
+  if (count === 0) {
+    // Another request got there first - fine, as long as it ended up where we wanted
+    const current = await db.event.findUnique({
+      where: { id: event.id },
+      select: { status: true },
+    });
+    if (current?.status !== to) {
+      throw new InvalidTransitionError(current?.status ?? event.status, to);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Finds the event's group (household) with this name, creating it if needed
+ * Returns null for a blank name, meaning "no group"
+ *
+ * @param db - Prisma client or transaction client
+ */
+export async function findOrCreateGroup(
+  db: Prisma.TransactionClient,
+  eventId: string,
+  name: string | null | undefined
+): Promise<string | null> {
+  const trimmedName = name?.trim();
+  if (!trimmedName) {
+    return null;
+  }
+
+  const group = await db.group.upsert({
+    where: { eventId_name: { eventId, name: trimmedName } },
+    update: {},
+    create: { eventId, name: trimmedName },
+  });
+
+  return group.id;
+}
+
+/**
+ * Removes an event's groups that no longer have any members
+ */
+export async function deleteEmptyGroups(
+  db: Prisma.TransactionClient,
+  eventId: string
+): Promise<void> {
+  await db.group.deleteMany({
+    where: {
+      eventId,
+      participants: { none: {} },
+    },
+  });
+}
@@ -6,10 +6,10 @@ export { prisma } from "./db";
 export { generateDerangement, generateAssignments } from "./derangement";
 export {
   sendEmailViaGmail,
-  sendInviteEmailViaGmail,
-  sendAdminLinkEmailViaGmail,
   GmailNotConnectedError,
   GmailTokenRevokedError,
 } from "./gmail-send";
+export { createEmailTransport, emailTransportProblem } from "./email-transport";
+export { sendInviteEmail, sendAdminLinkEmail } from "./email";
 export { serverEnv, clientEnv, validateEnv } from "./env";
 export { cn } from "./utils";
@@ -0,0 +1,86 @@
+/**
+ * A header value that would let someone add headers (or, over SMTP, commands) of their own
+ */
+export class EmailHeaderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailHeaderError";
+  }
+}
+
+// One plain address - no display name, no list, nothing that needs quoting
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>(),;:"[\]\\]+@[^\s@<>(),;:"[\]\\]+\.[^\s@<>(),;:"[\]\\]+$/;
+
+function hasLineBreak(value: string): boolean {
+  return /[\r\n\0]/.test(value);
+}
+
+/**
+ * Why an email can't be sent as addressed, or null if it can: a line break in the subject
+ * or recipient (header injection), or a recipient that isn't a single plain address
+ */
+export function emailHeadersProblem(email: { to: string; subject: string }): string | null {
+  if (hasLineBreak(email.to) || !EMAIL_ADDRESS_PATTERN.test(email.to)) {
+    return `"${email.to.replace(/[\r\n\0]/g, " ")}" is not a valid email address`;
+  }
+  if (hasLineBreak(email.subject)) {
+    return "Email subject must be a single line";
+  }
+  return null;
+}
+
+/**
+ * Splits base64 into 76-character lines, as MIME requires (SMTP rejects lines over 998)
+ */
+function wrapBase64(value: string): string {
+  return Buffer.from(value).toString("base64").replace(/.{76}(?=.)/g, "$&\r\n");
+}
+
+/**
+ * Create a MIME-formatted email message with a plain-text and an HTML part
+ *
+ * @param headers - Extra headers to put first (e.g. Date and Message-ID for SMTP)
+ * @throws EmailHeaderError if the sender, recipient or subject could inject headers
+ */
+export function createMimeMessage(
+  from: string,
+  to: string,
+  subject: string,
+  htmlBody: string,
+  textBody: string,
+  headers: string[] = []
+): string {
+  const problem = hasLineBreak(from)
+    ? "Email sender must be a single line"
+    : emailHeadersProblem({ to, subject });
+  if (problem) {
+    throw new EmailHeaderError(problem);
+  }
+
+  const boundary = `boundary_${Date.now()}`;
+
+  const emailLines = [
+    ...headers,
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: =?UTF-8?B?${Buffer.from(subject).toString("base64")}?=`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(textBody),
+    "",
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(htmlBody),
+    "",
+    `--${boundary}--`,
+  ];
+
+  return emailLines.join("\r\n");
+}
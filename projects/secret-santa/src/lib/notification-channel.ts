@@ -0,0 +1,51 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * How a participant's invite is delivered
+ * - EMAIL: whenever they have an email address
+ * - SMS: only for participants with a phone number but no email
+ */
+export type NotificationChannel = "EMAIL" | "SMS";
+
+/**
+ * Outcome of the latest invite sent over a channel, stored as Participant.emailStatus and
+ * Participant.smsStatus (null = never sent over that channel)
+ */
+export type ChannelStatus = "SENT" | "FAILED";
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  EMAIL: "Email",
+  SMS: "Text message",
+};
+
+/**
+ * The channel a participant's invite goes out on, or null when there's no way to reach them
+ */
+export function inviteChannel(participant: {
+  email: string | null;
+  phone: string | null;
+}): NotificationChannel | null {
+  if (participant.email) return "EMAIL";
+  if (participant.phone?.trim()) return "SMS";
+  return null;
+}
+
+/**
+ * Records the outcome of an invite on its channel; a successful one also marks the
+ * participant as notified
+ */
+export async function recordInviteDelivery(
+  db: Prisma.TransactionClient,
+  participantId: string,
+  channel: NotificationChannel,
+  success: boolean
+) {
+  const status: ChannelStatus = success ? "SENT" : "FAILED";
+  return db.participant.update({
+    where: { id: participantId },
+    data: {
+      ...(channel === "EMAIL" ? { emailStatus: status } : { smsStatus: status }),
+      ...(success ? { notificationStatus: "SENT", notifiedAt: new Date() } : {}),
+    },
+  });
+}
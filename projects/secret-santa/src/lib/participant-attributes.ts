@@ -0,0 +1,62 @@
+/**
+ * Custom participant attributes (e.g. office, department, age band) that matching rules refer to
+ * Stored as a JSON object of attribute name -> value on Participant.attributes
+ */
+export type ParticipantAttributes = Record<string, string>;
+
+export const MAX_ATTRIBUTES = 20;
+export const MAX_ATTRIBUTE_LENGTH = 100;
+
+/**
+ * Reads attributes from the stored JSON, skipping anything that isn't a string value
+ */
+export function readAttributes(value: unknown): ParticipantAttributes {
+  const attributes: ParticipantAttributes = {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return attributes;
+  }
+
+  for (const [key, attributeValue] of Object.entries(value)) {
+    if (typeof attributeValue === "string") {
+      attributes[key] = attributeValue;
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Validates attributes sent by the admin, trimming names and values
+ * Blank values are dropped, so sending "" removes an attribute
+ *
+ * @returns The cleaned attributes, or an error message
+ */
+export function parseAttributesInput(
+  value: unknown
+): { attributes: ParticipantAttributes } | { error: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { error: "Attributes must be an object of names to values" };
+  }
+
+  const attributes: ParticipantAttributes = {};
+  for (const [rawKey, rawValue] of Object.entries(value)) {
+    if (typeof rawValue !== "string") {
+      return { error: `Attribute "${rawKey}" must be text` };
+    }
+    const key = rawKey.trim();
+    const attributeValue = rawValue.trim();
+    if (!key) {
+      return { error: "Attribute names can't be blank" };
+    }
+    if (key.length > MAX_ATTRIBUTE_LENGTH || attributeValue.length > MAX_ATTRIBUTE_LENGTH) {
+      return { error: `Attribute names and values must be at most ${MAX_ATTRIBUTE_LENGTH} characters` };
+    }
+    if (attributeValue) {
+      attributes[key] = attributeValue;
+    }
+  }
+
+  if (Object.keys(attributes).length > MAX_ATTRIBUTES) {
+    return { error: `A participant can have at most ${MAX_ATTRIBUTES} attributes` };
+  }
+  return { attributes };
+}
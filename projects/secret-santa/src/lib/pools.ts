@@ -0,0 +1,60 @@
+/**
+ * Pools split one event into separate draws (e.g. "Kids" and "Adults")
+ * Participants only draw others in their own pool; anyone without a pool is in the main draw
+ */
+
+export const MAIN_DRAW_NAME = "Main draw";
+
+export interface PoolDraw<T> {
+  id: string | null; // null for the main draw
+  name: string;
+  budget: string | null;
+  participants: T[];
+}
+
+/**
+ * Splits participants into one draw per pool, main draw first
+ * Pools nobody is in are skipped, but an event with no participants at all still
+ * gets an (empty) main draw so it can be analyzed like any other
+ */
+export function splitIntoPools<T extends { poolId: string | null }>(
+  participants: T[],
+  pools: { id: string; name: string; budget: string | null }[]
+): PoolDraw<T>[] {
+  const draws: PoolDraw<T>[] = [
+    {
+      id: null,
+      name: MAIN_DRAW_NAME,
+      budget: null,
+      participants: participants.filter(
+        p => p.poolId === null || !pools.some(pool => pool.id === p.poolId)
+      ),
+    },
+    ...pools.map(pool => ({
+      id: pool.id,
+      name: pool.name,
+      budget: pool.budget,
+      participants: participants.filter(p => p.poolId === pool.id),
+    })),
+  ];
+
+  const nonEmpty = draws.filter(draw => draw.participants.length > 0);
+  return nonEmpty.length > 0 ? nonEmpty : [draws[0]!];
+}
+
+/**
+ * Prefixes a message with the pool it is about, when the event has more than one draw
+ */
+export function poolMessage(draw: { name: string }, drawCount: number, message: string): string {
+  return drawCount > 1 ? `${draw.name}: ${message}` : message;
+}
+
+/**
+ * The budget a participant shops to: their pool's own budget replaces the event's
+ */
+export function participantBudget(
+  pool: { budget: string | null } | null,
+  eventBudget: string | null
+): string | null {
+  return pool?.budget || eventBudget;
+}
@@ -0,0 +1,37 @@
+import crypto from "crypto";
+
+/**
+ * Source of randomness for the assignment generators
+ * Injected so production draws use a CSPRNG while tests can replay a fixed sequence
+ */
+export interface RandomSource {
+  /** Returns a uniformly distributed integer in [0, max) */
+  randomInt(max: number): number;
+}
+
+/**
+ * Cryptographically secure randomness (crypto.randomInt) - the default for real draws
+ */
+export const secureRandom: RandomSource = {
+  randomInt: (max) => crypto.randomInt(max),
+};
+
+/**
+ * Deterministic randomness from a 32-bit seed (mulberry32)
+ * NOT suitable for real draws - the sequence is predictable from the seed
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  function next(): number {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  return {
+    randomInt: (max) => Math.floor(next() * max),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Scheduled reminders for participants who were invited but haven't opened their link
+ *
+ * Each event can have any number of schedules, e.g. "3 days after the invite" or "7 days
+ * before the event". The job runner (/api/cron/reminders) sends each participant at most one
+ * reminder per schedule per invite - a new invite (resend or redraw) starts over.
+ */
+
+/**
+ * What a schedule counts from
+ * - AFTER_INVITE: the participant's latest invite
+ * - BEFORE_EVENT: the event date (events without a date never get these)
+ */
+export type ReminderAnchor = "AFTER_INVITE" | "BEFORE_EVENT";
+
+export const REMINDER_ANCHORS: readonly ReminderAnchor[] = ["AFTER_INVITE", "BEFORE_EVENT"];
+
+export function isReminderAnchor(value: unknown): value is ReminderAnchor {
+  return typeof value === "string" && (REMINDER_ANCHORS as readonly string[]).includes(value);
+}
+
+/**
+ * Outcome of a reminder: SENDING while it goes out (or if the run died mid-send)
+ */
+export type ReminderStatus = "SENDING" | "SENT" | "FAILED";
+
+export const MAX_REMINDER_DAYS = 60;
+
+export interface ReminderScheduleInput {
+  anchor: string;
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Why a schedule can't be saved, or null if it can
+ */
+export function validateReminderSchedule(anchor: unknown, days: unknown): string | null {
+  if (!isReminderAnchor(anchor)) {
+    return "Anchor must be AFTER_INVITE or BEFORE_EVENT";
+  }
+  if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > MAX_REMINDER_DAYS) {
+    return `Days must be a whole number from 1 to ${MAX_REMINDER_DAYS}`;
+  }
+  return null;
+}
+
+/**
+ * e.g. "3 days after the invite" or "1 day before the event"
+ */
+export function describeReminderSchedule(schedule: ReminderScheduleInput): string {
+  const days = schedule.days === 1 ? "1 day" : `${schedule.days} days`;
+  return schedule.anchor === "BEFORE_EVENT" ? `${days} before the event` : `${days} after the invite`;
+}
+
+/**
+ * Start of the event day (UTC), or null for events without a date
+ */
+function eventStart(eventDate: string | null): Date | null {
+  if (!eventDate) return null;
+  const start = new Date(`${eventDate}T00:00:00Z`);
+  return Number.isNaN(start.getTime()) ? null : start;
+}
+
+/**
+ * When a schedule's reminder is due for an invite sent at invitedAt, or null if it never is
+ */
+export function reminderDueAt(
+  schedule: ReminderScheduleInput,
+  invitedAt: Date,
+  eventDate: string | null
+): Date | null {
+  if (schedule.anchor === "AFTER_INVITE") {
+    return new Date(invitedAt.getTime() + schedule.days * DAY_MS);
+  }
+  const start = eventStart(eventDate);
+  return start ? new Date(start.getTime() - schedule.days * DAY_MS) : null;
+}
+
+/**
+ * Whether a participant is owed a schedule's reminder right now
+ *
+ * Only invited participants who haven't viewed are reminded, never on or after the event day,
+ * and never for a due time that came before the invite (someone invited 2 days before the
+ * event doesn't need the "7 days before" reminder).
+ */
+export function isReminderDue(
+  schedule: ReminderScheduleInput,
+  participant: { notifiedAt: Date | null; viewedAt: Date | null },
+  eventDate: string | null,
+  now: Date = new Date()
+): boolean {
+  if (!participant.notifiedAt || participant.viewedAt) {
+    return false;
+  }
+
+  const start = eventStart(eventDate);
+  if (start && now >= start) {
+    return false;
+  }
+
+  const dueAt = reminderDueAt(schedule, participant.notifiedAt, eventDate);
+  return !!dueAt && dueAt > participant.notifiedAt && now >= dueAt;
+}
@@ -0,0 +1,167 @@
+import { logError, logInfo } from "@/lib/logger";
+
+/**
+ * How text messages leave the app, from SMS_PROVIDER (unset = no SMS)
+ * - TWILIO: Twilio's Messages API, or any service speaking the same HTTP API (TWILIO_* variables)
+ * - STUB: nothing is sent - messages are logged (for development and tests)
+ */
+export type SmsProviderKind = "TWILIO" | "STUB";
+
+export interface OutgoingSms {
+  /** E.164 number, e.g. +14155550123 - see normalizePhoneNumber */
+  to: string;
+  body: string;
+}
+
+export interface SendSmsResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface SmsProvider {
+  kind: SmsProviderKind;
+  send(sms: OutgoingSms): Promise<SendSmsResult>;
+}
+
+interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from: string;
+  apiUrl: string;
+}
+
+const SMS_TIMEOUT_MS = 30_000;
+
+/**
+ * The deployment's SMS provider, or null when SMS_PROVIDER is unset or unknown
+ */
+export function smsProviderKind(): SmsProviderKind | null {
+  switch (process.env.SMS_PROVIDER?.toUpperCase()) {
+    case "TWILIO":
+      return "TWILIO";
+    case "STUB":
+      return "STUB";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads the Twilio settings, or null when TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM
+ * is missing. TWILIO_API_URL points at a Twilio-compatible service instead.
+ */
+function readTwilioConfig(): TwilioConfig | null {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM;
+  if (!accountSid || !authToken || !from) {
+    return null;
+  }
+
+  return {
+    accountSid,
+    authToken,
+    from,
+    apiUrl: (process.env.TWILIO_API_URL || "https://api.twilio.com").replace(/\/+$/, ""),
+  };
+}
+
+/**
+ * Converts a phone number as typed ("(415) 555-0123", "0044 20 7946 0958") to E.164,
+ * or null when it can't be a phone number.
+ * Numbers without a country code get SMS_COUNTRY_CODE (1 by default), minus a leading trunk 0.
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, "");
+
+  let international: string;
+  if (trimmed.startsWith("+")) {
+    international = digits;
+  } else if (digits.startsWith("00")) {
+    international = digits.slice(2);
+  } else {
+    const countryCode = (process.env.SMS_COUNTRY_CODE || "1").replace(/\D/g, "");
+    international = countryCode + digits.replace(/^0/, "");
+  }
+
+  // E.164 allows at most 15 digits; anything under 8 is too short to be a full number
+  return international.length >= 8 && international.length <= 15 ? `+${international}` : null;
+}
+
+/**
+ * Why SMS can't be sent right now, for error messages, or null if it can
+ */
+export function smsProviderProblem(): string | null {
+  switch (smsProviderKind()) {
+    case null:
+      return "Text messages are not set up. Set SMS_PROVIDER to send invites by SMS.";
+    case "TWILIO":
+      return readTwilioConfig()
+        ? null
+        : "The SMS provider is not configured. Set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM.";
+    case "STUB":
+      return null;
+  }
+}
+
+async function sendViaTwilio(config: TwilioConfig, sms: OutgoingSms): Promise<SendSmsResult> {
+  try {
+    const response = await fetch(
+      `${config.apiUrl}/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: sms.to, From: config.from, Body: sms.body }),
+        signal: AbortSignal.timeout(SMS_TIMEOUT_MS),
+      }
+    );
+
+    const result = (await response.json().catch(() => ({}))) as { sid?: string; message?: string };
+    if (!response.ok) {
+      throw new Error(result.message || `SMS provider responded with ${response.status}`);
+    }
+
+    logInfo("Text message sent", { to: sms.to, messageId: result.sid });
+    return { success: true };
+  } catch (error) {
+    logError("Failed to send text message", error, { to: sms.to });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to send text message",
+    };
+  }
+}
+
+/**
+ * The deployment's SMS provider, or null when SMS isn't set up
+ * Check smsProviderProblem first - an unconfigured provider fails every send.
+ */
+export function createSmsProvider(): SmsProvider | null {
+  const kind = smsProviderKind();
+  switch (kind) {
+    case null:
+      return null;
+    case "TWILIO":
+      return {
+        kind,
+        send: async (sms) => {
+          const config = readTwilioConfig();
+          return config
+            ? sendViaTwilio(config, sms)
+            : { success: false, error: "The SMS provider is not configured" };
+        },
+      };
+    case "STUB":
+      return {
+        kind,
+        send: async (sms) => {
+          logInfo("Text message written to the console outbox", { to: sms.to, body: sms.body });
+          return { success: true };
+        },
+      };
+  }
+}
@@ -0,0 +1,108 @@
+import { normalizePhoneNumber, type SendSmsResult, type SmsProvider } from "@/lib/sms-provider";
+
+/**
+ * Text of the invite SMS - the invite email in a few lines
+ */
+export function inviteSmsBody(
+  recipientName: string,
+  eventName: string,
+  revealLink: string,
+  eventDate?: string | null,
+  budget?: string | null
+): string {
+  const formattedDate = eventDate
+    ? new Date(eventDate + "T12:00:00").toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+      })
+    : null;
+
+  return [
+    `Hi ${recipientName}! 🎁 You've been invited to ${eventName}, a Secret Santa gift exchange.`,
+    formattedDate && `📅 Event date: ${formattedDate}`,
+    budget && `💰 Budget: ${budget}`,
+    `Find out who you're getting a gift for: ${revealLink}`,
+    "🤫 Keep your assignment a secret!",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Send an invite text message to a participant
+ */
+export async function sendInviteSms(
+  provider: SmsProvider,
+  recipientPhone: string,
+  recipientName: string,
+  eventName: string,
+  revealLink: string,
+  eventDate?: string | null,
+  budget?: string | null
+): Promise<SendSmsResult> {
+  const to = normalizePhoneNumber(recipientPhone);
+  if (!to) {
+    return { success: false, error: `"${recipientPhone}" is not a valid phone number` };
+  }
+
+  return provider.send({
+    to,
+    body: inviteSmsBody(recipientName, eventName, revealLink, eventDate, budget),
+  });
+}
+
+/**
+ * Text of the SMS telling a participant that the draw is being redone
+ */
+export function redrawNoticeSmsBody(recipientName: string, eventName: string): string {
+  return [
+    `Hi ${recipientName}! 🎄 The organizer of ${eventName} is redoing the Secret Santa draw, so your assignment will change.`,
+    "You'll get a new invite once the new draw is ready - use the link in that one.",
+  ].join("\n");
+}
+
+/**
+ * Tell a participant invited by text message that the draw is being redone
+ */
+export async function sendRedrawNoticeSms(
+  provider: SmsProvider,
+  recipientPhone: string,
+  recipientName: string,
+  eventName: string
+): Promise<SendSmsResult> {
+  const to = normalizePhoneNumber(recipientPhone);
+  if (!to) {
+    return { success: false, error: `"${recipientPhone}" is not a valid phone number` };
+  }
+
+  return provider.send({ to, body: redrawNoticeSmsBody(recipientName, eventName) });
+}
+
+/**
+ * Text of the reminder SMS for a participant who hasn't opened their link
+ */
+export function reminderSmsBody(recipientName: string, eventName: string, revealLink: string): string {
+  return [
+    `Hi ${recipientName}! 🎄 Reminder: you haven't opened your ${eventName} Secret Santa invite yet.`,
+    `Find out who you're getting a gift for: ${revealLink}`,
+  ].join("\n");
+}
+
+/**
+ * Send a reminder text message to a participant
+ */
+export async function sendReminderSms(
+  provider: SmsProvider,
+  recipientPhone: string,
+  recipientName: string,
+  eventName: string,
+  revealLink: string
+): Promise<SendSmsResult> {
+  const to = normalizePhoneNumber(recipientPhone);
+  if (!to) {
+    return { success: false, error: `"${recipientPhone}" is not a valid phone number` };
+  }
+
+  return provider.send({ to, body: reminderSmsBody(recipientName, eventName, revealLink) });
+}
@@ -0,0 +1,238 @@
+import net from "node:net";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+import type { OutgoingEmail, SendEmailResult } from "@/lib/email-transport";
+import { logError, logInfo } from "@/lib/logger";
+import { createMimeMessage } from "@/lib/mime";
+
+/**
+ * SMTP server settings, from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+ * and SMTP_FROM
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /**
+   * Connect with TLS straight away (port 465); otherwise STARTTLS is used when offered, and
+   * required when a user is set
+   */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Sender, optionally with a display name: "Secret Santa <santa@example.com>" */
+  from: string;
+}
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * Reads the SMTP settings from the environment, or null when SMTP_HOST or SMTP_FROM is missing
+ */
+export function readSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) {
+    return null;
+  }
+
+  const secure = process.env.SMTP_SECURE === "true";
+  const port = Number(process.env.SMTP_PORT) || (secure ? 465 : 587);
+  return {
+    host,
+    port,
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+  };
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads SMTP replies off a socket, one complete (possibly multi-line) reply at a time
+ */
+class SmtpReader {
+  private buffer = "";
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    this.flush();
+  };
+  private readonly onTimeout = () => {
+    this.fail(new Error("SMTP server timed out"));
+    this.socket.destroy();
+  };
+  private readonly onError = (error: Error) => this.fail(error);
+  private readonly onClose = () => this.fail(new Error("SMTP connection closed unexpectedly"));
+
+  constructor(private readonly socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on("data", this.onData);
+    socket.on("timeout", this.onTimeout);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  /**
+   * Stops reading the socket, removing only this reader's listeners
+   */
+  detach() {
+    this.socket.setTimeout(0);
+    this.socket.off("data", this.onData);
+    this.socket.off("timeout", this.onTimeout);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  fail(error: Error) {
+    this.failure ??= error;
+    this.pending?.reject(this.failure);
+    this.pending = null;
+  }
+
+  private flush() {
+    if (!this.pending) return;
+    if (this.failure) {
+      this.fail(this.failure);
+      return;
+    }
+
+    // A reply ends with a line whose code is followed by a space (or nothing)
+    const lines = this.buffer.split("\r\n");
+    const last = lines.slice(0, -1).findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return;
+
+    const replyLines = lines.slice(0, last + 1);
+    this.buffer = lines.slice(last + 1).join("\r\n");
+    const { resolve } = this.pending;
+    this.pending = null;
+    resolve({
+      code: Number(replyLines[last]!.slice(0, 3)),
+      lines: replyLines.map((line) => line.slice(4)),
+    });
+  }
+}
+
+class SmtpError extends Error {
+  constructor(command: string, reply: SmtpReply) {
+    super(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    this.name = "SmtpError";
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.once(config.secure ? "secureConnect" : "connect", () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once("error", reject);
+  });
+}
+
+/**
+ * Escapes lines starting with a dot, which would otherwise end the DATA section early
+ */
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, "..");
+}
+
+/**
+ * Sends one email over SMTP: EHLO, STARTTLS when offered, AUTH PLAIN when a user is set,
+ * then MAIL FROM / RCPT TO / DATA on a fresh connection
+ * The password is never sent unencrypted: with a user set, a server that offers neither TLS
+ * nor STARTTLS fails the send.
+ */
+export async function sendEmailViaSmtp(
+  config: SmtpConfig,
+  email: OutgoingEmail
+): Promise<SendEmailResult> {
+  let socket: net.Socket | null = null;
+
+  try {
+    socket = await connect(config);
+    let reader = new SmtpReader(socket);
+
+    const command = async (line: string | null, expected: number[], name: string) => {
+      if (line !== null) {
+        socket!.write(`${line}\r\n`);
+      }
+      const reply = await reader.read();
+      if (!expected.includes(reply.code)) {
+        throw new SmtpError(name, reply);
+      }
+      return reply;
+    };
+
+    await command(null, [220], "greeting");
+    const ehlo = await command("EHLO secret-santa", [250], "EHLO");
+
+    const offersStartTls = ehlo.lines.some((line) => line.toUpperCase() === "STARTTLS");
+    if (!config.secure && !offersStartTls && config.user) {
+      throw new Error(
+        "SMTP server does not offer STARTTLS - refusing to send the SMTP password unencrypted " +
+          "(set SMTP_SECURE=true for a TLS port)"
+      );
+    }
+
+    if (!config.secure && offersStartTls) {
+      await command("STARTTLS", [220], "STARTTLS");
+      // The TLS socket takes over the connection, so the plain one's reader must stop listening
+      reader.detach();
+      socket = await upgradeToTls(socket, config.host);
+      reader = new SmtpReader(socket);
+      await command("EHLO secret-santa", [250], "EHLO");
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    // SMTP_FROM may include a display name ("Secret Santa <santa@example.com>")
+    const fromAddress = config.from.match(/<([^>]+)>/)?.[1] ?? config.from;
+    const domain = fromAddress.split("@")[1] ?? config.host;
+    const message = createMimeMessage(config.from, email.to, email.subject, email.html, email.text, [
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+    ]);
+
+    await command(`MAIL FROM:<${fromAddress}>`, [250], "MAIL FROM");
+    await command(`RCPT TO:<${email.to}>`, [250, 251], "RCPT TO");
+    await command("DATA", [354], "DATA");
+    await command(`${dotStuff(message)}\r\n.`, [250], "message");
+    socket.write("QUIT\r\n");
+
+    logInfo("Email sent via SMTP", { to: email.to, host: config.host });
+    return { success: true };
+  } catch (error) {
+    logError("Failed to send email via SMTP", error, { to: email.to, host: config.host });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to send email",
+    };
+  } finally {
+    socket?.end();
+  }
+}
@@ -52,13 +52,15 @@ export interface NotifyResponse {
 // Reveal
 export interface RevealResponse {
   participantName: string;
-  assignedToName: string;
+  recipientNames: string[]; // One per gift, in round order
+  pool: { name: string; budget: string | null } | null; // null for the main draw
   event: {
     name: string;
     budget: string | null;
     eventDate: string | null;
     rules: string | null;
   };
+  drawCommitment: { commitment: string; createdAt: string } | null;
 }
 
 // Error response
@@ -5,6 +5,23 @@
 
 export type NotificationStatus = "NOT_SENT" | "SENT" | "VIEWED";
 
+export type ChannelStatus = "SENT" | "FAILED"; // Latest invite over one channel (email or SMS)
+
+export type ReminderStatus = "SENDING" | "SENT" | "FAILED";
+
+export type AssignmentTopology = "SINGLE_CYCLE" | "ANY_DERANGEMENT" | "NO_MUTUAL_PAIRS";
+
+export type ExchangeMode = "OPEN" | "CROSS_SIDES";
+
+export type EventStatus =
+  | "DRAFT"
+  | "OPEN"
+  | "DRAWN"
+  | "NOTIFIED"
+  | "EVENT_DAY"
+  | "REVEALED"
+  | "ARCHIVED";
+
 export interface Event {
   id: string;
   name: string;
@@ -12,7 +29,11 @@ export interface Event {
   budget: string | null;
   eventDate: string | null; // Stored as YYYY-MM-DD string
   rules: string | null;
-  isLocked: boolean;
+  status: EventStatus; // Lifecycle phase, see lib/event-lifecycle
+  historyDepth: number; // How many linked prior events to avoid repeating
+  topology: AssignmentTopology; // Loop shape of the draw
+  giftsPerParticipant: number; // Recipients each participant buys for
+  exchangeMode: ExchangeMode; // CROSS_SIDES: everyone gives to the other side
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,15 +43,122 @@ export interface Participant {
   eventId: string;
   name: string;
   email: string | null;
+  phone: string | null;
+  groupId: string | null;
+  poolId: string | null; // Separate draw within the event; null = main draw
+  side: string | null; // Team in a CROSS_SIDES exchange
+  attributes: Record<string, string>; // Custom attributes for matching rules
   accessToken: string;
-  assignedToId: string | null;
   notificationStatus: NotificationStatus;
   notifiedAt: Date | null;
+  emailStatus: ChannelStatus | null;
+  smsStatus: ChannelStatus | null;
   viewedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Who buys for whom - each round is a complete arrangement of the event
+ */
+export interface Assignment {
+  id: string;
+  eventId: string;
+  giverId: string;
+  receiverId: string;
+  round: number; // 0 to giftsPerParticipant - 1
+  createdAt: Date;
+}
+
+/**
+ * Published hash of an event's complete assignments, one per (re)generation
+ */
+export interface DrawCommitment {
+  id: string;
+  eventId: string;
+  commitment: string; // SHA-256 hex over the salted assignments
+  salt: string; // Secret until verification opens
+  createdAt: Date;
+}
+
+export type AssignmentVersionKind = "FULL" | "PARTIAL" | "LATE_ADDITION" | "WITHDRAWAL";
+
+/**
+ * Snapshot of the complete assignments after a draw or change, for the timeline and rollback
+ */
+export interface AssignmentVersion {
+  id: string;
+  eventId: string;
+  number: number; // 1, 2, 3... within the event
+  kind: AssignmentVersionKind;
+  generatedBy: string | null;
+  lockedParticipantIds: string[]; // Kept their assignment because they had viewed it
+  assignments: { giverId: string; receiverId: string; round: number }[]; // Never sent to the admin
+  rolledBackAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * A household (or any group) whose members never draw each other
+ */
+export interface Group {
+  id: string;
+  eventId: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * A separate draw within an event (e.g. "Kids"), with an optional budget of its own
+ */
+export interface Pool {
+  id: string;
+  eventId: string;
+  name: string;
+  budget: string | null; // Overrides the event budget for this pool
+  createdAt: Date;
+}
+
+export interface Exclusion {
+  id: string;
+  eventId: string;
+  participant1Id: string; // Stored sorted: participant1Id < participant2Id
+  participant2Id: string;
+  createdAt: Date;
+}
+
+/**
+ * A "must give to" rule: the giver always draws the receiver
+ */
+export interface ForcedPair {
+  id: string;
+  eventId: string;
+  giverId: string;
+  receiverId: string;
+  createdAt: Date;
+}
+
+/**
+ * A rule over a participant attribute, e.g. "only match within the same office"
+ */
+export interface MatchingRule {
+  id: string;
+  eventId: string;
+  attribute: string; // Key in Participant.attributes
+  relation: "SAME" | "DIFFERENT";
+  createdAt: Date;
+}
+
+/**
+ * Links an event to a prior event in the same series (e.g. last year's exchange)
+ */
+export interface EventLink {
+  id: string;
+  eventId: string;
+  priorEventId: string;
+  createdAt: Date;
+}
+
 /**
  * Participant data safe for admin view (no assignment info)
  */
@@ -38,11 +166,31 @@ export interface ParticipantAdminView {
   id: string;
   name: string;
   email: string | null;
+  phone: string | null;
+  group: { id: string; name: string } | null;
+  pool: { id: string; name: string } | null;
+  side: string | null;
+  attributes: Record<string, string>;
   accessToken: string;
   notificationStatus: NotificationStatus;
   notifiedAt: string | null;
+  emailStatus: ChannelStatus | null;
+  smsStatus: ChannelStatus | null;
   viewedAt: string | null;
   createdAt: string;
+  reminders: ReminderAdminView[]; // Oldest first
+}
+
+/**
+ * One scheduled reminder sent (or tried) to a participant
+ */
+export interface ReminderAdminView {
+  id: string;
+  channel: "EMAIL" | "SMS";
+  status: ReminderStatus;
+  error: string | null;
+  createdAt: string;
+  sentAt: string | null;
 }
 
 /**
@@ -54,7 +202,18 @@ export interface EventAdminView {
   budget: string | null;
   eventDate: string | null;
   rules: string | null;
-  isLocked: boolean;
+  status: EventStatus;
+  isLocked: boolean; // From the draw onwards
+  nextStatuses: EventStatus[]; // Phases the admin can move to by hand
+  historyDepth: number;
+  topology: AssignmentTopology;
+  giftsPerParticipant: number;
+  exchangeMode: ExchangeMode;
+  emailTransport: { kind: "GMAIL" | "SMTP" | "OUTBOX"; isDefault: boolean; problem: string | null };
+  smsProblem: string | null; // Why invites can't go out by SMS, or null when they can
   createdAt: string;
   participants: ParticipantAdminView[];
+  groups: { id: string; name: string }[];
+  pools: { id: string; name: string; budget: string | null }[];
+  drawCommitment: { commitment: string; createdAt: string } | null;
 }